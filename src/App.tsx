@@ -4,6 +4,15 @@ import Sheet from "./components/Sheet";
 import AuthPage from "./components/AuthPage";
 import Dashboard from "./components/Dashboard";
 import SplashScreen from "./components/SplashScreen";
+import { DEFAULT_CALC_OPTIONS } from "./utils/formulaEngine";
+import type { CalcOptions, CellValue } from "./utils/formulaEngine";
+import { renameSheetReferences, sameSheet } from "./utils/formulaParser";
+import type { DefinedName } from "./utils/definedNames";
+import type { RangeRef } from "./utils/formulaValues";
+import { recalcWorkbook, rewriteFormulas, rewriteSheets } from "./utils/workbook";
+import type { WorkbookLink, WorkbookSheet } from "./utils/workbook";
+import { DEFAULT_LOCALE_SETTINGS } from "./utils/locale";
+import type { LocaleSettings } from "./utils/locale";
 
 type SheetMeta = {
   id: string;
@@ -29,6 +38,8 @@ type TemplateDef = {
 const WORKBOOK_KEY = "excel-clone:workbook-meta";
 const THEME_KEY = "excel-clone:theme";
 const USER_KEY = "excel-clone:user";
+const CALC_OPTIONS_KEY = "excel-clone:calc-options";
+const LOCALE_KEY = "excel-clone:locale";
 
 type User = { name: string; email: string; password?: string };
 type View = "dashboard" | "sheet";
@@ -40,6 +51,46 @@ function makeNewMeta(name = "Sheet", rows = 200, cols = 50): SheetMeta {
   const id = makeId();
   return { id, name, rows, cols, storageKey: `excel-clone:sheet:${id}` };
 }
+/** `base`, or `base` with the first number from `start` on, that no sheet of `metas` is named (case-insensitive) */
+function freeSheetName(metas: SheetMeta[], base: string, start?: number): string {
+  const taken = (name: string) => metas.some(m => sameSheet(m.name, name));
+  if (start === undefined && !taken(base)) return base;
+  let n = start ?? 2;
+  while (taken(`${base}${n}`)) n++;
+  return `${base}${n}`;
+}
+/** A sheet's saved state (see the autosave in Sheet.tsx); only `cells` and `names` matter here */
+type SheetPayload = { cells?: Record<string, CellValue>; names?: DefinedName[]; [key: string]: unknown };
+
+/** Parsed payloads by storage key, with the text they came from: the other sheets are read on every edit */
+const payloadCache = new Map<string, { text: string; payload: SheetPayload }>();
+
+function loadPayload(meta: SheetMeta): SheetPayload {
+  const text = localStorage.getItem(meta.storageKey) || "{}";
+  const cached = payloadCache.get(meta.storageKey);
+  if (cached?.text === text) return cached.payload;
+  let payload: SheetPayload;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    payload = {};
+  }
+  payloadCache.set(meta.storageKey, { text, payload });
+  return payload;
+}
+/** Every sheet's saved cells, in the shape the workbook helpers take */
+function loadBook(metas: SheetMeta[]) {
+  return metas.map(meta => {
+    const payload = loadPayload(meta);
+    return { meta, payload, name: meta.name, cells: payload.cells ?? {}, names: payload.names };
+  });
+}
+function saveBookSheet(sheet: ReturnType<typeof loadBook>[number]) {
+  const payload = { ...sheet.payload, cells: sheet.cells };
+  const text = JSON.stringify(payload);
+  localStorage.setItem(sheet.meta.storageKey, text);
+  payloadCache.set(sheet.meta.storageKey, { text, payload });
+}
 function ensureWorkbook(): SheetMeta[] {
   try {
     const raw = localStorage.getItem(WORKBOOK_KEY);
@@ -152,6 +203,34 @@ const createFromTemplate = (tmpl: TemplateDef) => {
   const [sheets, setSheets] = useState<SheetMeta[]>(() => ensureWorkbook());
   const [activeIndex, setActiveIndex] = useState(0);
 
+  // Calculation settings (shared by every sheet in the workbook)
+  const [calcOptions, setCalcOptions] = useState<CalcOptions>(() => {
+    try {
+      const raw = localStorage.getItem(CALC_OPTIONS_KEY);
+      if (raw) return { ...DEFAULT_CALC_OPTIONS, ...JSON.parse(raw) };
+    } catch {
+      // fall back to defaults
+    }
+    return DEFAULT_CALC_OPTIONS;
+  });
+  useEffect(() => {
+    localStorage.setItem(CALC_OPTIONS_KEY, JSON.stringify(calcOptions));
+  }, [calcOptions]);
+
+  // Regional settings: number input and display, argument separator, function names
+  const [localeSettings, setLocaleSettings] = useState<LocaleSettings>(() => {
+    try {
+      const raw = localStorage.getItem(LOCALE_KEY);
+      if (raw) return { ...DEFAULT_LOCALE_SETTINGS, ...JSON.parse(raw) };
+    } catch {
+      // fall back to defaults
+    }
+    return DEFAULT_LOCALE_SETTINGS;
+  });
+  useEffect(() => {
+    localStorage.setItem(LOCALE_KEY, JSON.stringify(localeSettings));
+  }, [localeSettings]);
+
   // Auth
   // ✅ always require login on fresh run
 const [user, setUser] = useState<User | null>(null);
@@ -188,10 +267,56 @@ const [user, setUser] = useState<User | null>(null);
   }, [sheets]);
 
   const activeSheet = sheets[activeIndex];
+  // bumped to reload the open sheet after its saved formulas were rewritten from here
+  const [sheetReload, setSheetReload] = useState(0);
+  // cells to select in the sheet opened by a Go To from another sheet
+  const [goToTarget, setGoToTarget] = useState<{ sheetId: string; range: RangeRef } | null>(null);
+  useEffect(() => {
+    // once another sheet opens, going back to that one doesn't select them again
+    if (goToTarget && goToTarget.sheetId !== activeSheet?.id) setGoToTarget(null);
+  }, [activeSheet?.id, goToTarget]);
+
+  // Cross-sheet references (Sheet2!A1). Only the open sheet lives in memory; the others are
+  // read from, and recalculated into, their saved payloads.
+  /** Save new cells for some of the sheets that aren't open */
+  const saveOthers = (updated: WorkbookSheet[]) => {
+    const book = loadBook(sheets.filter(s => s !== activeSheet));
+    for (const { name, cells } of updated) {
+      const sheet = book.find(s => sameSheet(s.name, name));
+      if (sheet) saveBookSheet({ ...sheet, cells });
+    }
+  };
+  const workbookLink: WorkbookLink = {
+    others: () => loadBook(sheets.filter(s => s !== activeSheet)).map(({ name, cells, names }) => ({ name, cells, names })),
+    calculated: saveOthers,
+    rewriteOthers: (rewrite) => {
+      const book = loadBook(sheets.filter(s => s !== activeSheet));
+      const before = rewriteSheets(book, rewrite);
+      for (const sheet of book) {
+        if (before.some(b => b.name === sheet.name)) saveBookSheet(sheet);
+      }
+      return before;
+    },
+    restoreOthers: saveOthers,
+    goTo: (name, range) => {
+      const index = sheets.findIndex(s => sameSheet(s.name, name));
+      if (index < 0) return false;
+      setGoToTarget({ sheetId: sheets[index].id, range });
+      setActiveIndex(index);
+      return true;
+    },
+  };
+  /** Rewrite every saved formula of the workbook `metas`, then recalculate it all */
+  const rewriteWorkbook = (metas: SheetMeta[], rewrite: (raw: string) => string) => {
+    const book = loadBook(metas);
+    const rewritten = book.filter(sheet => rewriteFormulas(sheet, rewrite));
+    for (const sheet of recalcWorkbook(book, calcOptions)) saveBookSheet(sheet);
+    return rewritten.map(sheet => sheet.meta.id);
+  };
 
   // Sheet actions
   const addSheet = () => {
-    const meta = makeNewMeta(`Sheet${sheets.length + 1}`);
+    const meta = makeNewMeta(freeSheetName(sheets, "Sheet", sheets.length + 1));
     setSheets((prev) => {
       const next = [...prev, meta];
       localStorage.setItem(WORKBOOK_KEY, JSON.stringify(next));
@@ -205,17 +330,26 @@ const [user, setUser] = useState<User | null>(null);
     if (!confirm(`Delete "${sheets[index].name}"?`)) return;
     localStorage.removeItem(sheets[index].storageKey);
     const next = sheets.filter((_, i) => i !== index);
+    // references to the deleted sheet become #REF!
+    rewriteWorkbook(next, raw => renameSheetReferences(raw, sheets[index].name, null));
     setSheets(next);
     setActiveIndex(Math.max(0, index - 1));
   };
   const renameSheet = (index: number) => {
-    const newName = prompt("Rename sheet", sheets[index].name);
-    if (!newName) return;
-    setSheets(sheets.map((s, i) => (i === index ? { ...s, name: newName } : s)));
+    const newName = prompt("Rename sheet", sheets[index].name)?.trim();
+    if (!newName || newName === sheets[index].name) return;
+    if (sheets.some((s, i) => i !== index && sameSheet(s.name, newName))) {
+      return alert(`There is already a sheet named "${newName}".`);
+    }
+    const next = sheets.map((s, i) => (i === index ? { ...s, name: newName } : s));
+    // formulas naming the sheet follow the rename
+    const rewritten = rewriteWorkbook(next, raw => renameSheetReferences(raw, sheets[index].name, newName));
+    if (activeSheet && rewritten.includes(activeSheet.id)) setSheetReload(n => n + 1);
+    setSheets(next);
   };
   const duplicateSheet = (index: number) => {
     const src = sheets[index];
-    const copy = makeNewMeta(`${src.name}-copy`, src.rows, src.cols);
+    const copy = makeNewMeta(freeSheetName(sheets, `${src.name}-copy`), src.rows, src.cols);
     setSheets((prev) => {
       const next = [...prev, copy];
       const blob = localStorage.getItem(src.storageKey);
@@ -404,12 +538,18 @@ if (view === "dashboard")
         <div style={{ flex: 1, minHeight: 0 }}>
           {activeSheet ? (
             <Sheet
-  key={activeSheet.storageKey}   // 👈 add this line
+  key={`${activeSheet.storageKey}:${sheetReload}`}
   rows={activeSheet.rows}
   cols={activeSheet.cols}
   storageKey={activeSheet.storageKey}
   sheetName={activeSheet.name}
   theme={theme}
+  calcOptions={calcOptions}
+  onCalcOptionsChange={setCalcOptions}
+  locale={localeSettings}
+  onLocaleChange={setLocaleSettings}
+  workbook={workbookLink}
+  select={goToTarget?.sheetId === activeSheet.id ? goToTarget.range : undefined}
 />
 
           ) : (
@@ -0,0 +1,259 @@
+// src/components/FormulaEditor.tsx
+// The input used to type cell contents, in the formula bar and in the cell. Formulas get
+// colored references, function-name completion and the signature of the call being typed.
+import { useLayoutEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { cycleAnchorAt } from "../utils/formulaParser";
+import {
+  activeParam,
+  applyCompletion,
+  callAt,
+  colorReferences,
+  completionsAt,
+  functionSignature,
+} from "../utils/formulaHints";
+import { DEFAULT_LOCALE_SETTINGS, canonicalFunctionName, getLocale, localFunctionNames } from "../utils/locale";
+import type { LocaleSettings } from "../utils/locale";
+
+type Props = {
+  value: string;
+  onChange: (text: string) => void;
+  /** Enter, unless it picked a completion */
+  onCommit: () => void;
+  /** Escape, unless it closed the completion list */
+  onCancel?: () => void;
+  /** The input gained focus (the sheet inserts clicked references into it) */
+  onFocus?: (input: HTMLInputElement) => void;
+  onBlur?: () => void;
+  /** Defined names, offered with the functions */
+  names?: string[];
+  /** Regional settings: the argument separator and function names the formula is typed with */
+  locale?: LocaleSettings;
+  theme?: "light" | "dark";
+  /** Applied to the box around the input */
+  className?: string;
+  style?: React.CSSProperties;
+  placeholder?: string;
+  autoFocus?: boolean;
+};
+
+/** Completion rows shown at once; the list scrolls past them */
+const VISIBLE_ITEMS = 8;
+
+export default function FormulaEditor({
+  value,
+  onChange,
+  onCommit,
+  onCancel,
+  onFocus,
+  onBlur,
+  names,
+  locale = DEFAULT_LOCALE_SETTINGS,
+  theme,
+  className,
+  style,
+  placeholder,
+  autoFocus,
+}: Props) {
+  const boxRef = useRef<HTMLDivElement | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const mirrorRef = useRef<HTMLDivElement | null>(null);
+  const [caret, setCaret] = useState<number | null>(null); // null: not focused
+  const [anchor, setAnchor] = useState<DOMRect | null>(null);
+  const [active, setActive] = useState(0);
+  const [dismissed, setDismissed] = useState<string | null>(null); // text the list was closed at
+
+  const isFormula = value.startsWith("=");
+  const functionNames = localFunctionNames(locale);
+  const separator = getLocale(locale).separator;
+  const list = caret !== null && dismissed !== value ? completionsAt(value, caret, names, functionNames) : null;
+  const call = caret !== null && !list ? callAt(value, caret, separator) : null;
+  const signature = call && functionSignature(canonicalFunctionName(call.name, locale));
+  const picked = list ? Math.min(active, list.items.length - 1) : 0;
+
+  // the colored copy behind the input scrolls along with it
+  useLayoutEffect(() => {
+    if (mirrorRef.current && inputRef.current) mirrorRef.current.scrollLeft = inputRef.current.scrollLeft;
+  });
+
+  /** Track the caret (and where the popup goes) after the input changed or it moved */
+  const track = () => {
+    const input = inputRef.current;
+    if (!input) return;
+    setCaret(input.selectionStart ?? input.value.length);
+    setAnchor(boxRef.current?.getBoundingClientRect() ?? null);
+  };
+
+  /** Replace the text and put the caret at `at` once it is rendered */
+  const replace = (text: string, at: number) => {
+    const input = inputRef.current;
+    onChange(text);
+    setCaret(at);
+    requestAnimationFrame(() => input?.setSelectionRange(at, at));
+  };
+
+  const accept = (i: number) => {
+    if (!list) return;
+    const next = applyCompletion(value, list, list.items[i]);
+    replace(next.text, next.caret);
+    setActive(0);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (list) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const n = list.items.length;
+        setActive((picked + (e.key === "ArrowDown" ? 1 : n - 1)) % n);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") { e.preventDefault(); accept(picked); return; }
+      if (e.key === "Escape") { e.preventDefault(); setDismissed(value); return; }
+    }
+    if (e.key === "F4") {
+      // cycle the `$` anchors of the reference at the caret
+      e.preventDefault();
+      const next = cycleAnchorAt(value, e.currentTarget.selectionStart ?? value.length);
+      if (next) replace(next.text, next.caret);
+    } else if (e.key === "Enter") onCommit();
+    else if (e.key === "Escape") onCancel?.();
+  };
+
+  /** The text with each reference in its color, drawn behind the (transparent) input text */
+  const renderMirror = () => {
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const ref of colorReferences(value)) {
+      parts.push(value.slice(last, ref.from));
+      parts.push(<span key={ref.from} style={{ color: ref.color }}>{value.slice(ref.from, ref.to)}</span>);
+      last = ref.to;
+    }
+    parts.push(value.slice(last));
+    return parts;
+  };
+
+  const dark = theme === "dark";
+  const popup: React.CSSProperties = {
+    position: "fixed",
+    top: (anchor?.bottom ?? 0) + 4,
+    left: anchor?.left ?? 0,
+    zIndex: 2000,
+    maxWidth: 460,
+    background: dark ? "#1e293b" : "#ffffff",
+    color: dark ? "#e2e8f0" : "#0f172a",
+    border: `1px solid ${dark ? "#334155" : "#cbd5e1"}`,
+    borderRadius: 6,
+    boxShadow: "0 8px 20px rgba(0,0,0,0.2)",
+    fontSize: 12,
+    fontFamily: "system-ui, -apple-system, \"Segoe UI\", Roboto, sans-serif",
+  };
+  const muted = dark ? "#94a3b8" : "#64748b";
+  // presses keep the focus in the input, and stay out of the grid (portal events bubble to it)
+  const hold = (e: React.MouseEvent) => { e.preventDefault(); e.stopPropagation(); };
+
+  const renderList = () => list && (
+    <div role="listbox" onMouseDown={hold} style={{ ...popup, minWidth: 260, maxHeight: VISIBLE_ITEMS * 40, overflowY: "auto" }}>
+      {list.items.map((item, i) => (
+        <div
+          key={item.name}
+          role="option"
+          aria-selected={i === picked}
+          ref={i === picked ? el => el?.scrollIntoView({ block: "nearest" }) : undefined}
+          onMouseDown={() => accept(i)}
+          onMouseEnter={() => setActive(i)}
+          style={{
+            padding: "4px 8px",
+            cursor: "pointer",
+            background: i === picked ? (dark ? "#1e3a8a" : "#dbeafe") : undefined,
+          }}
+        >
+          <div style={{ fontWeight: 600, fontFamily: "monospace" }}>{item.name}</div>
+          <div style={{ color: muted }}>{item.description}</div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderSignature = () => {
+    if (!signature || !call) return null;
+    const current = activeParam(signature, call.arg);
+    return (
+      <div onMouseDown={hold} style={{ ...popup, padding: "6px 10px" }}>
+        <div style={{ fontFamily: "monospace" }}>
+          {functionNames?.[signature.name] ?? signature.name}(
+          {signature.params.map((p, i) => (
+            <span key={i}>
+              {i > 0 && `${separator} `}
+              <span style={i === current ? { fontWeight: 700, textDecoration: "underline" } : undefined}>{p}</span>
+            </span>
+          ))}
+          {signature.variadic && `${separator} ...`})
+        </div>
+        <div style={{ color: muted, marginTop: 2 }}>{signature.description}</div>
+      </div>
+    );
+  };
+
+  const text: React.CSSProperties = {
+    font: "inherit",
+    letterSpacing: "inherit",
+    padding: 0,
+    margin: 0,
+    border: "none",
+    textAlign: isFormula ? "left" : style?.textAlign,
+  };
+
+  return (
+    <div
+      ref={boxRef}
+      className={className}
+      style={{ display: "flex", alignItems: "center", position: "relative", ...style }}
+    >
+      <div style={{ position: "relative", flex: 1, minWidth: 0, height: "100%", display: "flex", alignItems: "center" }}>
+        {isFormula && (
+          <div
+            ref={mirrorRef}
+            aria-hidden
+            style={{
+              ...text,
+              position: "absolute",
+              inset: 0,
+              display: "flex",
+              alignItems: "center",
+              whiteSpace: "pre",
+              overflow: "hidden",
+              pointerEvents: "none",
+            }}
+          >
+            <span style={{ flexShrink: 0 }}>{renderMirror()}</span>
+          </div>
+        )}
+        <input
+          ref={inputRef}
+          autoFocus={autoFocus}
+          spellCheck={false}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => { onChange(e.target.value); setDismissed(null); setActive(0); track(); }}
+          onSelect={track}
+          onScroll={(e) => { if (mirrorRef.current) mirrorRef.current.scrollLeft = e.currentTarget.scrollLeft; }}
+          onKeyDown={onKeyDown}
+          onFocus={(e) => { track(); onFocus?.(e.currentTarget); }}
+          onBlur={() => { setCaret(null); setDismissed(null); onBlur?.(); }}
+          style={{
+            ...text,
+            position: "relative",
+            width: "100%",
+            height: "100%",
+            outline: "none",
+            background: "transparent",
+            color: "inherit",
+            // formula text is drawn by the colored copy behind; the caret keeps the text color
+            WebkitTextFillColor: isFormula ? "transparent" : undefined,
+          }}
+        />
+      </div>
+      {caret !== null && createPortal(list ? renderList() : renderSignature(), document.body)}
+    </div>
+  );
+}
@@ -1,7 +1,50 @@
 // src/components/Sheet.tsx
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
-import { evaluateAndUpdate, setCellRaw } from "../utils/formulaEngine";
-import type { CellValue } from "../utils/formulaEngine";
+import {
+  buildDependencyGraph,
+  CIRCULAR_ERROR,
+  DEFAULT_CALC_OPTIONS,
+  evaluationSteps,
+  isFormulaError,
+  setCellRaw,
+  valueToText,
+} from "../utils/formulaEngine";
+import type { CalcOptions, CellValue, DependencyGraph, EvaluationStep } from "../utils/formulaEngine";
+import {
+  cellId,
+  colIndexToName,
+  formatAst,
+  formatSheetName,
+  splitSheetPrefix,
+  getFormulaAst,
+  moveReferences,
+  parseId,
+  refToString,
+  sameSheet,
+  shiftReferences,
+  spliceReferences,
+} from "../utils/formulaParser";
+import type { Ast, SheetFilter } from "../utils/formulaParser";
+import { workbookContext } from "../utils/workbook";
+import type { WorkbookLink, WorkbookSheet } from "../utils/workbook";
+import { createCalcClient } from "../utils/calcClient";
+import type { CalcClient } from "../utils/calcClient";
+import { findName, isValidName, isValidNameFormula, parseNameRef, resolveName, rewriteNames } from "../utils/definedNames";
+import type { DefinedName, NameScope, NameTarget } from "../utils/definedNames";
+import type { RangeRef } from "../utils/formulaValues";
+import { parseDateText } from "../utils/dateSerial";
+import { formatNumber } from "../utils/numberFormat";
+import { DEFAULT_LOCALE_SETTINGS, LOCALES, fromEditText, getLocale, numberSymbols, toEditText } from "../utils/locale";
+import type { LocaleSettings } from "../utils/locale";
+import { colorReferences, pointingAt } from "../utils/formulaHints";
+import { evaluationText, traceStep } from "../utils/formulaAudit";
+import type { TraceArrow } from "../utils/formulaAudit";
+import { goalSeek } from "../utils/goalSeek";
+import type { GoalSeekResult } from "../utils/goalSeek";
+import type { SolverConstraint, SolverModel, SolverOp, SolverResult } from "../utils/solver";
+import { startSolve } from "../utils/solverClient";
+import type { SolverRun } from "../utils/solverClient";
+import FormulaEditor from "./FormulaEditor";
 declare global {
   interface Window {
     importCSV?: (csvText: string) => void;
@@ -44,31 +87,16 @@ type Props = {
   storageKey?: string;
   sheetName?: string;
   theme?: "light" | "dark"; // 👈 NEW
+  calcOptions?: CalcOptions; // workbook-level calculation settings (owned by App)
+  onCalcOptionsChange?: (opts: CalcOptions) => void;
+  workbook?: WorkbookLink; // the other sheets, for cross-sheet references (owned by App)
+  locale?: LocaleSettings; // workbook regional settings (owned by App)
+  onLocaleChange?: (settings: LocaleSettings) => void;
+  select?: RangeRef; // cells to select once loaded (Go To a name of this sheet from another one)
 };
 
 
 /** Utilities */
-function colIndexToName(n: number) {
-  let s = "", i = n + 1;
-  while (i > 0) { const rem = (i - 1) % 26; s = String.fromCharCode(65 + rem) + s; i = Math.floor((i - 1) / 26); }
-  return s;
-}
-function colNameToIndex(name: string) {
-  let col = 0;
-  for (let i = 0; i < name.length; i++) col = col * 26 + (name.charCodeAt(i) - 64);
-  return col - 1;
-}
-function cellId(r: number, c: number) { return `${colIndexToName(c)}${r + 1}`; }
-function tryParseId(id: string) {
-  const m = id.match(/^([A-Z]+)(\d+)$/);
-  if (!m) return null;
-  const col = colNameToIndex(m[1]);
-  const row = parseInt(m[2], 10) - 1;
-  return { row, col };
-}
-function parseId(id: string): { row: number; col: number } | null {
-  return tryParseId(id);
-}
 function inRect(r: number, c: number, rect: { r1: number; c1: number; r2: number; c2: number }) {
   const rMin = Math.min(rect.r1, rect.r2);
   const rMax = Math.max(rect.r1, rect.r2);
@@ -80,8 +108,15 @@ function escapeRegExp(s: string) {
   return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+/** True when two cell maps hold the same entries (raw text), whatever their computed values */
+function sameRaws(a: Record<string, CellValue>, b: Record<string, CellValue>) {
+  const entries = (m: Record<string, CellValue>) => Object.keys(m).filter(id => m[id]?.raw);
+  const ids = entries(a);
+  return ids.length === entries(b).length && ids.every(id => a[id].raw === b[id]?.raw);
+}
+
 /** Number formatting types */
-type NumFmt = "general" | "number" | "currency" | "percent" | "date";
+type NumFmt = "general" | "number" | "currency" | "percent" | "date" | "time" | "datetime";
 type CellFmt = {
   bold?: boolean;
   italic?: boolean;
@@ -97,6 +132,26 @@ type CellFmt = {
 
 };
 
+/** Format code for a number format (same engine as the TEXT() function); null when not numeric */
+function numFmtCode(fmt: CellFmt, currency: string): string | null {
+  const decimals = fmt.decimals ?? 2;
+  const fraction = decimals > 0 ? "." + "0".repeat(decimals) : "";
+  switch (fmt.numFmt) {
+    case "number": return `#,##0${fraction}`;
+    case "currency": return `"${(fmt.currency || currency).replace(/"/g, "")}"#,##0${fraction}`;
+    case "percent": return `0${fraction}%`;
+    case "date": return "yyyy-mm-dd";
+    case "time": return "hh:mm:ss";
+    case "datetime": return "yyyy-mm-dd hh:mm";
+    default: return null;
+  }
+}
+
+/** Text an edit of the cell starts from, in the locale's syntax (see locale.ts) */
+function editText(cell: CellValue | undefined, locale: LocaleSettings): string {
+  return toEditText(cell?.raw ?? (cell?.value?.toString() ?? ""), locale);
+}
+
 /** Conditional formatting color helper */
 function getConditionalBg(value: unknown): string | undefined {
   if (value == null || value === "") return undefined;
@@ -114,6 +169,12 @@ export default function Sheet({
   storageKey = "excel-clone:sheet1",
   sheetName = "Sheet1",
   theme = "light",
+  calcOptions = DEFAULT_CALC_OPTIONS,
+  onCalcOptionsChange,
+  workbook,
+  locale = DEFAULT_LOCALE_SETTINGS,
+  onLocaleChange,
+  select,
 }: Props) {
 
 const pal = useMemo(() => getPalette(theme), [theme]);
@@ -151,7 +212,7 @@ const pal = useMemo(() => getPalette(theme), [theme]);
 
 
   /** Core data state */
-  const [cells, setCells] = useState<Record<string, CellValue>>(() => {
+  const [cells, setCellsState] = useState<Record<string, CellValue>>(() => {
   try {
     const raw = localStorage.getItem(storageKey);
     if (raw) {
@@ -163,11 +224,83 @@ const pal = useMemo(() => getPalette(theme), [theme]);
   }
   return {};
 });
+  /** The cells as last set: edits build on them, even before the next render */
+  const cellsRef = useRef(cells);
+  /** Set the cells (edits build the next ones from cellsRef, set them, then recalc them) */
+  const setCells = useCallback((next: Record<string, CellValue>) => {
+    cellsRef.current = next;
+    setCellsState(next);
+  }, []);
+  /** Whether the sheet has volatile formulas (TODAY, NOW...), as of the last recalc */
+  const volatileRef = useRef(false);
+  /** Latest calc settings, readable from memoized callbacks */
+  const calcOptionsRef = useRef(calcOptions);
+  calcOptionsRef.current = calcOptions;
+  /** The rest of the workbook (for Sheet2!A1 references), readable from memoized callbacks */
+  const workbookRef = useRef(workbook);
+  workbookRef.current = workbook;
+  const sheetNameRef = useRef(sheetName);
+  sheetNameRef.current = sheetName;
+  /** Regional settings, readable from memoized callbacks */
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
+  const localeInfo = getLocale(locale);
+  /** Defined names saved with this sheet (see definedNames.ts) */
+  const [names, setNames] = useState<DefinedName[]>([]);
+  const namesRef = useRef(names);
+  namesRef.current = names;
+  /** Recalculation runs in a worker; the grid keeps the last computed values meanwhile */
+  const [calculating, setCalculating] = useState(false);
+  const calcTimerRef = useRef<number | undefined>(undefined);
+  const calcClientRef = useRef<CalcClient | null>(null);
+  useEffect(() => () => {
+    calcClientRef.current?.dispose();
+    calcClientRef.current = null;
+    window.clearTimeout(calcTimerRef.current);
+    calcTimerRef.current = undefined;
+  }, []);
+  /**
+   * Recalculate `next` (the cells being set) after the cells `changed` were edited, or
+   * everything when it's undefined; the computed values replace them when they arrive
+   */
+  const recalc = useCallback((next: Record<string, CellValue>, changed?: string | string[], options = calcOptionsRef.current) => {
+    const ids = changed === undefined ? undefined : Array.isArray(changed) ? changed : [changed];
+    calcClientRef.current ??= createCalcClient(
+      (result, sent) => {
+        volatileRef.current = result.volatile;
+        // a result only lands on the cells it was computed from; the sheets reading them
+        // are saved either way (a request after an edit since saves them again)
+        if (sameRaws(cellsRef.current, sent)) setCells(result.cells);
+        if (result.others.length) workbookRef.current?.calculated(result.others);
+      },
+      (busy) => {
+        if (busy && calcTimerRef.current === undefined) {
+          calcTimerRef.current = window.setTimeout(() => setCalculating(true), 200); // quick recalcs don't flash it
+        } else if (!busy) {
+          window.clearTimeout(calcTimerRef.current);
+          calcTimerRef.current = undefined;
+          setCalculating(false);
+        }
+      }
+    );
+    const own = { name: sheetNameRef.current, cells: next, names: namesRef.current };
+    calcClientRef.current.request([own, ...(workbookRef.current?.others() ?? [])], options, ids);
+  }, [setCells]);
+  /** References to this sheet: unprefixed, or prefixed with its own name */
+  const refersHere = (sheet: string | undefined) => sheet === undefined || sameSheet(sheet, sheetNameRef.current);
+  /** References to this sheet from other sheets */
+  const refersHereFromOthers = (sheet: string | undefined) => sheet !== undefined && sameSheet(sheet, sheetNameRef.current);
 
 
   const [editing, setEditing] = useState<string | null>(null);
   const [formulaBar, setFormulaBar] = useState("");
   const selectedRef = useRef<string | null>(null);
+  // the formula editor last focused (formula bar or in-cell), and whether it still is:
+  // its references are outlined on the grid, and clicked cells are written into it
+  const editorRef = useRef<HTMLInputElement | null>(null);
+  const [editorFocused, setEditorFocused] = useState(false);
+  // a reference being clicked (or dragged) into the formula: the text it occupies, and the cell the drag began on
+  const pointingRef = useRef<{ from: number; to: number; anchor: { row: number; col: number } } | null>(null);
   // inside the Sheet() component, with your other useState hooks:
 const [ribbonTab, setRibbonTab] = useState<"home" | "insert" | "view">("home");
 
@@ -198,7 +331,35 @@ const [showZoomModal, setShowZoomModal] = useState(false);
 const [showTableModal, setShowTableModal] = useState(false);
 const [tableSize, setTableSize] = useState({ rows: 3, cols: 3 });
 
-const [showFormulaModal, setShowFormulaModal] = useState(false);
+const [showCalcModal, setShowCalcModal] = useState(false);
+const [showLocaleModal, setShowLocaleModal] = useState(false);
+// Trace Precedents / Trace Dependents arrows (see formulaAudit.ts); the next edit clears them
+const [traceArrows, setTraceArrows] = useState<TraceArrow[]>([]);
+const auditGraphRef = useRef<{ cells: Record<string, CellValue>; graph: DependencyGraph } | null>(null);
+// Evaluate Formula dialog: the cell, its formula, the steps and how many are worked out
+const [evaluating, setEvaluating] = useState<{ id: string; ast: Ast; steps: EvaluationStep[]; done: number } | null>(null);
+// Goal Seek dialog: its fields as typed, and the outcome of the last Solve
+const [goalSeekForm, setGoalSeekForm] = useState<{
+  setCell: string;
+  target: string;
+  changing: string;
+  result?: GoalSeekResult;
+  error?: string;
+} | null>(null);
+// Data Table dialog: the input cells as typed (either may be left empty)
+const [dataTableForm, setDataTableForm] = useState<{ rowInput: string; colInput: string; error?: string } | null>(null);
+// Solver dialog: the model is kept between openings, like Excel keeps it with the sheet
+const [showSolverModal, setShowSolverModal] = useState(false);
+const [solverForm, setSolverForm] = useState<{
+  model: SolverModel;
+  target: string;
+  result?: SolverResult;
+  error?: string;
+  /** A Solve is running (in a worker; see solverClient.ts) */
+  running?: boolean;
+}>({ model: { objective: "", goal: "min", changing: "", constraints: [], nonNegative: true }, target: "0" });
+const solverRunRef = useRef<SolverRun | null>(null);
+useEffect(() => () => solverRunRef.current?.stop(), []);
 
 
 
@@ -452,11 +613,14 @@ function computePivotMatrix(
     rowCount: number;
     colCount: number;
     condEnabled: boolean;
+    names: DefinedName[];
+    /** Other sheets whose formulas an edit here rewrote, with their cells at the time */
+    others?: WorkbookSheet[];
   };
   const historyRef = useRef<Snapshot[]>([]);
   const futureRef = useRef<Snapshot[]>([]);
   const HISTORY_LIMIT = 100;
-  const takeSnapshot = (): Snapshot => ({
+  const takeSnapshot = (others?: WorkbookSheet[]): Snapshot => ({
     cells: { ...cells },
     colWidths: [...colWidths],
     selected: selectedRef.current ?? null,
@@ -467,6 +631,8 @@ function computePivotMatrix(
     rowCount,
     colCount,
     condEnabled,
+    names,
+    others,
   });
   const pushHistory = () => {
     historyRef.current.push(takeSnapshot());
@@ -474,7 +640,9 @@ function computePivotMatrix(
     futureRef.current = [];
   };
   const applySnapshot = (s: Snapshot) => {
+    if (s.others) workbookRef.current?.restoreOthers(s.others);
     setCells(s.cells);
+    recalc(s.cells); // in case it was taken while a recalc was on its way
     setColWidths(s.colWidths);
     selectedRef.current = s.selected;
     setRange(s.range);
@@ -484,13 +652,28 @@ function computePivotMatrix(
     setRowCount(s.rowCount);
     setColCount(s.colCount);
     setCondEnabled(s.condEnabled);
+    namesRef.current = s.names;
+    setNames(s.names);
     if (s.selected) {
       const cur = s.cells[s.selected];
-      setFormulaBar(cur?.raw ?? (cur?.value?.toString() ?? ""));
+      setFormulaBar(editText(cur, localeRef.current));
     } else setFormulaBar("");
   };
-  const undo = () => { const prev = historyRef.current.pop(); if (!prev) return; futureRef.current.push(takeSnapshot()); applySnapshot(prev); };
-  const redo = () => { const next = futureRef.current.pop(); if (!next) return; historyRef.current.push(takeSnapshot()); applySnapshot(next); };
+  /** The saved cells now of the other sheets in `like` (those an undo or redo puts back) */
+  const othersNow = (like: WorkbookSheet[] | undefined) =>
+    like && (workbookRef.current?.others() ?? [])
+      .filter(s => like.some(l => sameSheet(l.name, s.name)))
+      .map(({ name, cells }) => ({ name, cells }));
+  const undo = () => { const prev = historyRef.current.pop(); if (!prev) return; futureRef.current.push(takeSnapshot(othersNow(prev.others))); applySnapshot(prev); };
+  const redo = () => { const next = futureRef.current.pop(); if (!next) return; historyRef.current.push(takeSnapshot(othersNow(next.others))); applySnapshot(next); };
+  /** Rewrite the other sheets' formulas, kept with the last undo step so undo puts them back */
+  const rewriteOthers = (rewrite: (raw: string) => string) => {
+    const before = workbookRef.current?.rewriteOthers(rewrite) ?? [];
+    const last = historyRef.current[historyRef.current.length - 1];
+    const kept = last?.others ?? [];
+    // a sheet already kept keeps its older cells
+    if (last && before.length) last.others = [...kept, ...before.filter(b => !kept.some(k => sameSheet(k.name, b.name)))];
+  };
 
   /** Iterate selected cells */
   function forEachSelectedCell(fn: (id: string, r: number, c: number) => void) {
@@ -515,7 +698,7 @@ function computePivotMatrix(
   const onSelect = useCallback((id: string) => {
     selectedRef.current = id;
     setEditing(null);
-    setFormulaBar(cells[id]?.raw ?? (cells[id]?.value?.toString() ?? ""));
+    setFormulaBar(editText(cells[id], localeRef.current));
     
     const p = parseId(id); if (p) setRange({ r1: p.row, c1: p.col, r2: p.row, c2: p.col });
   }, [cells]);
@@ -523,42 +706,37 @@ function computePivotMatrix(
   const onEdit = useCallback((id: string) => {
     selectedRef.current = id;
     setEditing(id);
-    setFormulaBar(cells[id]?.raw ?? (cells[id]?.value?.toString() ?? ""));
+    setFormulaBar(editText(cells[id], localeRef.current));
   }, [cells]);
 const commitEdit = useCallback((id: string, raw: string) => {
   pushHistory();
+  setTraceArrows([]);
 
-  setCells(prev => {
-    const copy = { ...prev };
-
-    // Ensure cell object
-    if (!copy[id]) copy[id] = {};
+  // Dates and times are stored as serial numbers (like Excel) and get a date format;
+  // other literals are stored as typed and become a number if they parse cleanly, else text.
+  const monthFirst = getLocale(localeRef.current).monthFirst;
+  const date = raw && raw[0] !== "=" && Number.isNaN(Number(raw)) ? parseDateText(raw, monthFirst) : null;
 
-    // Always store exactly what the user typed
-    copy[id].raw = raw;
+  const copy = { ...cellsRef.current };
 
-    // If it's a formula, let the formula engine compute value
-    if (raw.startsWith("=")) {
-      copy[id].value = "";
-      evaluateAndUpdate(copy, id);
-      return copy;
-    }
+  setCellRaw(copy, id, date ? String(date.serial) : raw);
+  setCells(copy);
 
-    // Otherwise, store a number if it parses cleanly; else store as text
-    const n = Number(raw);
-    if (!Number.isNaN(n) && raw.trim() !== "") {
-      // IMPORTANT: do NOT auto-apply percent/date/currency conversions here.
-      // We keep the data pure. Any formatting happens only at render time.
-      copy[id].value = n;
-    } else {
-      copy[id].value = raw ?? "";
-    }
+  // Recompute this cell (if it's a formula) and everything that depends on it
+  recalc(copy, id);
 
-    return copy;
-  });
+  if (date) {
+    setFormats(prev => {
+      const cur = prev[id] ?? {};
+      if (cur.numFmt && cur.numFmt !== "general") return prev;
+      return { ...prev, [id]: { ...cur, numFmt: date.kind } };
+    });
+  }
 
   setEditing(null);
-}, []);// place inside the component where commitEdit and selectedRef are in scope
+}, [recalc, setCells]);
+
+// place inside the component where commitEdit and selectedRef are in scope
 function insertCurrentDateTime(includeTime: boolean) {
   const sel = selectedRef.current;
   if (!sel) {
@@ -587,18 +765,17 @@ function insertTable(rows: number, cols: number) {
   const pos = parseId(startId);
   if (!pos) return;
 
-  setCells((prev) => {
-    const next = { ...prev };
-    for (let r = 0; r < rows; r++) {
-      for (let c = 0; c < cols; c++) {
-        const id = cellId(pos.row + r, pos.col + c);
-        if (!next[id]) next[id] = {};
-        next[id].value = ""; // empty cell
-        next[id].raw = "";
-      }
+  const next = { ...cellsRef.current };
+  const ids: string[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const id = cellId(pos.row + r, pos.col + c);
+      setCellRaw(next, id, ""); // empty cell
+      ids.push(id);
     }
-    return next;
-  });
+  }
+  setCells(next);
+  recalc(next, ids);
 
   // give cells a border to visually form a "table"
   setFormats((prev) => {
@@ -621,12 +798,27 @@ function insertTable(rows: number, cols: number) {
 
 
   /** Copy/Paste and CSV */
-  const copySelectedToClipboard = async () => {
+  // the block last copied or cut in this sheet; pasting the same text back pastes its formulas
+  const clipRef = useRef<{ text: string; top: number; left: number; raws: string[][]; cut: boolean } | null>(null);
+
+  const copySelectedToClipboard = async (cut = false) => {
     const id = selectedRef.current; if (!id) return;
-    const v = cells[id]?.value;
-    const text = v == null ? "" : String(v);
+    const p = parseId(id); if (!p) return;
+    const rng = range && inRect(p.row, p.col, range) ? range : { r1: p.row, c1: p.col, r2: p.row, c2: p.col };
+    const top = Math.min(rng.r1, rng.r2), left = Math.min(rng.c1, rng.c2);
+    const raws = rangeToMatrix(rng);
+    const text = raws
+      .map((line, r) => line.map((_, c) => valueToText(cells[cellId(top + r, left + c)]?.value)).join("\t"))
+      .join("\n");
+    clipRef.current = { text, top, left, raws, cut };
     try { await navigator.clipboard.writeText(text); } catch {}
   };
+  function pasteText(text: string) {
+    const clip = clipRef.current;
+    if (!clip || clip.text !== text.replace(/\r\n/g, "\n")) { pasteMatrix(parseTable(text)); return; }
+    if (clip.cut) { clipRef.current = null; moveBlock(clip); }
+    else pasteMatrix(clip.raws, { row: clip.top, col: clip.left });
+  }
   function parseTable(text: string): string[][] {
     if (text.includes("\t")) return text.split(/\r?\n/).map(line => line.split("\t"));
     const out: string[][] = []; let row: string[] = []; let cur = ""; let q = false;
@@ -645,27 +837,66 @@ function insertTable(rows: number, cols: number) {
     row.push(cur); out.push(row);
     return out;
   }
-  function pasteMatrix(matrix: string[][]) {
+  /** Paste raw texts at the selection; with `origin` (where they were copied from), formulas are shifted */
+  function pasteMatrix(matrix: string[][], origin?: { row: number; col: number }) {
     const startId = selectedRef.current; if (!startId || matrix.length === 0) return;
     pushHistory();
-    const m = startId.match(/^([A-Z]+)(\d+)$/); if (!m) return;
-    const [, colName, rowStr] = m;
-    let startCol = 0; for (let i = 0; i < colName.length; i++) startCol = startCol * 26 + (colName.charCodeAt(i) - 64); startCol--;
-    const startRow = parseInt(rowStr, 10) - 1;
-    setCells(prev => {
-      const next = { ...prev };
-      const maxR = Math.min(rowCount - startRow, matrix.length);
-      for (let r = 0; r < maxR; r++) {
-        const line = matrix[r] ?? [];
-        const maxC = Math.min(colCount - startCol, line.length);
-        for (let c = 0; c < maxC; c++) {
-          const id = cellId(startRow + r, startCol + c);
-          const raw = String(line[c] ?? "");
-          setCellRaw(next, id, raw); evaluateAndUpdate(next, id);
-        }
+    const start = parseId(startId); if (!start) return;
+    const startRow = start.row, startCol = start.col;
+    const next = { ...cellsRef.current };
+    const ids: string[] = [];
+    const maxR = Math.min(rowCount - startRow, matrix.length);
+    for (let r = 0; r < maxR; r++) {
+      const line = matrix[r] ?? [];
+      const maxC = Math.min(colCount - startCol, line.length);
+      for (let c = 0; c < maxC; c++) {
+        const id = cellId(startRow + r, startCol + c);
+        const raw = String(line[c] ?? "");
+        setCellRaw(next, id, origin ? shiftReferences(raw, startRow - origin.row, startCol - origin.col) : raw);
+        ids.push(id);
       }
-      return next;
-    });
+    }
+    setCells(next);
+    recalc(next, ids);
+  }
+  /** Paste a cut block: the cells move to the selection and formulas pointing at them follow */
+  function moveBlock(clip: { top: number; left: number; raws: string[][] }) {
+    const dest = parseId(selectedRef.current ?? ""); if (!dest) return;
+    const block = {
+      top: clip.top,
+      left: clip.left,
+      bottom: clip.top + clip.raws.length - 1,
+      right: clip.left + Math.max(...clip.raws.map(line => line.length)) - 1,
+    };
+    const dRows = dest.row - block.top, dCols = dest.col - block.left;
+    if (dRows === 0 && dCols === 0) return;
+    pushHistory();
+    const next = { ...cellsRef.current };
+    const ids = new Set<string>();
+    const moved: Array<{ row: number; col: number; raw: string }> = [];
+    for (let r = block.top; r <= block.bottom; r++) {
+      for (let c = block.left; c <= block.right; c++) {
+        const id = cellId(r, c);
+        moved.push({ row: r + dRows, col: c + dCols, raw: next[id]?.raw ?? "" });
+        if (next[id]) { setCellRaw(next, id, ""); ids.add(id); }
+      }
+    }
+    for (const m of moved) {
+      if (m.row >= rowCount || m.col >= colCount) continue;
+      const id = cellId(m.row, m.col);
+      setCellRaw(next, id, m.raw);
+      ids.add(id);
+    }
+    // every formula (the moved ones included) now refers to the cells' new home
+    for (const [id, cell] of Object.entries(next)) {
+      const raw = cell?.raw ?? "";
+      const updated = moveReferences(raw, block, dRows, dCols, refersHere);
+      if (updated !== raw) { setCellRaw(next, id, updated); ids.add(id); }
+    }
+    setCells(next);
+    recalc(next, [...ids]);
+    setNames(prev => rewriteNames(prev, raw => moveReferences(raw, block, dRows, dCols)));
+    rewriteOthers(raw => moveReferences(raw, block, dRows, dCols, refersHereFromOthers));
   }
 
 
@@ -682,8 +913,7 @@ function insertTable(rows: number, cols: number) {
     const padding = 24;
     let maxW = textWidth(colIndexToName(col));
     for (let r = 0; r < Math.min(rowCount, 1000); r++) {
-      const v = cells[cellId(r, col)]?.value;
-      const w = textWidth(v == null ? "" : String(v));
+      const w = textWidth(valueToText(cells[cellId(r, col)]?.value));
       if (w > maxW) maxW = w;
     }
     const newW = Math.min(Math.max(40, Math.ceil(maxW + padding)), 600);
@@ -711,7 +941,7 @@ function cellsToCSV(): string {
   for (let r = 0; r < rowCount; r++) {
     const rowVals: string[] = [];
     for (let c = 0; c < colCount; c++) {
-      const id = `${String.fromCharCode(65 + c)}${r + 1}`;
+      const id = cellId(r, c);
       const val = cells[id]?.raw ?? cells[id]?.value ?? "";
       const safe = typeof val === "string"
         ? `"${val.replace(/"/g, '""')}"`
@@ -726,15 +956,18 @@ function cellsToCSV(): string {
 // Import CSV text into cells
 function importCSV(csvText: string) {
   const lines = csvText.split("\n").map(l => l.split(","));
-  const newCells: Record<string, any> = {};
+  const newCells: Record<string, string> = {};
   for (let r = 0; r < lines.length; r++) {
     for (let c = 0; c < lines[r].length; c++) {
-      const id = `${String.fromCharCode(65 + c)}${r + 1}`;
+      const id = cellId(r, c);
       const val = lines[r][c].replace(/^"|"$/g, "");
-      if (val.trim() !== "") newCells[id] = { value: val, raw: val };
+      if (val.trim() !== "") newCells[id] = val;
     }
   }
-  setCells(prev => ({ ...prev, ...newCells }));
+  const next = { ...cellsRef.current };
+  for (const [id, raw] of Object.entries(newCells)) setCellRaw(next, id, raw);
+  setCells(next);
+  recalc(next, Object.keys(newCells));
 }
 
 // Clear entire sheet
@@ -800,9 +1033,10 @@ useEffect(() => {
 
       if (!editing) {
         if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "c") { e.preventDefault(); await copySelectedToClipboard(); return; }
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "x") { e.preventDefault(); await copySelectedToClipboard(true); return; }
         if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "v") {
           e.preventDefault();
-          try { const text = await navigator.clipboard.readText(); pasteMatrix(parseTable(text)); } catch {}
+          try { pasteText(await navigator.clipboard.readText()); } catch {}
           return;
         }
       }
@@ -815,7 +1049,7 @@ useEffect(() => {
       const goto = (r: number, c: number) => {
         const id = cellId(r, c); selectedRef.current = id;
         setEditing(null);
-        setFormulaBar(cells[id]?.raw ?? (cells[id]?.value?.toString() ?? ""));
+        setFormulaBar(editText(cells[id], localeRef.current));
         setCells({ ...cells });
         setRange({ r1: r, c1: c, r2: r, c2: c });
       };
@@ -830,7 +1064,7 @@ useEffect(() => {
 
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [cells, colCount, rowCount, editing]);
+  }, [cells, colCount, rowCount, editing, range]);
 
   /** Load from localStorage (incl. condEnabled) */
   /** Load from localStorage (incl. condEnabled) */
@@ -850,19 +1084,17 @@ useEffect(() => {
         rowCount?: number;
         colCount?: number;
         condEnabled?: boolean;
+        names?: DefinedName[];
       };
+      // names first: the formulas below may use them
+      namesRef.current = Array.isArray(saved.names) ? saved.names : [];
+      setNames(namesRef.current);
 
       // If cells exist in storage, attempt to evaluate formulas so .value is populated.
       if (saved.cells) {
-        try {
-          // evaluateAndUpdate mutates saved.cells to populate computed values
-          evaluateAndUpdate(saved.cells);
-        } catch (err) {
-          // don't block load on evaluation error — show warning for debugging
-          // eslint-disable-next-line no-console
-          console.warn("Formula evaluation failed when loading sheet:", err);
-        }
+        // show the saved values at once; the recalc refreshes them (and rebuilds the graph)
         setCells(saved.cells);
+        recalc(saved.cells);
       } else {
         setCells({});
       }
@@ -881,8 +1113,9 @@ useEffect(() => {
 
       // only read formula/raw/value safely if saved.cells exists
       const cellForId = saved.cells?.[id];
-      setFormulaBar(cellForId?.raw ?? (cellForId?.value != null ? String(cellForId.value) : ""));
+      setFormulaBar(editText(cellForId, localeRef.current));
       setRange({ r1: 0, c1: 0, r2: 0, c2: 0 });
+      if (select) selectRange(select, saved.cells ?? {});
     } else {
       // no saved state
       selectedRef.current = "A1";
@@ -916,13 +1149,54 @@ useEffect(() => {
     rowCount,
     colCount,
     condEnabled,
+    names,
   };
   try {
     localStorage.setItem(storageKey, JSON.stringify(payload));
   } catch (e) {
     console.warn("Failed saving sheet to localStorage:", e);
   }
-}, [cells, colWidths, freezeTopRow, freezeFirstCol, formats, rowCount, colCount, condEnabled, storageKey]);
+}, [cells, colWidths, freezeTopRow, freezeFirstCol, formats, rowCount, colCount, condEnabled, names, storageKey]);
+
+  /** Full recalc when the workbook's calculation settings change */
+  const appliedCalcOptionsRef = useRef(calcOptions);
+  useEffect(() => {
+    if (appliedCalcOptionsRef.current === calcOptions) return;
+    appliedCalcOptionsRef.current = calcOptions;
+    recalc(cellsRef.current, undefined, calcOptions);
+  }, [calcOptions, recalc]);
+
+  /** Formulas using names recalculate when the names are (re)defined */
+  const appliedNamesRef = useRef(names);
+  useEffect(() => {
+    if (appliedNamesRef.current === names) return;
+    appliedNamesRef.current = names;
+    recalc(cellsRef.current, []);
+  }, [names, recalc]);
+
+  /** Volatile formulas (TODAY, NOW...) are recalculated every minute so they don't go stale */
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      if (!volatileRef.current) return;
+      recalc(cellsRef.current, []);
+    }, 60_000);
+    return () => window.clearInterval(timer);
+  }, [recalc]);
+
+  /** Cells currently flagged as part of a circular reference */
+  const circularCells = useMemo(
+    () =>
+      Object.keys(cells)
+        .filter(id => {
+          const v = cells[id]?.value;
+          return isFormulaError(v) && v.error === CIRCULAR_ERROR;
+        })
+        .sort((a, b) => {
+          const pa = parseId(a)!, pb = parseId(b)!;
+          return (pa.row - pb.row) || (pa.col - pb.col);
+        }),
+    [cells]
+  );
 
  
  
@@ -1008,7 +1282,6 @@ function setFontFamily(family: string) {
           ...cur,
           numFmt: fmt,
           decimals: fmt in defaults ? (cur.decimals ?? defaults[fmt]) : cur.decimals,
-          currency: cur.currency ?? "₹",
         };
       });
       return copy;
@@ -1040,7 +1313,7 @@ function setFontFamily(family: string) {
         const cur = copy[id] ?? {};
         copy[id] = {
           ...cur,
-          currency: sym || "₹",
+          currency: sym || undefined, // the locale's currency
           numFmt: cur.numFmt ?? "currency",
           decimals: cur.decimals ?? 2
         };
@@ -1099,13 +1372,339 @@ function setFontFamily(family: string) {
     else if (top + height > viewBottom) grid.scrollTop = top + height - grid.clientHeight;
   }
 
+  /** Name Manager: define, edit and delete this sheet's names; the other sheets' workbook names are listed too */
+  const [showNamesModal, setShowNamesModal] = useState(false);
+  const [nameDraft, setNameDraft] = useState<DefinedName>({ name: "", ref: "", scope: "workbook" });
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  /** The selection as anchored reference text ($B$2 or $B$2:$B$10), the default for a new name */
+  function selectionRefText() {
+    if (!range) return "";
+    const abs = (row: number, col: number) => refToString({ row, col, absRow: true, absCol: true });
+    const r1 = Math.min(range.r1, range.r2), r2 = Math.max(range.r1, range.r2);
+    const c1 = Math.min(range.c1, range.c2), c2 = Math.max(range.c1, range.c2);
+    return r1 === r2 && c1 === c2 ? abs(r1, c1) : `${abs(r1, c1)}:${abs(r2, c2)}`;
+  }
+  /** Workbook-scoped names of the other sheets, usable here too, with the sheet defining each */
+  function otherSheetsNames() {
+    return (workbook?.others() ?? []).flatMap(s =>
+      (s.names ?? []).filter(n => n.scope === "workbook").map(n => ({ ...n, sheet: s.name })));
+  }
+  const namesElsewhere = showNamesModal ? otherSheetsNames() : [];
+  function openNameManager() {
+    setNameDraft({ name: "", ref: selectionRefText(), scope: "workbook" });
+    setNameError(null);
+    setShowNamesModal(true);
+  }
+  /** Add the drafted name, or redefine the existing one of that name */
+  function saveName() {
+    const name = nameDraft.name.trim();
+    const ref = nameDraft.ref.trim().replace(/^=/, "");
+    if (!isValidName(name)) {
+      return setNameError("Names start with a letter or _, use letters, digits, _ and . only, and can't look like a cell reference.");
+    }
+    if (!ref || (!parseNameRef(ref) && !isValidNameFormula(ref))) {
+      return setNameError("Refers to must be a cell or range on this sheet like $B$2:$B$10, or a formula like LAMBDA(x, x * 2).");
+    }
+    const elsewhere = otherSheetsNames().find(n => n.name.toLowerCase() === name.toLowerCase());
+    if (elsewhere && nameDraft.scope === "workbook") {
+      return setNameError(`"${elsewhere.name}" is already a workbook name, defined on ${elsewhere.sheet}.`);
+    }
+    pushHistory();
+    const existing = findName(names, name);
+    setNames(prev => [...prev.filter(n => n !== existing), { name, ref, scope: nameDraft.scope }]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    setNameDraft({ name: "", ref: selectionRefText(), scope: nameDraft.scope });
+    setNameError(null);
+  }
+  function deleteName(target: DefinedName) {
+    pushHistory();
+    setNames(prev => prev.filter(n => n !== target));
+  }
+
+  /** Name box: shows the selected cell (or the name covering exactly the selection); typing a name or reference jumps there */
+  const [nameBoxDraft, setNameBoxDraft] = useState<string | null>(null);
+  function nameBoxLabel() {
+    if (range) {
+      const r1 = Math.min(range.r1, range.r2), r2 = Math.max(range.r1, range.r2);
+      const c1 = Math.min(range.c1, range.c2), c2 = Math.max(range.c1, range.c2);
+      const named = names.find(n => {
+        const ref = parseNameRef(n.ref);
+        return ref && ref.top === r1 && ref.left === c1 && ref.bottom === r2 && ref.right === c2;
+      });
+      if (named) return named.name;
+    }
+    return selectedRef.current ?? "";
+  }
+  /** Select `ref` (cells of this sheet) and scroll it into view */
+  function selectRange(ref: RangeRef, from = cells) {
+    const id = cellId(ref.top, ref.left);
+    selectedRef.current = id;
+    setEditing(null);
+    setFormulaBar(editText(from[id], localeRef.current));
+    setRange({ r1: ref.top, c1: ref.left, r2: ref.bottom, c2: ref.right });
+    ensureVisible(ref.top, ref.left);
+  }
+  /**
+   * Name box: jump to a name (this sheet's, or a workbook name of any sheet) or a reference
+   * (B3, Sheet2!B3:C4); cells on another sheet open that sheet
+   */
+  function goToName(text: string) {
+    const typed = text.trim();
+    let target: NameTarget | null;
+    try {
+      target = resolveName([{ name: sheetName, names }, ...(workbook?.others() ?? [])], sheetName, typed);
+    } catch {
+      return alert(`The cells of "${typed}" were deleted.`);
+    }
+    const { sheet, rest } = splitSheetPrefix(typed);
+    const typedRef = parseNameRef(rest);
+    if (target && "formula" in target) return alert(`"${typed}" is a formula, not cells to go to.`);
+    const ref = target ? target.ref : typedRef && { ...typedRef, sheet };
+    if (!ref) return alert(`"${typed}" is not a name or cell reference.`);
+    if (ref.sheet !== undefined && !sameSheet(ref.sheet, sheetName)) {
+      if (!workbook?.goTo(ref.sheet, { ...ref, sheet: undefined })) alert(`There is no sheet named "${ref.sheet}".`);
+      return;
+    }
+    if (ref.bottom >= rowCount || ref.right >= colCount) return alert(`${typed} is outside this sheet.`);
+    selectRange(ref);
+  }
+  /** How formulas here see the rest of the workbook, for auditing and what-if analysis */
+  function workbookHere() {
+    const own = { name: sheetName, cells, names };
+    return workbookContext([own, ...(workbook?.others() ?? [])], sheetName);
+  }
+  /** The sheet's dependency graph for tracing, built again only once the cells changed */
+  function auditGraph() {
+    if (auditGraphRef.current?.cells !== cells) auditGraphRef.current = { cells, graph: buildDependencyGraph(cells) };
+    return auditGraphRef.current.graph;
+  }
+  /** Trace Precedents / Trace Dependents: one more level of arrows from the selected cell */
+  function trace(kind: TraceArrow["kind"]) {
+    const sel = selectedRef.current;
+    if (!sel) return alert("Select a cell first");
+    const next = traceStep(cells, traceArrows, sel, kind, auditGraph(), workbookHere());
+    if (next !== traceArrows) setTraceArrows(next);
+    else if (kind === "precedent") alert(`No more cells feed into ${sel}.`);
+    else alert(`No more formulas read ${sel}.`);
+  }
+  function openEvaluateFormula() {
+    const sel = selectedRef.current;
+    const raw = sel ? cells[sel]?.raw : undefined;
+    if (!sel || !raw || raw[0] !== "=") return alert("Select a cell with a formula to evaluate.");
+    let ast: Ast;
+    try {
+      ast = getFormulaAst(raw);
+    } catch (e) {
+      return alert(`The formula can't be evaluated: ${(e as Error).message}`);
+    }
+    setEvaluating({ id: sel, ast, steps: evaluationSteps(cells, sel, calcOptions, workbookHere()), done: 0 });
+  }
+  /** A cell typed into a dialog (a1, $B$2) as a plain id, or null when it isn't one */
+  function typedCell(text: string) {
+    const id = text.trim().toUpperCase().replace(/\$/g, "");
+    return parseId(id) ? id : null;
+  }
+  function solveGoalSeek() {
+    if (!goalSeekForm) return;
+    const setCell = typedCell(goalSeekForm.setCell);
+    const changing = typedCell(goalSeekForm.changing);
+    const target = Number(goalSeekForm.target);
+    let error: string | undefined;
+    if (!setCell) error = "Set cell must be a cell reference.";
+    else if (!changing) error = "By changing cell must be a cell reference.";
+    else if (goalSeekForm.target.trim() === "" || !Number.isFinite(target)) error = "To value must be a number.";
+    if (error) return setGoalSeekForm({ ...goalSeekForm, result: undefined, error });
+    try {
+      const result = goalSeek(cells, setCell!, target, changing!, calcOptions, workbookHere());
+      setGoalSeekForm({ ...goalSeekForm, result, error: undefined });
+    } catch (e) {
+      setGoalSeekForm({ ...goalSeekForm, result: undefined, error: (e as Error).message });
+    }
+  }
+  function openDataTable() {
+    const r = range;
+    if (!r || Math.abs(r.r2 - r.r1) < 1 || Math.abs(r.c2 - r.c1) < 1) {
+      return alert("Select the whole table first: input values along its top row and/or left column, formulas where they meet.");
+    }
+    setDataTableForm({ rowInput: "", colInput: "" });
+  }
+  /** Data Table: TABLE in the first body cell of the selected block (inputs on its top row / left column) */
+  function createDataTable() {
+    if (!dataTableForm || !range) return;
+    const rowInput = dataTableForm.rowInput.trim() ? typedCell(dataTableForm.rowInput) : "";
+    const colInput = dataTableForm.colInput.trim() ? typedCell(dataTableForm.colInput) : "";
+    let error: string | undefined;
+    if (rowInput === null || colInput === null) error = "Input cells must be cell references.";
+    else if (!rowInput && !colInput) error = "Enter a row input cell, a column input cell, or both.";
+    if (error) return setDataTableForm({ ...dataTableForm, error });
+    const top = Math.min(range.r1, range.r2), left = Math.min(range.c1, range.c2);
+    commitEdit(cellId(top + 1, left + 1), `=TABLE(${rowInput},${colInput})`);
+    setDataTableForm(null);
+  }
+  /** The Solver dialog's model with changes, dropping the outcome of the last Solve */
+  function editSolverModel(change: Partial<SolverModel>) {
+    stopSolver();
+    setSolverForm(f => ({ ...f, model: { ...f.model, ...change }, result: undefined, error: undefined }));
+  }
+  /** Solve: the model runs in a worker, the dialog showing it's busy until the outcome arrives */
+  function runSolver() {
+    const { model, target } = solverForm;
+    const constraints = model.constraints.filter(c => c.left.trim() || c.right.trim());
+    const own = { name: sheetName, cells, names };
+    solverRunRef.current?.stop();
+    setSolverForm(f => ({ ...f, result: undefined, error: undefined, running: true }));
+    solverRunRef.current = startSolve(
+      [own, ...(workbook?.others() ?? [])],
+      { ...model, constraints, target: Number(target) },
+      calcOptions,
+      res => {
+        solverRunRef.current = null;
+        setSolverForm(f => ({ ...f, running: false, ...("error" in res ? { error: res.error } : { result: res.result }) }));
+      }
+    );
+  }
+  /** Stop a running Solve; the cells are untouched, as no values were kept */
+  function stopSolver() {
+    if (!solverRunRef.current) return;
+    solverRunRef.current.stop();
+    solverRunRef.current = null;
+    setSolverForm(f => ({ ...f, running: false }));
+  }
+  function closeSolver() {
+    stopSolver();
+    setShowSolverModal(false);
+  }
+  /** Keep Solver Solution: the values go into the changing cells as one undoable edit */
+  function keepSolverSolution() {
+    const values = solverForm.result?.values;
+    if (!values) return;
+    pushHistory();
+    setTraceArrows([]);
+    const copy = { ...cellsRef.current };
+    for (const [id, v] of Object.entries(values)) setCellRaw(copy, id, String(v));
+    setCells(copy);
+    recalc(copy, Object.keys(values));
+    setSolverForm({ ...solverForm, result: undefined });
+    setShowSolverModal(false);
+  }
+  /** Arrows of Trace Precedents / Dependents, over the grid like the shapes */
+  function renderTraceArrows() {
+    if (traceArrows.length === 0) return null;
+    const x = (c: number) => colWidths.slice(0, c).reduce((a, b) => a + b, 0);
+    const y = (r: number) => COL_HEADER_HEIGHT + r * ROW_HEIGHT;
+    const center = (r: number, c: number) => ({ x: x(c) + colWidths[c] / 2, y: y(r) + ROW_HEIGHT / 2 });
+    const rangeText = (a: TraceArrow["from"]) =>
+      cellId(a.top, a.left) + (a.bottom > a.top || a.right > a.left ? `:${cellId(a.bottom, a.right)}` : "");
+    const BLUE = "#2563eb", RED = "#dc2626", GRAY = "#475569";
+    return (
+      <svg
+        style={{
+          position: "absolute",
+          left: 0,
+          top: 0,
+          width: totalWidth,
+          height: y(rowCount),
+          pointerEvents: "none",
+          zIndex: 45,
+        }}
+      >
+        <defs>
+          {[BLUE, RED, GRAY].map(color => (
+            <marker key={color} id={`trace-head-${color.slice(1)}`} markerWidth={8} markerHeight={8} refX={7} refY={4} orient="auto">
+              <path d="M0,0 L8,4 L0,8 Z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+        {traceArrows.map((a, i) => {
+          const to = parseId(a.to);
+          if (!to || to.row >= rowCount || to.col >= colCount) return null;
+          const end = center(to.row, to.col);
+          if (a.from.sheet !== undefined) {
+            // cells of another sheet: a dashed arrow from a sheet icon above the cell
+            const ix = Math.max(4, end.x - 70), iy = Math.max(COL_HEADER_HEIGHT + 4, end.y - 36);
+            return (
+              <g key={i}>
+                <line x1={ix + 14} y1={iy + 10} x2={end.x} y2={end.y} stroke={GRAY} strokeWidth={1.5} strokeDasharray="4 3" markerEnd={`url(#trace-head-${GRAY.slice(1)})`} />
+                <rect x={ix} y={iy} width={28} height={20} rx={3} fill="#f8fafc" stroke={GRAY} style={{ pointerEvents: "all" }}>
+                  <title>{`${formatSheetName(a.from.sheet)}!${rangeText(a.from)}`}</title>
+                </rect>
+                <path d={`M${ix + 6} ${iy + 7} H${ix + 22} M${ix + 6} ${iy + 11} H${ix + 22} M${ix + 6} ${iy + 15} H${ix + 22}`} stroke={GRAY} />
+              </g>
+            );
+          }
+          if (a.from.bottom >= rowCount || a.from.right >= colCount) return null;
+          const start = center(a.from.top, a.from.left);
+          // like Excel: red when the arrow starts at an error value
+          const color = isFormulaError(cells[cellId(a.from.top, a.from.left)]?.value) ? RED : BLUE;
+          const block = a.from.bottom > a.from.top || a.from.right > a.from.left;
+          return (
+            <g key={i}>
+              {block && (
+                <rect
+                  x={x(a.from.left) + 1}
+                  y={y(a.from.top) + 1}
+                  width={x(a.from.right + 1) - x(a.from.left) - 2}
+                  height={(a.from.bottom - a.from.top + 1) * ROW_HEIGHT - 2}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={1.5}
+                />
+              )}
+              <circle cx={start.x} cy={start.y} r={3} fill={color} />
+              {(start.x !== end.x || start.y !== end.y) && (
+                <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke={color} strokeWidth={1.5} markerEnd={`url(#trace-head-${color.slice(1)})`} />
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    );
+  }
+  /** Shown next to the name box while formulas recalculate */
+  function renderCalcStatus() {
+    if (!calculating) return null;
+    return (
+      <span
+        title="Formulas are being recalculated; the values shown are the last computed ones"
+        style={{ marginLeft: 6, fontWeight: 400, color: pal.textMuted }}
+      >
+        calculating…
+      </span>
+    );
+  }
+  function renderNameBox() {
+    return (
+      <input
+        aria-label="Name box"
+        title="Type a cell, range or name and press Enter to go there"
+        value={nameBoxDraft ?? nameBoxLabel()}
+        onFocus={(e) => { setNameBoxDraft(nameBoxLabel()); e.target.select(); }}
+        onChange={(e) => setNameBoxDraft(e.target.value)}
+        onBlur={() => setNameBoxDraft(null)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") { goToName(e.currentTarget.value); e.currentTarget.blur(); }
+          else if (e.key === "Escape") e.currentTarget.blur();
+        }}
+        style={{
+          width: 110,
+          background: "transparent",
+          color: "inherit",
+          border: "none",
+          outline: "none",
+          font: "inherit",
+        }}
+      />
+    );
+  }
+
   function gotoHit(idx: number) {
     const hit = findHits[idx];
     if (!hit) return;
     const id = hit.id;
     selectedRef.current = id;
     setEditing(null);
-    setFormulaBar(cells[id]?.raw ?? (cells[id]?.value?.toString() ?? ""));
+    setFormulaBar(editText(cells[id], localeRef.current));
   
     setRange({ r1: hit.r, c1: hit.c, r2: hit.r, c2: hit.c });
     setHitIndex(idx);
@@ -1131,12 +1730,10 @@ function setFontFamily(family: string) {
     const newRaw = String(raw0).replace(re, replaceText);
 
     pushHistory();
-    setCells(prev => {
-      const copy = { ...prev };
-      setCellRaw(copy, id, newRaw);
-      evaluateAndUpdate(copy, id);
-      return copy;
-    });
+    const copy = { ...cellsRef.current };
+    setCellRaw(copy, id, newRaw);
+    setCells(copy);
+    recalc(copy, id);
     setTimeout(nextHit, 0); // advance after state flush
   }
   function replaceAll() {
@@ -1144,22 +1741,20 @@ function setFontFamily(family: string) {
     const re = new RegExp(escapeRegExp(findText), matchCase ? "g" : "gi");
 
     pushHistory();
-    setCells(prev => {
-      const copy = { ...prev };
-      let touched = false;
-      for (const { id } of findHits) {
-        const cell = copy[id];
-        const raw0 = cell?.raw ?? (cell?.value == null ? "" : String(cell?.value));
-        if (String(raw0).startsWith("=")) continue; // skip formulas
-        const newRaw = String(raw0).replace(re, replaceText);
-        if (newRaw !== String(raw0)) {
-          setCellRaw(copy, id, newRaw);
-          touched = true;
-        }
+    const copy = { ...cellsRef.current };
+    const touched: string[] = [];
+    for (const { id } of findHits) {
+      const cell = copy[id];
+      const raw0 = cell?.raw ?? (cell?.value == null ? "" : String(cell?.value));
+      if (String(raw0).startsWith("=")) continue; // skip formulas
+      const newRaw = String(raw0).replace(re, replaceText);
+      if (newRaw !== String(raw0)) {
+        setCellRaw(copy, id, newRaw);
+        touched.push(id);
       }
-      if (touched) evaluateAndUpdate(copy);
-      return copy;
-    });
+    }
+    setCells(copy);
+    if (touched.length) recalc(copy, touched);
   }
   function clearFind() {
     setFindText("");
@@ -1172,34 +1767,45 @@ function setFontFamily(family: string) {
   function anchorRC() {
     const id = selectedRef.current;
     if (!id) return null;
-    return tryParseId(id);
+    return parseId(id);
   }
   function rebaseCellsAndFormats(
-    transform: (r: number, c: number) => { r: number | null; c: number | null } | null
+    transform: (r: number, c: number) => { r: number | null; c: number | null } | null,
+    rewrite: (raw: string, affects: SheetFilter) => string
   ) {
     const nextCells: Record<string, CellValue> = {};
     for (const [id, val] of Object.entries(cells)) {
-      const pos = tryParseId(id); if (!pos) continue;
+      const pos = parseId(id); if (!pos) continue;
       const t = transform(pos.row, pos.col);
       if (!t || t.r == null || t.c == null) continue;
       const nid = cellId(t.r, t.c);
-      nextCells[nid] = val;
+      // formulas follow the cells they reference
+      nextCells[nid] = val.raw?.startsWith("=") ? { ...val, raw: rewrite(val.raw, refersHere) } : val;
     }
     const nextFmt: typeof formats = {};
     for (const [id, fmt] of Object.entries(formats)) {
-      const pos = tryParseId(id); if (!pos) continue;
+      const pos = parseId(id); if (!pos) continue;
       const t = transform(pos.row, pos.col);
       if (!t || t.r == null || t.c == null) continue;
       const nid = cellId(t.r, t.c);
       nextFmt[nid] = fmt;
     }
+    // names follow their cells too, before the recalc reads them
+    namesRef.current = rewriteNames(namesRef.current, raw => rewrite(raw, refersHere));
+    setNames(namesRef.current);
     setCells(nextCells);
+    recalc(nextCells);
     setFormats(nextFmt);
+    // other sheets' references to this one follow too
+    rewriteOthers(raw => rewrite(raw, refersHereFromOthers));
   }
   function insertRowAt(idx: number, count = 1) {
     pushHistory();
     setRowCount(rc => rc + count);
-    rebaseCellsAndFormats((r, c) => (r >= idx ? { r: r + count, c } : { r, c }));
+    rebaseCellsAndFormats(
+      (r, c) => (r >= idx ? { r: r + count, c } : { r, c }),
+      (raw, affects) => spliceReferences(raw, "row", idx, count, affects)
+    );
     const p = anchorRC();
     if (p) { selectedRef.current = cellId(idx, p.col); setRange({ r1: idx, c1: p.col, r2: idx, c2: p.col }); }
   }
@@ -1212,7 +1818,7 @@ function setFontFamily(family: string) {
       if (r < dropMin) return { r, c };
       if (r > dropMax) return { r: r - (dropMax - dropMin + 1), c };
       return null;
-    });
+    }, (raw, affects) => spliceReferences(raw, "row", dropMin, -(dropMax - dropMin + 1), affects));
     setRowCount(rc => Math.max(1, rc - (last - idx + 1)));
     const p = anchorRC();
     if (p) { const nr = Math.min(idx, rowCount - 2); selectedRef.current = cellId(Math.max(0, nr), p.col); }
@@ -1225,7 +1831,10 @@ function setFontFamily(family: string) {
       for (let k = 0; k < count; k++) copy.splice(idx, 0, COL_WIDTH);
       return copy;
     });
-    rebaseCellsAndFormats((r, c) => (c >= idx ? { r, c: c + count } : { r, c }));
+    rebaseCellsAndFormats(
+      (r, c) => (c >= idx ? { r, c: c + count } : { r, c }),
+      (raw, affects) => spliceReferences(raw, "col", idx, count, affects)
+    );
     const p = anchorRC();
     if (p) { selectedRef.current = cellId(p.row, idx); setRange({ r1: p.row, c1: idx, r2: p.row, c2: idx }); }
   }
@@ -1243,7 +1852,7 @@ function setFontFamily(family: string) {
       if (c < dropMin) return { r, c };
       if (c > dropMax) return { r, c: c - (dropMax - dropMin + 1) };
       return null;
-    });
+    }, (raw, affects) => spliceReferences(raw, "col", dropMin, -(dropMax - dropMin + 1), affects));
     setColCount(cc => Math.max(1, cc - (last - idx + 1)));
     const p = anchorRC();
     if (p) { const nc = Math.min(idx, colCount - 2); selectedRef.current = cellId(p.row, Math.max(0, nc)); }
@@ -1252,9 +1861,14 @@ function setFontFamily(family: string) {
 
   /** Fill-handle helpers */
   function startFillDrag(srcRect: { r1: number; c1: number; r2: number; c2: number }, startEvt: MouseEvent) {
-    fillStartRangeRef.current = { ...srcRect };
+    fillStartRangeRef.current = {
+      r1: Math.min(srcRect.r1, srcRect.r2),
+      c1: Math.min(srcRect.c1, srcRect.c2),
+      r2: Math.max(srcRect.r1, srcRect.r2),
+      c2: Math.max(srcRect.c1, srcRect.c2),
+    };
     fillDraggingRef.current = true;
-    setFillPreviewRange(srcRect);
+    setFillPreviewRange(fillStartRangeRef.current);
 
     const onMove = (ev: MouseEvent) => {
       const grid = gridRef.current;
@@ -1317,24 +1931,26 @@ function setFontFamily(family: string) {
     if (src.r1 === preview.r1 && src.c1 === preview.c1 && src.r2 === preview.r2 && src.c2 === preview.c2) return;
 
     pushHistory();
-    setCells(prev => {
-      const next = { ...prev };
-      const srcRows = src.r2 - src.r1 + 1;
-      const srcCols = src.c2 - src.c1 + 1;
-
-      for (let r = preview.r1; r <= preview.r2; r++) {
-        for (let c = preview.c1; c <= preview.c2; c++) {
-          const sr = src.r1 + ((r - preview.r1) % srcRows + srcRows) % srcRows;
-          const sc = src.c1 + ((c - preview.c1) % srcCols + srcCols) % srcCols;
-          const sid = cellId(sr, sc);
-          const did = cellId(r, c);
-          const raw = next[sid]?.raw ?? "";
-          setCellRaw(next, did, raw);
-          evaluateAndUpdate(next, did);
-        }
+    const next = { ...cellsRef.current };
+    const ids: string[] = [];
+    const srcRows = src.r2 - src.r1 + 1;
+    const srcCols = src.c2 - src.c1 + 1;
+
+    for (let r = preview.r1; r <= preview.r2; r++) {
+      for (let c = preview.c1; c <= preview.c2; c++) {
+        if (inRect(r, c, src)) continue;
+        // repeat the source block in both directions, aligned to the block itself
+        const sr = src.r1 + ((r - src.r1) % srcRows + srcRows) % srcRows;
+        const sc = src.c1 + ((c - src.c1) % srcCols + srcCols) % srcCols;
+        const sid = cellId(sr, sc);
+        const did = cellId(r, c);
+        const raw = shiftReferences(next[sid]?.raw ?? "", r - sr, c - sc);
+        setCellRaw(next, did, raw);
+        ids.push(did);
       }
-      return next;
-    });
+    }
+    setCells(next);
+    recalc(next, ids);
   }
 
   /** Render helpers */
@@ -1356,17 +1972,110 @@ const cellBase: React.CSSProperties = {
   color: pal.text,
 };
 
+  /** Areas filled by array formulas (see spillInto), outlined in the grid */
+  const spillAreas = useMemo(() => {
+    const out: Array<{ top: number; left: number; bottom: number; right: number }> = [];
+    for (const [id, cell] of Object.entries(cells)) {
+      const pos = cell?.spill && !cell.spill.blocked ? parseId(id) : null;
+      if (!pos) continue;
+      out.push({ top: pos.row, left: pos.col, bottom: pos.row + cell.spill!.rows - 1, right: pos.col + cell.spill!.cols - 1 });
+    }
+    return out;
+  }, [cells]);
+
+  /** While a formula is edited: the cells of this sheet its references cover, outlined in their colors */
+  const editedRefs = editorFocused ? colorReferences(formulaBar).filter(ref => refersHere(ref.sheet)) : [];
+  const nameList = useMemo(() => names.map(n => n.name), [names]);
+
+  const onEditorFocus = (input: HTMLInputElement) => {
+    editorRef.current = input;
+    setEditorFocused(true);
+  };
+  /** True while an editor has the focus, so a click on a cell belongs to the formula */
+  const editorHasFocus = () => !!editorRef.current && document.activeElement === editorRef.current;
+
+  /**
+   * Click-to-insert: pressing on a cell while the caret of the focused editor is where a
+   * reference can go writes the cell's reference there (dragging makes it a range).
+   * Returns false when the press is an ordinary selection.
+   */
+  function startPointing(id: string, e: React.MouseEvent) {
+    const input = editorRef.current;
+    const pos = parseId(id);
+    if (!input || !pos || !editorHasFocus() || e.target === input) return false;
+    const at = pointingAt(formulaBar, input.selectionStart ?? formulaBar.length);
+    if (!at) return false;
+    e.preventDefault(); // the editor keeps the focus
+    pointingRef.current = { ...at, anchor: pos };
+    pointTo(pos);
+    const onUp = () => { pointingRef.current = null; window.removeEventListener("mouseup", onUp); };
+    window.addEventListener("mouseup", onUp);
+    return true;
+  }
+  /** Write the reference from the pointing anchor to `pos` into the formula */
+  function pointTo(pos: { row: number; col: number }) {
+    const p = pointingRef.current;
+    const input = editorRef.current;
+    if (!p || !input) return;
+    const { anchor } = p;
+    const top = Math.min(anchor.row, pos.row), left = Math.min(anchor.col, pos.col);
+    const bottom = Math.max(anchor.row, pos.row), right = Math.max(anchor.col, pos.col);
+    const ref = top === bottom && left === right ? cellId(top, left) : `${cellId(top, left)}:${cellId(bottom, right)}`;
+    const caret = p.from + ref.length;
+    setFormulaBar(formulaBar.slice(0, p.from) + ref + formulaBar.slice(p.to));
+    pointingRef.current = { ...p, to: caret };
+    requestAnimationFrame(() => input.setSelectionRange(caret, caret));
+  }
+
+  /** The formula bar, the same in every ribbon tab */
+  function renderFormulaBar(style?: React.CSSProperties) {
+    return (
+      <FormulaEditor
+        className="formula-bar w-full max-w-[950px]"
+        style={style}
+        value={formulaBar}
+        onChange={setFormulaBar}
+        onCommit={() => { if (selectedRef.current) commitEdit(selectedRef.current, fromEditText(formulaBar, locale)); }}
+        onFocus={onEditorFocus}
+        onBlur={() => setEditorFocused(false)}
+        names={nameList}
+        locale={locale}
+        theme={theme}
+        placeholder="Type value or =formula"
+      />
+    );
+  }
+
   function renderCell(r: number, c: number, keyOverride?: string) {
     const id = cellId(r, c);
     const isSelected = selectedRef.current === id;
    const rectBg = range && inRect(r, c, range) && editing !== id
    ? pal.selectionFill
    : (isSelected ? pal.selectionFill : pal.surface);
-    const display = cells[id]?.value ?? "";
+    const cellVal = cells[id]?.value;
+    const cellError = isFormulaError(cellVal) ? cellVal : null;
+    const display = typeof cellVal === "boolean" || cellError ? valueToText(cellVal) : (cellVal ?? "");
     
 
     // LEFT sticky only (freeze first column)
     const isLeftSticky = freezeFirstCol && c === 0;
+
+    // outer edges of a spill area get a blue line
+    const spill = spillAreas.find(a => r >= a.top && r <= a.bottom && c >= a.left && c <= a.right);
+    const shadows = [
+      isLeftSticky && "inset -1px 0 #e3e3e3",
+      spill && r === spill.top && "inset 0 1px 0 #3b82f6",
+      spill && r === spill.bottom && "inset 0 -1px 0 #3b82f6",
+      spill && c === spill.left && "inset 1px 0 0 #3b82f6",
+      spill && c === spill.right && "inset -1px 0 0 #3b82f6",
+      // and the ranges referenced by the formula being edited, each in its reference's color
+      ...editedRefs.flatMap(({ range: a, color }) => r < a.top || r > a.bottom || c < a.left || c > a.right ? [] : [
+        r === a.top && `inset 0 2px 0 ${color}`,
+        r === a.bottom && `inset 0 -2px 0 ${color}`,
+        c === a.left && `inset 2px 0 0 ${color}`,
+        c === a.right && `inset -2px 0 0 ${color}`,
+      ]),
+    ].filter(Boolean);
      
 
     // formatting for this cell
@@ -1414,84 +2123,28 @@ if (condEnabled && rules.length > 0 && display !== "" && display != null) {
    ? rectBg
    : (fmt.bg ?? condBg ?? (isFindHit ? (theme === "dark" ? "#7c2d12" : "#fff7ed") : pal.surface));
 
-    const color = fmt.color ?? undefined;
+    // error values render red, with the cause as a tooltip
+    const color = cellError ? "#dc2626" : (fmt.color ?? undefined);
 
     // Number-format display
     // Number-format display (uses fmt.decimals)
 // Number-format display (robust)
-let displayText: any = display;
+let displayText: any = typeof display === "number" ? formatNumber(display, "General", numberSymbols(localeInfo)) : display;
 try {
-  if (fmt.numFmt && display != null && display !== "") {
-    const decimals = fmt.decimals ?? 2;
-
-    // parse numeric safely (accept numbers or numeric strings with commas)
+  if (fmt.numFmt && !cellError && display != null && display !== "") {
+    // parse numeric safely (accept numbers, numeric strings with commas, and date text)
     const asNum = (v: unknown) => {
       if (typeof v === "number") return v;
       const s = String(v).replace(/,/g, "");
       const n = Number(s);
-      return Number.isNaN(n) ? null : n;
+      if (!Number.isNaN(n)) return n;
+      return parseDateText(String(v), localeInfo.monthFirst)?.serial ?? null;
     };
 
-    if (fmt.numFmt === "number") {
-      const n = asNum(display);
-      if (n !== null) {
-        displayText = new Intl.NumberFormat(undefined, {
-          minimumFractionDigits: decimals,
-          maximumFractionDigits: decimals,
-        }).format(n);
-      }
-    } else if (fmt.numFmt === "currency") {
+    const code = numFmtCode(fmt, localeInfo.currency);
+    if (code) {
       const n = asNum(display);
-      if (n !== null) {
-        const sym = fmt.currency || "₹";
-        const core = new Intl.NumberFormat(undefined, {
-          minimumFractionDigits: decimals,
-          maximumFractionDigits: decimals,
-        }).format(n);
-        displayText = `${sym}${core}`;
-      }
-    } else if (fmt.numFmt === "percent") {
-      const n = asNum(display);
-      if (n !== null) {
-        const pct = n * 100;
-        const core = new Intl.NumberFormat(undefined, {
-          minimumFractionDigits: decimals,
-          maximumFractionDigits: decimals,
-        }).format(pct);
-        displayText = `${core}%`;
-      }
-    } else if (fmt.numFmt === "date") {
-      // Accept: JS timestamp number, ISO string, or dd/mm/yyyy-like strings
-      let d: Date | null = null;
-
-      if (typeof display === "number") {
-        d = new Date(display);
-      } else {
-        const s = String(display).trim();
-
-        // try native Date
-        const d1 = new Date(s);
-        if (!Number.isNaN(d1.getTime())) d = d1;
-        else {
-          // simple dd/mm/yyyy or dd-mm-yyyy
-          const m = s.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})$/);
-          if (m) {
-            const dd = parseInt(m[1], 10);
-            const mm = parseInt(m[2], 10) - 1;
-            const yy = parseInt(m[3], 10);
-            const d2 = new Date(yy, mm, dd);
-            if (!Number.isNaN(d2.getTime())) d = d2;
-          }
-        }
-      }
-
-      if (d && !Number.isNaN(d.getTime())) {
-        displayText = new Intl.DateTimeFormat(undefined, {
-          year: "numeric",
-          month: "short",
-          day: "2-digit",
-        }).format(d);
-      }
+      if (n !== null) displayText = formatNumber(n, code, numberSymbols(localeInfo));
     }
   }
 } catch {
@@ -1501,7 +2154,9 @@ try {
     return (
       <div
         key={keyOverride ?? id}
-        onMouseDown={() => {
+        title={cellError ? `${cellError.error} — ${cellError.message ?? "Formula error"}` : undefined}
+        onMouseDown={(e) => {
+          if (startPointing(id, e)) return;
           const pos = parseId(id); if (!pos) return;
           setRange({ r1: pos.row, c1: pos.col, r2: pos.row, c2: pos.col });
           selectedRef.current = id;
@@ -1510,12 +2165,14 @@ try {
           window.addEventListener("mouseup", onUp);
         }}
         onMouseEnter={() => {
+          if (pointingRef.current) { const pos = parseId(id); if (pos) pointTo(pos); return; }
           if (!draggingRef.current || !range) return;
           const pos = parseId(id); if (!pos) return;
           setRange(prev => prev ? { ...prev, r2: pos.row, c2: pos.col } : prev);
         }}
-        onDoubleClick={() => onEdit(id)}
+        onDoubleClick={() => { if (!editorHasFocus()) onEdit(id); }}
         onClick={(e) => {
+          if (editorHasFocus()) return; // the click wrote a reference into the formula
           if (e.shiftKey && selectedRef.current) {
             const a = parseId(selectedRef.current);
             const b = parseId(id);
@@ -1523,7 +2180,7 @@ try {
           }
           if (selectedRef.current === id && editing !== id) {
             setEditing(id);
-            setFormulaBar(cells[id]?.raw ?? (cells[id]?.value?.toString() ?? ""));
+            setFormulaBar(editText(cells[id], localeRef.current));
           } else onSelect(id);
         }}
         style={{
@@ -1532,7 +2189,7 @@ try {
   position: isLeftSticky ? "sticky" : "relative",
   left: isLeftSticky ? 0 : undefined,
   zIndex: isLeftSticky ? 7 : undefined,
-  boxShadow: isLeftSticky ? "inset -1px 0 #e3e3e3" : undefined,
+  boxShadow: shadows.length ? shadows.join(", ") : undefined,
 
   width: colWidths[c],
   background,
@@ -1553,13 +2210,11 @@ try {
 
       >
    {editing === id ? (
-  <input
+  <FormulaEditor
     autoFocus
     style={{
       width: "100%",
       height: "100%",
-      border: "none",
-      outline: "none",
       fontSize: 13,
       textAlign,
       background: theme === "dark" ? "#1e293b" : "#ffffff", // dark: slate background, light: white
@@ -1568,12 +2223,14 @@ try {
       borderRadius: 2,
     }}
     value={formulaBar}
-    onChange={(e) => setFormulaBar(e.target.value)}
-    onBlur={() => commitEdit(id, formulaBar)}
-    onKeyDown={(e) => {
-      if (e.key === "Enter") commitEdit(id, formulaBar);
-      else if (e.key === "Escape") { setEditing(null); setFormulaBar(""); }
-    }}
+    onChange={setFormulaBar}
+    onCommit={() => commitEdit(id, fromEditText(formulaBar, locale))}
+    onCancel={() => { setEditing(null); setFormulaBar(""); }}
+    onFocus={onEditorFocus}
+    onBlur={() => { setEditorFocused(false); commitEdit(id, fromEditText(formulaBar, locale)); }}
+    names={nameList}
+    locale={locale}
+    theme={theme}
   />
 ) : (
   <span>{displayText as any}</span>
@@ -1688,7 +2345,7 @@ const currentFmt =
           className="toolbar-chip"
           style={{ background: pal.surface, color: pal.text, border: `1px solid ${pal.border}` }}
         >
-          {`${sheetName}${selectedRef.current ? ` • ${selectedRef.current}` : ""}`}
+          {`${sheetName} • `}{renderNameBox()}{renderCalcStatus()}
         </span>
 {/* Enhanced Formula Bar */}
 <div
@@ -1701,17 +2358,7 @@ const currentFmt =
     maxWidth: "100%",
   }}
 >
-  <input
-    className="formula-bar w-full max-w-[950px]" // ✅ longer, animated
-    value={formulaBar}
-    onChange={(e) => setFormulaBar(e.target.value)}
-    onKeyDown={(e) => {
-      if (e.key === "Enter" && selectedRef.current) {
-        commitEdit(selectedRef.current, formulaBar);
-      }
-    }}
-    placeholder="Type value or =formula"
-  />
+  {renderFormulaBar()}
 </div>
 
 
@@ -1931,6 +2578,8 @@ const currentFmt =
             <option value="currency">Currency</option>
             <option value="percent">Percent</option>
             <option value="date">Date</option>
+            <option value="time">Time</option>
+            <option value="datetime">Date &amp; Time</option>
           </select>
 
           <button className="toolbar-btn" style={{ background: pal.surface, color: pal.text, border: `1px solid ${pal.border}` }} title="Increase Decimals" onClick={() => incDecimals(1)}>+.0</button>
@@ -2025,30 +2674,19 @@ const currentFmt =
           fontWeight: 600,
         }}
       >
-        {`${sheetName}${selectedRef.current ? ` • ${selectedRef.current}` : ""}`}
+        {`${sheetName} • `}{renderNameBox()}{renderCalcStatus()}
       </span>
 
       {/* Formula Bar */}
-      <input
-        className="formula-bar w-full max-w-[950px]"
-        style={{
-          flex: 1,
-          border: `1px solid ${pal.border}`,
-          borderRadius: 6,
-          padding: "6px 10px",
-          background: pal.surfaceAlt,
-          color: pal.text,
-          transition: "all 0.2s ease",
-        }}
-        value={formulaBar}
-        onChange={(e) => setFormulaBar(e.target.value)}
-        onKeyDown={(e) => {
-          if (e.key === "Enter" && selectedRef.current) {
-            commitEdit(selectedRef.current, formulaBar);
-          }
-        }}
-        placeholder="Type value or =formula"
-      />
+      {renderFormulaBar({
+        flex: 1,
+        border: `1px solid ${pal.border}`,
+        borderRadius: 6,
+        padding: "6px 10px",
+        background: pal.surfaceAlt,
+        color: pal.text,
+        transition: "all 0.2s ease",
+      })}
     </div>
 
     {/* 🕒 Time Group: Insert Date / DateTime */}
@@ -2208,30 +2846,19 @@ const currentFmt =
           fontWeight: 600,
         }}
       >
-        {`${sheetName}${selectedRef.current ? ` • ${selectedRef.current}` : ""}`}
+        {`${sheetName} • `}{renderNameBox()}{renderCalcStatus()}
       </span>
 
       {/* Formula Bar */}
-      <input
-        className="formula-bar w-full max-w-[950px]"
-        style={{
-          flex: 1,
-          border: `1px solid ${pal.border}`,
-          borderRadius: 6,
-          padding: "6px 10px",
-          background: pal.surfaceAlt,
-          color: pal.text,
-          transition: "all 0.2s ease",
-        }}
-        value={formulaBar}
-        onChange={(e) => setFormulaBar(e.target.value)}
-        onKeyDown={(e) => {
-          if (e.key === "Enter" && selectedRef.current) {
-            commitEdit(selectedRef.current, formulaBar);
-          }
-        }}
-        placeholder="Type value or =formula"
-      />
+      {renderFormulaBar({
+        flex: 1,
+        border: `1px solid ${pal.border}`,
+        borderRadius: 6,
+        padding: "6px 10px",
+        background: pal.surfaceAlt,
+        color: pal.text,
+        transition: "all 0.2s ease",
+      })}
     </div>
 
       {/* 👁 View Options (with working zoom) */}
@@ -2269,7 +2896,7 @@ const currentFmt =
   >
     🔍 Zoom Options
   </button>
-  {/* Formula Functions Button */}
+  {/* Insert Function Button */}
 <button
   className="toolbar-btn"
   style={{
@@ -2281,46 +2908,227 @@ const currentFmt =
     cursor: "pointer",
     transition: "all 0.2s ease",
   }}
-  onClick={() => setShowFormulaModal(true)}
+  title="Start a formula in the selected cell; the editor lists the functions as you type"
+  onClick={() => {
+    const sel = selectedRef.current;
+    if (!sel) return alert("Select a cell first");
+    setEditing(sel);
+    setFormulaBar("=");
+  }}
 >
-  🧮 Formula Functions
+  🧮 Insert Function
 </button>
-
-</div>
-
-
-    
-  </div>
-)}
-
-
-
-
-
-
-  {/* Body (fills the rest) */}
-  <div style={{ flex: 1, minHeight: 0, display: "flex" }}>
-    {/* Row header rail (left) */}
-   <div style={{ width: 50, borderRight: `1px solid ${pal.border}`, background: pal.surfaceAlt }}>
-  <div style={{ height: COL_HEADER_HEIGHT, borderBottom: `1px solid ${pal.border}`, background: pal.surfaceAlt }} />
-  <div style={{ height: "100%", overflow: "hidden", position: "relative" }}>
-    <div style={{ transform: `translateY(-${scrollTop}px)` }}>
-      {allRows.map(r => (
-        <div key={r} style={{
-          border: `1px solid ${pal.border}`,
-          boxSizing: "border-box",
-          height: ROW_HEIGHT,
-          display: "flex",
-          alignItems: "center",
-          justifyContent: "center",
-          fontSize: 13,
-          fontWeight: 500,
-          background: pal.surfaceAlt,
-          color: pal.text
-        }}>
-          {r + 1}
-        </div>
-      ))}
+  {/* Calculation Options Button */}
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={() => setShowCalcModal(true)}
+>
+  🔁 Calculation Options
+</button>
+  {/* Regional Settings Button */}
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={() => setShowLocaleModal(true)}
+>
+  🌐 Regional Settings
+</button>
+  {/* Name Manager Button */}
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={openNameManager}
+>
+  🏷️ Name Manager
+</button>
+  {/* Formula Auditing Buttons */}
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={() => trace("precedent")}
+>
+  ➡️ Trace Precedents
+</button>
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={() => trace("dependent")}
+>
+  ⬅️ Trace Dependents
+</button>
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={() => setTraceArrows([])}
+>
+  ✖️ Remove Arrows
+</button>
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={openEvaluateFormula}
+>
+  🔎 Evaluate Formula
+</button>
+  {/* What-If Analysis Buttons */}
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={() => setGoalSeekForm({ setCell: selectedRef.current ?? "", target: "", changing: "" })}
+>
+  🎯 Goal Seek
+</button>
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={openDataTable}
+>
+  📊 Data Table
+</button>
+<button
+  className="toolbar-btn"
+  style={{
+    background: pal.surface,
+    color: pal.text,
+    border: `1px solid ${pal.border}`,
+    padding: "6px 12px",
+    borderRadius: 6,
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  }}
+  onClick={() => {
+    if (!solverForm.model.objective && selectedRef.current) editSolverModel({ objective: selectedRef.current });
+    setShowSolverModal(true);
+  }}
+>
+  🧩 Solver
+</button>
+
+</div>
+
+
+    
+  </div>
+)}
+
+
+
+
+
+
+  {/* Circular reference warning */}
+  {circularCells.length > 0 && (
+    <div
+      role="alert"
+      style={{
+        padding: "6px 14px",
+        fontSize: 13,
+        background: theme === "dark" ? "#451a03" : "#fef3c7",
+        color: theme === "dark" ? "#fcd34d" : "#92400e",
+        borderBottom: `1px solid ${theme === "dark" ? "#92400e" : "#fcd34d"}`,
+      }}
+    >
+      ⚠️ Circular reference: {circularCells.join(", ")}. These cells refer back to themselves —
+      fix the formulas or turn on iterative calculation in View → Calculation Options.
+    </div>
+  )}
+
+  {/* Body (fills the rest) */}
+  <div style={{ flex: 1, minHeight: 0, display: "flex" }}>
+    {/* Row header rail (left) */}
+   <div style={{ width: 50, borderRight: `1px solid ${pal.border}`, background: pal.surfaceAlt }}>
+  <div style={{ height: COL_HEADER_HEIGHT, borderBottom: `1px solid ${pal.border}`, background: pal.surfaceAlt }} />
+  <div style={{ height: "100%", overflow: "hidden", position: "relative" }}>
+    <div style={{ transform: `translateY(-${scrollTop}px)` }}>
+      {allRows.map(r => (
+        <div key={r} style={{
+          border: `1px solid ${pal.border}`,
+          boxSizing: "border-box",
+          height: ROW_HEIGHT,
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          fontSize: 13,
+          fontWeight: 500,
+          background: pal.surfaceAlt,
+          color: pal.text
+        }}>
+          {r + 1}
+        </div>
+      ))}
     </div>
   </div>
 </div>
@@ -2410,6 +3218,7 @@ transformOrigin: "top left",
             
           })}
         </div>
+        {renderTraceArrows()}
         {/* === SHAPES LAYER === */}
 {/* === SHAPES LAYER (with dragging) === */}
 {/* === SHAPES LAYER (drag + resize + select) === */}
@@ -2822,106 +3631,6 @@ transformOrigin: "top left",
     </div>
   </div>
 )}
-{/* ===== Formula Modal ===== */}
-{showFormulaModal && (
-  <div
-    style={{
-      position: "fixed",
-      inset: 0,
-      background: "rgba(0,0,0,0.45)",
-      display: "flex",
-      alignItems: "center",
-      justifyContent: "center",
-      zIndex: 1000,
-    }}
-    onClick={() => setShowFormulaModal(false)}
-  >
-    <div
-      style={{
-        background: pal.surface,
-        color: pal.text,
-        padding: 20,
-        borderRadius: 10,
-        width: 380,
-        display: "flex",
-        flexDirection: "column",
-        gap: 16,
-        boxShadow: "0 10px 30px rgba(0,0,0,0.3)",
-        border: `1px solid ${pal.border}`,
-        transition: "transform 0.2s ease",
-      }}
-      onClick={(e) => e.stopPropagation()}
-    >
-      <h3 style={{ margin: 0, textAlign: "center" }}>🧮 Insert Formula</h3>
-
-      <p style={{ fontSize: 13, color: pal.textMuted, textAlign: "center" }}>
-        Choose a formula to insert into the selected cell:
-      </p>
-
-      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10 }}>
-        {[
-          { name: "SUM", desc: "Total of values" },
-          { name: "AVERAGE", desc: "Mean of values" },
-          { name: "COUNT", desc: "Number of items" },
-          { name: "MAX", desc: "Highest value" },
-          { name: "MIN", desc: "Lowest value" },
-        ].map((f) => (
-          <button
-            key={f.name}
-            className="toolbar-btn"
-            style={{
-              background: pal.surfaceAlt,
-              color: pal.text,
-              border: `1px solid ${pal.border}`,
-              borderRadius: 8,
-              padding: "10px 8px",
-              fontWeight: 600,
-              cursor: "pointer",
-              transition: "transform 0.15s ease, box-shadow 0.2s ease",
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.transform = "translateY(-2px)";
-              e.currentTarget.style.boxShadow = "0 6px 12px rgba(0,0,0,0.15)";
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.transform = "translateY(0)";
-              e.currentTarget.style.boxShadow = "none";
-            }}
-            onClick={() => {
-              const sel = selectedRef.current;
-              if (!sel) return alert("Select a cell first");
-
-              // Default to summing a nearby range if possible
-              const formula = `=${f.name}(A1:A10)`;
-              commitEdit(sel, formula);
-              setShowFormulaModal(false);
-            }}
-          >
-            {f.name}
-            <div style={{ fontSize: 11, opacity: 0.7 }}>{f.desc}</div>
-          </button>
-        ))}
-      </div>
-
-      <button
-        onClick={() => setShowFormulaModal(false)}
-        style={{
-          alignSelf: "center",
-          marginTop: 10,
-          background: "#2563eb",
-          color: "white",
-          border: "none",
-          borderRadius: 6,
-          padding: "6px 14px",
-          cursor: "pointer",
-          fontWeight: 600,
-        }}
-      >
-        Close
-      </button>
-    </div>
-  </div>
-)}
 
 
 {/* ===== Zoom Modal ===== */}
@@ -3033,6 +3742,850 @@ transformOrigin: "top left",
   </div>
 )}
 
+{/* ===== Calculation Options Modal ===== */}
+{showCalcModal && (
+  <div
+    style={{
+      position: "fixed",
+      inset: 0,
+      background: "rgba(0,0,0,0.45)",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      zIndex: 1000,
+    }}
+    onClick={() => setShowCalcModal(false)}
+  >
+    <div
+      style={{
+        background: pal.surface,
+        color: pal.text,
+        padding: 20,
+        borderRadius: 10,
+        width: 360,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        boxShadow: "0 10px 30px rgba(0,0,0,0.3)",
+        border: `1px solid ${pal.border}`,
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h3 style={{ margin: 0, color: pal.text, textAlign: "center" }}>
+        🔁 Calculation Options
+      </h3>
+
+      <label style={{ fontSize: 13, display: "flex", alignItems: "center", gap: 8 }}>
+        <input
+          type="checkbox"
+          checked={!!calcOptions.iterative}
+          onChange={(e) => onCalcOptionsChange?.({ ...calcOptions, iterative: e.target.checked })}
+        />
+        Enable iterative calculation
+      </label>
+      <p style={{ margin: 0, fontSize: 12, color: pal.textMuted }}>
+        Applies to every sheet in this workbook. Circular references are recalculated until
+        they settle instead of showing {CIRCULAR_ERROR}.
+      </p>
+
+      <label style={{ fontSize: 13 }}>
+        Maximum iterations:
+        <input
+          type="number"
+          min={1}
+          max={32767}
+          disabled={!calcOptions.iterative}
+          value={calcOptions.maxIterations ?? DEFAULT_CALC_OPTIONS.maxIterations}
+          onChange={(e) =>
+            onCalcOptionsChange?.({
+              ...calcOptions,
+              maxIterations: Math.max(1, Math.min(32767, Math.floor(+e.target.value) || 1)),
+            })
+          }
+          style={{
+            marginLeft: 8,
+            padding: 6,
+            width: 90,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            color: pal.text,
+          }}
+        />
+      </label>
+
+      <label style={{ fontSize: 13 }}>
+        Maximum change:
+        <input
+          type="number"
+          min={0}
+          step={0.001}
+          disabled={!calcOptions.iterative}
+          value={calcOptions.maxChange ?? DEFAULT_CALC_OPTIONS.maxChange}
+          onChange={(e) =>
+            onCalcOptionsChange?.({ ...calcOptions, maxChange: Math.max(0, +e.target.value || 0) })
+          }
+          style={{
+            marginLeft: 8,
+            padding: 6,
+            width: 90,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            color: pal.text,
+          }}
+        />
+      </label>
+
+      <button
+        onClick={() => setShowCalcModal(false)}
+        style={{
+          alignSelf: "center",
+          marginTop: 10,
+          background: "#2563eb",
+          color: "white",
+          border: "none",
+          borderRadius: 6,
+          padding: "6px 14px",
+          cursor: "pointer",
+          fontWeight: 600,
+        }}
+      >
+        Close
+      </button>
+    </div>
+  </div>
+)}
+
+{/* ===== Regional Settings Modal ===== */}
+{showLocaleModal && (
+  <div
+    style={{
+      position: "fixed",
+      inset: 0,
+      background: "rgba(0,0,0,0.45)",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      zIndex: 1000,
+    }}
+    onClick={() => setShowLocaleModal(false)}
+  >
+    <div
+      style={{
+        background: pal.surface,
+        color: pal.text,
+        padding: 20,
+        borderRadius: 10,
+        width: 360,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        boxShadow: "0 10px 30px rgba(0,0,0,0.3)",
+        border: `1px solid ${pal.border}`,
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h3 style={{ margin: 0, color: pal.text, textAlign: "center" }}>
+        🌐 Regional Settings
+      </h3>
+
+      <label style={{ fontSize: 13 }}>
+        Locale:
+        <select
+          value={localeInfo.id}
+          onChange={(e) => onLocaleChange?.({ ...locale, locale: e.target.value })}
+          style={{
+            marginLeft: 8,
+            padding: 6,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            color: pal.text,
+          }}
+        >
+          {LOCALES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+        </select>
+      </label>
+
+      <label style={{ fontSize: 13, display: "flex", alignItems: "center", gap: 8 }}>
+        <input
+          type="checkbox"
+          disabled={!localeInfo.functions}
+          checked={!!locale.localizeFunctions && !!localeInfo.functions}
+          onChange={(e) => onLocaleChange?.({ ...locale, localizeFunctions: e.target.checked })}
+        />
+        Use localized function names
+      </label>
+      <p style={{ margin: 0, fontSize: 12, color: pal.textMuted }}>
+        Applies to every sheet in this workbook. Numbers are typed and shown as{" "}
+        {formatNumber(1234.56, "#,##0.00", numberSymbols(localeInfo))}, arguments are separated
+        by "{localeInfo.separator}" and the currency format uses {localeInfo.currency}. Formulas
+        are saved in the standard form, so a workbook opens the same in any locale.
+      </p>
+
+      <button
+        onClick={() => setShowLocaleModal(false)}
+        style={{
+          alignSelf: "center",
+          marginTop: 10,
+          background: "#2563eb",
+          color: "white",
+          border: "none",
+          borderRadius: 6,
+          padding: "6px 14px",
+          cursor: "pointer",
+          fontWeight: 600,
+        }}
+      >
+        Close
+      </button>
+    </div>
+  </div>
+)}
+
+{/* ===== Goal Seek Modal ===== */}
+{goalSeekForm && (
+  <div
+    style={{
+      position: "fixed",
+      inset: 0,
+      background: "rgba(0,0,0,0.45)",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      zIndex: 1000,
+    }}
+    onClick={() => setGoalSeekForm(null)}
+  >
+    <div
+      style={{
+        background: pal.surface,
+        color: pal.text,
+        padding: 20,
+        borderRadius: 10,
+        width: 360,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        boxShadow: "0 10px 30px rgba(0,0,0,0.3)",
+        border: `1px solid ${pal.border}`,
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h3 style={{ margin: 0, color: pal.text, textAlign: "center" }}>
+        🎯 Goal Seek
+      </h3>
+      <label style={{ fontSize: 13, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+        Set cell:
+        <input
+          value={goalSeekForm.setCell}
+          onChange={(e) => setGoalSeekForm({ ...goalSeekForm, setCell: e.target.value, result: undefined })}
+          placeholder="B5"
+          style={{
+            padding: 6,
+            width: 140,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            color: pal.text,
+          }}
+        />
+      </label>
+      <label style={{ fontSize: 13, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+        To value:
+        <input
+          value={goalSeekForm.target}
+          onChange={(e) => setGoalSeekForm({ ...goalSeekForm, target: e.target.value, result: undefined })}
+          placeholder="0"
+          style={{
+            padding: 6,
+            width: 140,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            color: pal.text,
+          }}
+        />
+      </label>
+      <label style={{ fontSize: 13, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+        By changing cell:
+        <input
+          value={goalSeekForm.changing}
+          onChange={(e) => setGoalSeekForm({ ...goalSeekForm, changing: e.target.value, result: undefined })}
+          placeholder="B1"
+          style={{
+            padding: 6,
+            width: 140,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            color: pal.text,
+          }}
+        />
+      </label>
+      {goalSeekForm.error && <p style={{ margin: 0, fontSize: 12, color: "#dc2626" }}>{goalSeekForm.error}</p>}
+      {goalSeekForm.result && (
+        <p style={{ margin: 0, fontSize: 12, color: pal.textMuted }}>
+          {goalSeekForm.result.found
+            ? "Goal Seek found a solution"
+            : "Goal Seek may not have found a solution; this is the closest it got"}
+          : {typedCell(goalSeekForm.changing)} = {goalSeekForm.result.input} gives{" "}
+          {valueToText(goalSeekForm.result.value)}.
+        </p>
+      )}
+      <div style={{ display: "flex", gap: 8, justifyContent: "center" }}>
+        <button className="toolbar-btn" onClick={solveGoalSeek}>
+          Solve
+        </button>
+        <button
+          className="toolbar-btn"
+          disabled={!goalSeekForm.result}
+          onClick={() => {
+            // keep the solution: typed into the changing cell, so it can be undone
+            commitEdit(typedCell(goalSeekForm.changing)!, String(goalSeekForm.result!.input));
+            setGoalSeekForm(null);
+          }}
+        >
+          Apply
+        </button>
+        <button
+          onClick={() => setGoalSeekForm(null)}
+          style={{
+            background: "#2563eb",
+            color: "white",
+            border: "none",
+            borderRadius: 6,
+            padding: "6px 14px",
+            cursor: "pointer",
+            fontWeight: 600,
+          }}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  </div>
+)}
+
+{/* ===== Data Table Modal ===== */}
+{dataTableForm && range && (
+  <div
+    style={{
+      position: "fixed",
+      inset: 0,
+      background: "rgba(0,0,0,0.45)",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      zIndex: 1000,
+    }}
+    onClick={() => setDataTableForm(null)}
+  >
+    <div
+      style={{
+        background: pal.surface,
+        color: pal.text,
+        padding: 20,
+        borderRadius: 10,
+        width: 360,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        boxShadow: "0 10px 30px rgba(0,0,0,0.3)",
+        border: `1px solid ${pal.border}`,
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h3 style={{ margin: 0, color: pal.text, textAlign: "center" }}>
+        📊 Data Table — {cellId(Math.min(range.r1, range.r2), Math.min(range.c1, range.c2))}:
+        {cellId(Math.max(range.r1, range.r2), Math.max(range.c1, range.c2))}
+      </h3>
+      <p style={{ margin: 0, fontSize: 12, color: pal.textMuted }}>
+        Values for the row input cell go along the table's top row, values for the column input
+        cell down its left column, and the formulas where they meet (with both inputs, one
+        formula in the top-left corner). The table fills with TABLE and stays live as its
+        formulas' inputs change.
+      </p>
+      <label style={{ fontSize: 13, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+        Row input cell:
+        <input
+          value={dataTableForm.rowInput}
+          onChange={(e) => setDataTableForm({ ...dataTableForm, rowInput: e.target.value, error: undefined })}
+          style={{
+            padding: 6,
+            width: 140,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            color: pal.text,
+          }}
+        />
+      </label>
+      <label style={{ fontSize: 13, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+        Column input cell:
+        <input
+          value={dataTableForm.colInput}
+          onChange={(e) => setDataTableForm({ ...dataTableForm, colInput: e.target.value, error: undefined })}
+          style={{
+            padding: 6,
+            width: 140,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            color: pal.text,
+          }}
+        />
+      </label>
+      {dataTableForm.error && <p style={{ margin: 0, fontSize: 12, color: "#dc2626" }}>{dataTableForm.error}</p>}
+      <div style={{ display: "flex", gap: 8, justifyContent: "center" }}>
+        <button className="toolbar-btn" onClick={createDataTable}>
+          OK
+        </button>
+        <button
+          onClick={() => setDataTableForm(null)}
+          style={{
+            background: "#2563eb",
+            color: "white",
+            border: "none",
+            borderRadius: 6,
+            padding: "6px 14px",
+            cursor: "pointer",
+            fontWeight: 600,
+          }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  </div>
+)}
+
+{/* ===== Solver Modal ===== */}
+{showSolverModal && (() => {
+  const { model, target, result, error, running } = solverForm;
+  const field = {
+    padding: 6,
+    borderRadius: 6,
+    border: `1px solid ${pal.border}`,
+    background: pal.surfaceAlt,
+    color: pal.text,
+  };
+  const setConstraint = (i: number, change: Partial<SolverConstraint>) =>
+    editSolverModel({ constraints: model.constraints.map((c, k) => (k === i ? { ...c, ...change } : c)) });
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.45)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={closeSolver}
+    >
+      <div
+        style={{
+          background: pal.surface,
+          color: pal.text,
+          padding: 20,
+          borderRadius: 10,
+          width: 480,
+          maxHeight: "85vh",
+          overflowY: "auto",
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+          boxShadow: "0 10px 30px rgba(0,0,0,0.3)",
+          border: `1px solid ${pal.border}`,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={{ margin: 0, color: pal.text, textAlign: "center" }}>
+          🧩 Solver
+        </h3>
+
+        <label style={{ fontSize: 13, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+          Set objective:
+          <input value={model.objective} placeholder="D12" onChange={(e) => editSolverModel({ objective: e.target.value })} style={{ ...field, width: 160 }} />
+        </label>
+        <div style={{ fontSize: 13, display: "flex", alignItems: "center", gap: 12 }}>
+          To:
+          {(["max", "min", "value"] as const).map(goal => (
+            <label key={goal} style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              <input type="radio" checked={model.goal === goal} onChange={() => editSolverModel({ goal })} />
+              {goal === "max" ? "Max" : goal === "min" ? "Min" : "Value of:"}
+            </label>
+          ))}
+          <input
+            type="number"
+            value={target}
+            disabled={model.goal !== "value"}
+            onChange={(e) => {
+              stopSolver();
+              const typed = e.target.value;
+              setSolverForm(f => ({ ...f, target: typed, result: undefined }));
+            }}
+            style={{ ...field, width: 90 }}
+          />
+        </div>
+        <label style={{ fontSize: 13, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+          By changing cells:
+          <input value={model.changing} placeholder="B2:B10" onChange={(e) => editSolverModel({ changing: e.target.value })} style={{ ...field, width: 160 }} />
+        </label>
+
+        <div style={{ fontSize: 13 }}>Subject to the constraints:</div>
+        {model.constraints.map((c, i) => (
+          <div key={i} style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            <input value={c.left} placeholder="B2:B10" onChange={(e) => setConstraint(i, { left: e.target.value })} style={{ ...field, flex: 1, minWidth: 0 }} />
+            <select value={c.op} onChange={(e) => setConstraint(i, { op: e.target.value as SolverOp })} style={field}>
+              <option value="<=">&lt;=</option>
+              <option value=">=">&gt;=</option>
+              <option value="=">=</option>
+            </select>
+            <input value={c.right} placeholder="0" onChange={(e) => setConstraint(i, { right: e.target.value })} style={{ ...field, flex: 1, minWidth: 0 }} />
+            <button
+              className="toolbar-btn"
+              title="Delete this constraint"
+              onClick={() => editSolverModel({ constraints: model.constraints.filter((_, k) => k !== i) })}
+            >
+              ✖️
+            </button>
+          </div>
+        ))}
+        <button
+          className="toolbar-btn"
+          style={{ alignSelf: "flex-start" }}
+          onClick={() => editSolverModel({ constraints: [...model.constraints, { left: "", op: "<=", right: "" }] })}
+        >
+          ➕ Add constraint
+        </button>
+        <p style={{ margin: 0, fontSize: 12, color: pal.textMuted }}>
+          Each side is a cell, a range, a number or a formula, e.g. B2:B10 &gt;= 0 or SUM(B2:B10) = 100.
+          Linear models are solved exactly (simplex); others by a Nelder-Mead search.
+        </p>
+
+        <label style={{ fontSize: 13, display: "flex", alignItems: "center", gap: 8 }}>
+          <input
+            type="checkbox"
+            checked={model.nonNegative ?? true}
+            onChange={(e) => editSolverModel({ nonNegative: e.target.checked })}
+          />
+          Make changing cells non-negative
+        </label>
+
+        {running && <p style={{ margin: 0, fontSize: 12, color: pal.textMuted }}>Solving… trying values for the changing cells.</p>}
+        {error && <p style={{ margin: 0, fontSize: 12, color: "#dc2626" }}>{error}</p>}
+        {result && (
+          <div style={{ fontSize: 12, color: pal.textMuted }}>
+            <p style={{ margin: 0, color: result.status === "optimal" || result.status === "converged" ? pal.text : "#dc2626" }}>
+              {result.message}
+            </p>
+            {(result.status === "optimal" || result.status === "converged") && (
+              <p style={{ margin: "4px 0 0", fontFamily: "monospace" }}>
+                {model.objective.trim().toUpperCase()} = {valueToText(result.objective)};{" "}
+                {Object.entries(result.values).map(([id, v]) => `${id} = ${v}`).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 8, justifyContent: "center" }}>
+          {running ? (
+            <button className="toolbar-btn" onClick={stopSolver}>
+              Stop
+            </button>
+          ) : (
+            <button className="toolbar-btn" onClick={runSolver}>
+              Solve
+            </button>
+          )}
+          <button
+            className="toolbar-btn"
+            disabled={!result || (result.status !== "optimal" && result.status !== "converged")}
+            onClick={keepSolverSolution}
+          >
+            Keep Solution
+          </button>
+          <button
+            onClick={closeSolver}
+            style={{
+              background: "#2563eb",
+              color: "white",
+              border: "none",
+              borderRadius: 6,
+              padding: "6px 14px",
+              cursor: "pointer",
+              fontWeight: 600,
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+})()}
+
+{/* ===== Evaluate Formula Modal ===== */}
+{evaluating && (() => {
+  const { id, ast, steps, done } = evaluating;
+  const { text, next } = evaluationText(ast, steps, done);
+  const finished = done >= steps.length;
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.45)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={() => setEvaluating(null)}
+    >
+      <div
+        style={{
+          background: pal.surface,
+          color: pal.text,
+          padding: 20,
+          borderRadius: 10,
+          width: 520,
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+          boxShadow: "0 10px 30px rgba(0,0,0,0.3)",
+          border: `1px solid ${pal.border}`,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 style={{ margin: 0, color: pal.text, textAlign: "center" }}>
+          🔎 Evaluate Formula — {sheetName}!{id}
+        </h3>
+        <p style={{ margin: 0, fontSize: 12, color: pal.textMuted }}>
+          {finished
+            ? "Every part has been worked out: this is the cell's value."
+            : "Evaluate works out the underlined part next. Parts already worked out show their values."}
+        </p>
+        <div
+          style={{
+            fontFamily: "monospace",
+            fontSize: 14,
+            padding: 10,
+            borderRadius: 6,
+            border: `1px solid ${pal.border}`,
+            background: pal.surfaceAlt,
+            whiteSpace: "pre-wrap",
+            wordBreak: "break-all",
+          }}
+        >
+          {next ? (
+            <>
+              {text.slice(0, next.from)}
+              <span style={{ textDecoration: "underline", fontWeight: 700, color: pal.selection }}>
+                {text.slice(next.from, next.to)}
+              </span>
+              {text.slice(next.to)}
+            </>
+          ) : text}
+        </div>
+        {done > 0 && (
+          <div style={{ maxHeight: 160, overflowY: "auto", fontSize: 12, fontFamily: "monospace", color: pal.textMuted }}>
+            {steps.slice(0, done).map((step, i) => (
+              <div key={i}>
+                {formatAst(step.node)} → {evaluationText(step.node, [step], 1).text.slice(1)}
+              </div>
+            ))}
+          </div>
+        )}
+        <div style={{ display: "flex", gap: 8, justifyContent: "center" }}>
+          <button
+            className="toolbar-btn"
+            disabled={finished}
+            onClick={() => setEvaluating({ ...evaluating, done: done + 1 })}
+          >
+            Evaluate
+          </button>
+          <button
+            className="toolbar-btn"
+            disabled={done === 0}
+            onClick={() => setEvaluating({ ...evaluating, done: 0 })}
+          >
+            Restart
+          </button>
+          <button
+            onClick={() => setEvaluating(null)}
+            style={{
+              background: "#2563eb",
+              color: "white",
+              border: "none",
+              borderRadius: 6,
+              padding: "6px 14px",
+              cursor: "pointer",
+              fontWeight: 600,
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+})()}
+
+{/* ===== Name Manager Modal ===== */}
+{showNamesModal && (
+  <div
+    style={{
+      position: "fixed",
+      inset: 0,
+      background: "rgba(0,0,0,0.45)",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      zIndex: 1000,
+    }}
+    onClick={() => setShowNamesModal(false)}
+  >
+    <div
+      style={{
+        background: pal.surface,
+        color: pal.text,
+        padding: 20,
+        borderRadius: 10,
+        width: 480,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        boxShadow: "0 10px 30px rgba(0,0,0,0.3)",
+        border: `1px solid ${pal.border}`,
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h3 style={{ margin: 0, color: pal.text, textAlign: "center" }}>
+        🏷️ Name Manager
+      </h3>
+
+      <div style={{ maxHeight: 220, overflowY: "auto", border: `1px solid ${pal.border}`, borderRadius: 6 }}>
+        {names.length === 0 && namesElsewhere.length === 0 ? (
+          <p style={{ margin: 0, padding: 10, fontSize: 12, color: pal.textMuted }}>
+            No names in this workbook yet. Formulas can use a name wherever they take a reference, e.g. =SUM(Sales)*TaxRate,
+            and call a name holding a LAMBDA like a function, e.g. =Double(A1).
+          </p>
+        ) : (
+          <table style={{ width: "100%", fontSize: 13, borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left", color: pal.textMuted }}>
+                <th style={{ padding: "6px 8px" }}>Name</th>
+                <th style={{ padding: "6px 8px" }}>Refers to</th>
+                <th style={{ padding: "6px 8px" }}>Scope</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {names.map((n) => (
+                <tr
+                  key={n.name}
+                  style={{ borderTop: `1px solid ${pal.border}`, cursor: "pointer" }}
+                  title="Click to edit"
+                  onClick={() => { setNameDraft(n); setNameError(null); }}
+                >
+                  <td style={{ padding: "6px 8px", fontWeight: 600 }}>{n.name}</td>
+                  <td style={{ padding: "6px 8px" }}>{n.ref}</td>
+                  <td style={{ padding: "6px 8px" }}>{n.scope === "workbook" ? "Workbook" : sheetName}</td>
+                  <td style={{ padding: "6px 8px", textAlign: "right" }}>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); deleteName(n); }}
+                      style={{ border: `1px solid ${pal.border}`, background: pal.surface, color: pal.text, borderRadius: 4 }}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {namesElsewhere.map((n) => (
+                <tr
+                  key={`${n.sheet}!${n.name}`}
+                  style={{ borderTop: `1px solid ${pal.border}`, cursor: "pointer", color: pal.textMuted }}
+                  title={`Defined on ${n.sheet}: click to go to its cells`}
+                  onClick={() => { setShowNamesModal(false); goToName(n.name); }}
+                >
+                  <td style={{ padding: "6px 8px", fontWeight: 600 }}>{n.name}</td>
+                  <td style={{ padding: "6px 8px" }}>{parseNameRef(n.ref) ? `${formatSheetName(n.sheet)}!${n.ref}` : n.ref}</td>
+                  <td style={{ padding: "6px 8px" }}>Workbook</td>
+                  <td />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <input
+          placeholder="Name"
+          value={nameDraft.name}
+          onChange={(e) => setNameDraft({ ...nameDraft, name: e.target.value })}
+          style={{ flex: 1, minWidth: 100, padding: 6, borderRadius: 6, border: `1px solid ${pal.border}`, background: pal.surfaceAlt, color: pal.text }}
+        />
+        <input
+          placeholder="Refers to, e.g. $B$2:$B$10 or LAMBDA(x, x * 2)"
+          value={nameDraft.ref}
+          onChange={(e) => setNameDraft({ ...nameDraft, ref: e.target.value })}
+          onKeyDown={(e) => { if (e.key === "Enter") saveName(); }}
+          style={{ flex: 1, minWidth: 120, padding: 6, borderRadius: 6, border: `1px solid ${pal.border}`, background: pal.surfaceAlt, color: pal.text }}
+        />
+        <select
+          value={nameDraft.scope}
+          onChange={(e) => setNameDraft({ ...nameDraft, scope: e.target.value as NameScope })}
+          style={{ padding: 6, borderRadius: 6, border: `1px solid ${pal.border}`, background: pal.surfaceAlt, color: pal.text }}
+        >
+          <option value="workbook">Workbook</option>
+          <option value="sheet">{sheetName} only</option>
+        </select>
+      </div>
+      <p style={{ margin: 0, fontSize: 12, color: pal.textMuted }}>
+        A name covers cells of this sheet and follows them when rows or columns are inserted or deleted,
+        or holds a formula; one holding a LAMBDA is called like a built-in function. Saving an existing name redefines it.
+      </p>
+      {nameError && <p style={{ margin: 0, fontSize: 12, color: "#dc2626" }}>{nameError}</p>}
+
+      <div style={{ display: "flex", justifyContent: "center", gap: 8, marginTop: 6 }}>
+        <button
+          onClick={saveName}
+          style={{
+            background: "#2563eb",
+            color: "white",
+            border: "none",
+            borderRadius: 6,
+            padding: "6px 14px",
+            cursor: "pointer",
+            fontWeight: 600,
+          }}
+        >
+          {findName(names, nameDraft.name.trim()) ? "Update" : "Add"}
+        </button>
+        <button
+          onClick={() => setShowNamesModal(false)}
+          style={{
+            background: pal.surface,
+            color: pal.text,
+            border: `1px solid ${pal.border}`,
+            borderRadius: 6,
+            padding: "6px 14px",
+            cursor: "pointer",
+          }}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  </div>
+)}
+
 {showFontModal && (
   <div
     style={{
@@ -3574,7 +5127,7 @@ if (typeof document !== "undefined" && !document.getElementById("formula-bar-sty
       font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
     }
 
-    .formula-bar::placeholder {
+    .formula-bar input::placeholder {
       color: var(--formula-placeholder, #94a3b8);
       opacity: 0.75;
       transition: opacity 0.3s ease;
@@ -3585,7 +5138,7 @@ if (typeof document !== "undefined" && !document.getElementById("formula-bar-sty
       transform: translateY(-1px);
     }
 
-    .formula-bar:focus {
+    .formula-bar:focus-within {
       border-color: #3b82f6;
       box-shadow: 0 0 0 3px rgba(59,130,246,0.25);
       background: var(--formula-bg-focus, #ffffff);
@@ -3601,7 +5154,7 @@ if (typeof document !== "undefined" && !document.getElementById("formula-bar-sty
       box-shadow: inset 0 1px 3px rgba(0,0,0,0.4);
     }
 
-    body.dark .formula-bar:focus {
+    body.dark .formula-bar:focus-within {
       border-color: #60a5fa;
       box-shadow: 0 0 0 3px rgba(96,165,250,0.3);
       transform: scale(1.02);
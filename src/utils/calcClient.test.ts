@@ -0,0 +1,60 @@
+// src/utils/calcClient.test.ts
+// Recalculation requests: a newer request supersedes the earlier ones, whose results are
+// dropped, and still recalculates the cells edited for them. (Tests have no Web Workers, so
+// the client calculates on the main thread.)
+
+import { describe, expect, it } from "vitest";
+import { createCalcClient } from "./calcClient";
+import type { CalcResult } from "./calcClient";
+import { DEFAULT_CALC_OPTIONS } from "./formulaEngine";
+import type { CellValue } from "./formulaEngine";
+
+/** Raw texts by cell id as the cells of a sheet */
+function cellsOf(raws: Record<string, string>) {
+  const cells: Record<string, CellValue> = {};
+  for (const [id, raw] of Object.entries(raws)) cells[id] = { raw };
+  return cells;
+}
+
+/** A client recording what it delivers */
+function recorder() {
+  const delivered: Array<{ result: CalcResult; sent: Record<string, CellValue> }> = [];
+  const busy: boolean[] = [];
+  const client = createCalcClient((result, sent) => delivered.push({ result, sent }), b => busy.push(b));
+  return { client, delivered, busy };
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe("createCalcClient", () => {
+  it("delivers only the newest of requests made in a row", async () => {
+    const { client, delivered, busy } = recorder();
+    const first = cellsOf({ A1: "1", B1: "=A1*2" });
+    const second = cellsOf({ A1: "5", B1: "=A1*2" });
+    client.request([{ name: "Sheet1", cells: first }], DEFAULT_CALC_OPTIONS);
+    client.request([{ name: "Sheet1", cells: second }], DEFAULT_CALC_OPTIONS, ["A1"]);
+    await settle();
+    expect(delivered).toHaveLength(1);
+    expect(delivered[0].sent).toBe(second);
+    expect(delivered[0].result.cells.B1.value).toBe(10);
+    expect(busy.at(-1)).toBe(false);
+  });
+
+  it("recalculates the cells edited for the requests it superseded", async () => {
+    const { client, delivered } = recorder();
+    client.request([{ name: "Sheet1", cells: cellsOf({ A1: "1", B1: "=A1*2", C1: "x" }) }], DEFAULT_CALC_OPTIONS);
+    await settle();
+    expect(delivered[0].result.cells.B1.value).toBe(2);
+
+    // A1 edited, then C1 before that recalc came back: the newest names only C1
+    const cells = cellsOf({ A1: "5", B1: "=A1*2", C1: "x" });
+    client.request([{ name: "Sheet1", cells }], DEFAULT_CALC_OPTIONS, ["A1"]);
+    const newest = { ...cells, C1: { raw: "y" } };
+    client.request([{ name: "Sheet1", cells: newest }], DEFAULT_CALC_OPTIONS, ["C1"]);
+    await settle();
+    expect(delivered).toHaveLength(2);
+    expect(delivered[1].sent).toBe(newest);
+    expect(delivered[1].result.cells.B1.value).toBe(10);
+    client.dispose();
+  });
+});
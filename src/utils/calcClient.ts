@@ -0,0 +1,128 @@
+// src/utils/calcClient.ts
+// Recalculation off the main thread: the open sheet posts its cells, with the rest of the
+// workbook, to a Web Worker (calcWorker.ts) and gets the computed cells back, its own and
+// those of the sheets reading it, so typing never waits for formulas.
+
+import type { CalcOptions, CellValue, DependencyGraph } from "./formulaEngine";
+import { recalcSheet } from "./workbook";
+import type { WorkbookSheet } from "./workbook";
+
+/** Recalculate book[0], then the sheets reading it (see recalcSheet); `changed` undefined means every formula */
+export type CalcRequest = { id: number; book: WorkbookSheet[]; options: CalcOptions; changed?: string[] };
+
+/** What a request computed (see recalcSheet), or why it failed */
+export type CalcResponse = { id: number } & (CalcResult | { error: string });
+
+/**
+ * The computed cells of book[0]; the other sheets recalculated after it; and whether
+ * book[0] has volatile formulas (TODAY, OFFSET...)
+ */
+export type CalcResult = { cells: Record<string, CellValue>; others: WorkbookSheet[]; volatile: boolean };
+
+export type CalcClient = {
+  /**
+   * Recalculate book[0] after the cells `changed` were edited (undefined: recalculate
+   * everything). Supersedes every earlier request: only the newest result is delivered.
+   */
+  request: (book: WorkbookSheet[], options: CalcOptions, changed?: string[]) => void;
+  /** Stop the worker; nothing more is delivered */
+  dispose: () => void;
+};
+
+/**
+ * createCalcClient(onResult, onBusy)
+ * - onResult(result, sent): what the newest request computed, with the cells it was sent
+ *   (so the caller can tell whether they were edited since)
+ * - onBusy(busy): true while a recalc is requested and its result not delivered
+ * - every request is sent at once and supersedes the earlier ones: their results are
+ *   dropped by request id, and those not started yet are skipped (the newest recalculates
+ *   the cells edited for them too); the running one is abandoned (worker restarted) when
+ *   the newcomer recalculates everything
+ * - without Web Workers (tests, old browsers) the same calculation runs on the main thread
+ */
+export function createCalcClient(
+  onResult: (result: CalcResult, sent: Record<string, CellValue>) => void,
+  onBusy: (busy: boolean) => void
+): CalcClient {
+  let worker: Worker | null = null;
+  let useWorker = typeof Worker !== "undefined";
+  let graph: DependencyGraph | null = null; // main-thread graph, when there is no worker
+  let nextId = 1;
+  let latest: CalcRequest | null = null; // the newest request, until its result is delivered
+  // cells edited by every request whose result wasn't delivered (null: everything), so the
+  // request that finally is delivered recalculates what the skipped ones would have
+  let undelivered: Set<string> | null = new Set();
+
+  const finish = (res: CalcResponse) => {
+    if (!latest || res.id !== latest.id) return; // superseded
+    const done = latest;
+    latest = null;
+    undelivered = new Set();
+    onBusy(false);
+    if ("error" in res) console.warn("Recalculation failed:", res.error);
+    else onResult(res, done.book[0].cells);
+  };
+
+  const runHere = (req: CalcRequest) => {
+    setTimeout(() => {
+      if (latest !== req) return;
+      try {
+        const out = recalcSheet(req.book, req.options, graph, req.changed);
+        graph = out.graph;
+        finish({ id: req.id, cells: out.cells, others: out.others, volatile: out.volatile });
+      } catch (e) {
+        graph = null;
+        finish({ id: req.id, error: String(e) });
+      }
+    }, 0);
+  };
+
+  const startWorker = () => {
+    try {
+      const w = new Worker(new URL("./calcWorker.ts", import.meta.url), { type: "module" });
+      w.onmessage = (e: MessageEvent<CalcResponse>) => finish(e.data);
+      w.onerror = (e) => {
+        // the worker couldn't load or crashed: calculate here from now on
+        console.warn("Calculation worker failed, calculating on the main thread:", e.message);
+        w.terminate();
+        worker = null;
+        useWorker = false;
+        if (latest) {
+          latest = { ...latest, changed: undefined };
+          runHere(latest);
+        }
+      };
+      return w;
+    } catch {
+      useWorker = false;
+      return null;
+    }
+  };
+
+  const post = (req: CalcRequest) => {
+    latest = req;
+    if (useWorker && !worker) worker = startWorker();
+    if (worker) worker.postMessage(req);
+    else runHere(req);
+  };
+
+  return {
+    request(book, options, changed) {
+      if (undelivered && changed) for (const id of changed) undelivered.add(id);
+      else undelivered = null;
+      const req: CalcRequest = { id: nextId++, book, options, changed: undelivered ? [...undelivered] : undefined };
+      onBusy(true);
+      if (latest && !req.changed) {
+        // a full recalc makes the running one pointless: cancel it
+        worker?.terminate();
+        worker = null;
+      }
+      post(req);
+    },
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      latest = null;
+    },
+  };
+}
@@ -0,0 +1,33 @@
+// src/utils/calcWorker.ts
+// Web Worker side of calcClient.ts: recalculates the sheet it is sent, then the sheets
+// reading it, and posts the cells back, keeping the sheet's dependency graph between
+// requests so edits stay incremental.
+
+import type { CalcRequest, CalcResponse } from "./calcClient";
+import type { DependencyGraph } from "./formulaEngine";
+import { recalcSheet } from "./workbook";
+
+let graph: DependencyGraph | null = null;
+// requests sent while one is worked out queue up; only the newest of them is worked out,
+// since it recalculates the cells edited for the others too (see calcClient)
+let pending: CalcRequest | null = null;
+
+self.onmessage = (e: MessageEvent<CalcRequest>) => {
+  if (!pending) setTimeout(run, 0);
+  pending = e.data;
+};
+
+function run() {
+  const { id, book, options, changed } = pending!;
+  pending = null;
+  let res: CalcResponse;
+  try {
+    const out = recalcSheet(book, options, graph, changed);
+    graph = out.graph;
+    res = { id, cells: out.cells, others: out.others, volatile: out.volatile };
+  } catch (err) {
+    graph = null; // start over with a full recalc next time
+    res = { id, error: String(err) };
+  }
+  self.postMessage(res);
+}
@@ -0,0 +1,155 @@
+// src/utils/dateSerial.ts
+// Excel-compatible date serial numbers (1900 date system): whole days since 1899-12-31,
+// with the time of day as the fraction. Serial 60 is Excel's phantom 1900-02-29, kept so
+// serials match files produced by Excel.
+
+const MS_PER_DAY = 86400000;
+const EPOCH = Date.UTC(1899, 11, 30);
+
+export const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** Serial of a calendar date; out-of-range months and days roll over (month 13 = January next year) */
+export function dateToSerial(year: number, month: number, day: number): number {
+  const days = Math.round((Date.UTC(year, month - 1, day) - EPOCH) / MS_PER_DAY);
+  return days < 61 ? days - 1 : days;
+}
+
+/** Fraction of a day for a time */
+export function timeToSerial(hours: number, minutes: number, seconds: number): number {
+  return (hours * 3600 + minutes * 60 + seconds) / 86400;
+}
+
+export type DateParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  /** Milliseconds past the second (for fractional-second formats) */
+  ms: number;
+  /** 0 = Sunday */
+  weekday: number;
+};
+
+/** Calendar fields of a serial (which must be >= 0) */
+export function serialToParts(serial: number): DateParts {
+  let whole = Math.floor(serial);
+  let ms = Math.round((serial - whole) * MS_PER_DAY);
+  if (ms >= MS_PER_DAY) { whole++; ms -= MS_PER_DAY; }
+  const time = {
+    hours: Math.floor(ms / 3600000),
+    minutes: Math.floor(ms / 60000) % 60,
+    seconds: Math.floor(ms / 1000) % 60,
+    ms: ms % 1000,
+  };
+  // Excel counts 1900-01-01 as a Sunday; (serial - 1) mod 7 agrees with the real calendar from March 1900 on
+  const weekday = (((whole - 1) % 7) + 7) % 7;
+  if (whole === 60) return { year: 1900, month: 2, day: 29, weekday, ...time };
+  const d = new Date(EPOCH + (whole < 60 ? whole + 1 : whole) * MS_PER_DAY);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday, ...time };
+}
+
+/** Days in a month (month 1-12) */
+export function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Today's serial, from the local clock */
+export function todaySerial(now = new Date()): number {
+  return dateToSerial(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+/** The current date and time as a serial, from the local clock */
+export function nowSerial(now = new Date()): number {
+  return todaySerial(now) + timeToSerial(now.getHours(), now.getMinutes(), now.getSeconds());
+}
+
+/** Month number for a full or abbreviated (3+ letters) month name */
+function monthFromName(name: string): number | null {
+  const lower = name.toLowerCase();
+  if (lower.length < 3) return null;
+  const i = MONTH_NAMES.findIndex(m => m.toLowerCase().startsWith(lower));
+  return i < 0 ? null : i + 1;
+}
+
+const TIME_RE = /^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?\s*([AaPp][Mm])?$/;
+
+function parseTime(s: string): number | null {
+  const m = s.trim().match(TIME_RE);
+  if (!m) return null;
+  let h = +m[1];
+  const min = +m[2], sec = m[3] ? +m[3] : 0;
+  if (m[4]) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (m[4].toUpperCase() === "PM" ? 12 : 0);
+  }
+  if (h > 23 || min > 59 || sec >= 60) return null;
+  return timeToSerial(h, min, sec);
+}
+
+function validDate(y: number, m: number, d: number): number | null {
+  if (m < 1 || m > 12 || d < 1 || d > daysInMonth(y, m) || y < 1900 || y > 9999) return null;
+  return dateToSerial(y, m, d);
+}
+
+/** Two-digit years: 00-29 are 2000s, 30-99 are 1900s (Excel's rule) */
+function fullYear(y: string) {
+  const n = +y;
+  if (y.length > 2) return n;
+  return n < 30 ? 2000 + n : 1900 + n;
+}
+
+/**
+ * Date part of a typed entry: 2024-01-15, 15/01/2024, 15-Jan-2024, 15 January 2024, Jan 15, 2024
+ * (numeric dates are month first, 01/15/2024, when `monthFirst`)
+ */
+function parseDatePart(s: string, monthFirst = false): number | null {
+  let m = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (m) return validDate(+m[1], +m[2], +m[3]);
+  m = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (m) return monthFirst ? validDate(fullYear(m[3]), +m[1], +m[2]) : validDate(fullYear(m[3]), +m[2], +m[1]);
+  m = s.match(/^(\d{1,2})[-\s]([A-Za-z]+)\.?[-\s,]+(\d{2}|\d{4})$/);
+  if (m) {
+    const month = monthFromName(m[2]);
+    return month ? validDate(fullYear(m[3]), month, +m[1]) : null;
+  }
+  m = s.match(/^([A-Za-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{2}|\d{4})$/);
+  if (m) {
+    const month = monthFromName(m[1]);
+    return month ? validDate(fullYear(m[3]), month, +m[2]) : null;
+  }
+  return null;
+}
+
+export type ParsedDate = { serial: number; kind: "date" | "time" | "datetime" };
+
+/**
+ * parseDateText(s, monthFirst?)
+ * - recognises typed dates and times (day-first for numeric dates, unless `monthFirst` as in
+ *   the US), returning the serial and whether the entry had a date, a time or both; null
+ *   when the text is not a date
+ */
+export function parseDateText(s: string, monthFirst = false): ParsedDate | null {
+  const t = s.trim();
+  if (!t || !/\d/.test(t)) return null;
+
+  const time = parseTime(t);
+  if (time !== null) return { serial: time, kind: "time" };
+
+  const date = parseDatePart(t, monthFirst);
+  if (date !== null) return { serial: date, kind: "date" };
+
+  // date followed by a time: "2024-01-15 10:30", "2024-01-15T10:30:00"
+  const m = t.match(/^(.*?\d)(?:\s+|T)(\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s*[AaPp][Mm])?)$/);
+  if (m) {
+    const d = parseDatePart(m[1], monthFirst);
+    const tm = parseTime(m[2]);
+    if (d !== null && tm !== null) return { serial: d + tm, kind: "datetime" };
+  }
+  return null;
+}
@@ -0,0 +1,108 @@
+// src/utils/definedNames.ts
+// Defined names (TaxRate, Sales...) for a cell or range, or for a formula such as a LAMBDA.
+// A name is saved with the sheet whose cells it covers; its scope decides whether other
+// sheets' formulas can use it too.
+
+import { getFormulaAst, mapReferences, parseRefWord, sameSheet } from "./formulaParser";
+import { formulaError } from "./formulaValues";
+import type { RangeRef } from "./formulaValues";
+
+export type NameScope = "workbook" | "sheet";
+
+export type DefinedName = {
+  name: string;
+  /**
+   * Cells on the defining sheet, as reference text ("$B$2:$B$10"); "#REF!" once they're deleted.
+   * Anything else is a formula without its "=" (LAMBDA(x, x * 2), 0.2), evaluated where it's used.
+   */
+  ref: string;
+  scope: NameScope;
+};
+
+/** A sheet's names, as the lookup helpers take them */
+export type NamedSheet = { name: string; names?: DefinedName[] };
+
+/** What a name stands for: cells, or formula text (its references qualified for the using sheet) */
+export type NameTarget = { ref: RangeRef } | { formula: string };
+
+/** Letters, digits, `_` and `.`, not starting with a digit and not readable as a cell reference */
+export function isValidName(name: string) {
+  return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name)
+    && !parseRefWord(name)
+    && !/^R\d*C\d*$/i.test(name)
+    && !/^(TRUE|FALSE)$/i.test(name);
+}
+
+/** Names compare case-insensitively, as in Excel */
+export function findName(names: DefinedName[] | undefined, name: string): DefinedName | undefined {
+  const key = name.toLowerCase();
+  return names?.find(n => n.name.toLowerCase() === key);
+}
+
+/** Cells of a name's reference text (A1 or A1:B3, no sheet prefix), or null when it isn't one */
+export function parseNameRef(ref: string): RangeRef | null {
+  let ast;
+  try {
+    ast = getFormulaAst(`=${ref}`);
+  } catch {
+    return null;
+  }
+  if (ast.type === "ref" && ast.sheet === undefined) {
+    return { top: ast.ref.row, left: ast.ref.col, bottom: ast.ref.row, right: ast.ref.col };
+  }
+  if (ast.type === "range" && ast.sheet === undefined) {
+    return {
+      top: Math.min(ast.start.row, ast.end.row),
+      left: Math.min(ast.start.col, ast.end.col),
+      bottom: Math.max(ast.start.row, ast.end.row),
+      right: Math.max(ast.start.col, ast.end.col),
+    };
+  }
+  return null;
+}
+
+/**
+ * Apply a formula rewrite (spliceReferences, moveReferences...) to every name's reference,
+ * so names follow their cells the way formulas do
+ */
+export function rewriteNames(names: DefinedName[], rewrite: (raw: string) => string): DefinedName[] {
+  return names.map(n => {
+    const ref = rewrite(`=${n.ref}`).slice(1);
+    return ref === n.ref ? n : { ...n, ref };
+  });
+}
+
+/** True when a name's text is a usable formula (a reference or anything else that parses) */
+export function isValidNameFormula(ref: string) {
+  try {
+    getFormulaAst(`=${ref}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * resolveName(book, sheet, name)
+ * - what `name` stands for in formulas on `sheet`: a name of that sheet first, then a
+ *   workbook-scoped name of any sheet; cells carry the defining sheet's name, and a
+ *   formula's own references are qualified with it when used from another sheet
+ * - null when no visible name matches; throws #REF! when the name's cells were deleted
+ */
+export function resolveName(book: NamedSheet[], sheet: string, name: string): NameTarget | null {
+  const own = book.find(s => sameSheet(s.name, sheet));
+  let owner: NamedSheet | undefined = own;
+  let found = findName(own?.names, name);
+  for (const s of book) {
+    if (found) break;
+    const n = findName(s.names, name);
+    if (n?.scope === "workbook") { owner = s; found = n; }
+  }
+  if (!found || !owner) return null;
+  if (found.ref === "#REF!") throw formulaError("#REF!", `The cells of "${found.name}" were deleted`);
+  const ref = parseNameRef(found.ref);
+  if (ref) return { ref: { ...ref, sheet: owner.name } };
+  if (sameSheet(owner.name, sheet)) return { formula: found.ref };
+  const sheetName = owner.name;
+  return { formula: mapReferences(`=${found.ref}`, r => (r.sheet === undefined ? { ...r, sheet: sheetName } : r)).slice(1) };
+}
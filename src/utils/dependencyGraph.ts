@@ -0,0 +1,270 @@
+// src/utils/dependencyGraph.ts
+// Precedent/dependent bookkeeping for formula cells, so a change only recalculates
+// the cells that can actually be affected by it.
+
+import { collectReferences, getFormulaAst } from "./formulaParser";
+import type { Ast } from "./formulaParser";
+import { getFunction } from "./functionRegistry";
+
+export type DependencyGraph = {
+  /** formula cell -> cells its formula reads */
+  precedents: Map<string, Set<string>>;
+  /** cell -> formula cells that read it */
+  dependents: Map<string, Set<string>>;
+  /** formula cells calling a volatile function (OFFSET, INDIRECT...) or using a defined name, recalculated every time */
+  volatile: Set<string>;
+  /** formula cell -> the cells its array result spills into; each of them depends on the formula cell */
+  spills: Map<string, Set<string>>;
+};
+
+export function createDependencyGraph(): DependencyGraph {
+  return { precedents: new Map(), dependents: new Map(), volatile: new Set(), spills: new Map() };
+}
+
+/**
+ * True when the formula's inputs can't be read off it: it calls a volatile function, or uses
+ * a defined name (which may be redefined, or cover another sheet's cells), including a call
+ * to a function that isn't built in (a named LAMBDA). `locals` are names bound by LET and
+ * LAMBDA around the expression, which are not defined names.
+ */
+function callsVolatile(ast: Ast, locals: ReadonlySet<string> = new Set()): boolean {
+  const walk = (node: Ast) => callsVolatile(node, locals);
+  switch (ast.type) {
+    case "name":
+      return !locals.has(ast.name.toLowerCase());
+    case "call": {
+      const spec = getFunction(ast.name);
+      if (!spec) return !locals.has(ast.name.toLowerCase()) || ast.args.some(walk);
+      if (ast.name === "LET" || ast.name === "LAMBDA") return bindsVolatile(ast.name, ast.args, locals);
+      return !!spec.volatile || ast.args.some(walk);
+    }
+    case "invoke":
+      return walk(ast.callee) || ast.args.some(walk);
+    case "unary":
+    case "percent":
+      return walk(ast.operand);
+    case "binary":
+      return walk(ast.left) || walk(ast.right);
+    default:
+      return false;
+  }
+}
+
+/** callsVolatile for LET (name, value pairs) and LAMBDA (parameters), whose names are locals */
+function bindsVolatile(fn: "LET" | "LAMBDA", args: Ast[], locals: ReadonlySet<string>): boolean {
+  const scope = new Set(locals);
+  for (let i = 0; i < args.length - 1; i += fn === "LET" ? 2 : 1) {
+    const arg = args[i];
+    if (arg.type === "name") scope.add(arg.name.toLowerCase());
+    if (fn === "LET" && args[i + 1] && callsVolatile(args[i + 1], scope)) return true;
+  }
+  return args.length > 0 && callsVolatile(args[args.length - 1], scope);
+}
+
+/** Parsed formula of a raw cell text (null for literals and unparsable formulas) */
+function formulaOf(raw: string | undefined): Ast | null {
+  if (!raw || raw[0] !== "=") return null;
+  try {
+    return getFormulaAst(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * setCellDependencies(graph, id, raw)
+ * - replaces the outgoing edges of `id` with the references found in `raw`
+ * - records whether the formula is volatile
+ */
+export function setCellDependencies(graph: DependencyGraph, id: string, raw: string | undefined) {
+  const old = graph.precedents.get(id);
+  if (old) {
+    for (const p of old) {
+      const deps = graph.dependents.get(p);
+      deps?.delete(id);
+      if (deps && deps.size === 0) graph.dependents.delete(p);
+    }
+    graph.precedents.delete(id);
+  }
+  graph.volatile.delete(id);
+
+  const ast = formulaOf(raw);
+  if (!ast) return;
+  if (callsVolatile(ast)) graph.volatile.add(id);
+  const refs = collectReferences(ast);
+  if (refs.length === 0) return;
+  graph.precedents.set(id, new Set(refs));
+  for (const p of refs) {
+    let deps = graph.dependents.get(p);
+    if (!deps) { deps = new Set(); graph.dependents.set(p, deps); }
+    deps.add(id);
+  }
+}
+
+/**
+ * setSpillDependencies(graph, id, spilled)
+ * - records that the cells `spilled` hold parts of the array result of `id`, so formulas
+ *   reading them recalculate after it
+ * - returns true when that differs from what was recorded before
+ */
+export function setSpillDependencies(graph: DependencyGraph, id: string, spilled: string[]): boolean {
+  const old = graph.spills.get(id) ?? new Set<string>();
+  if (old.size === spilled.length && spilled.every(c => old.has(c))) return false;
+  for (const c of old) {
+    graph.dependents.get(id)?.delete(c);
+    const pre = graph.precedents.get(c);
+    pre?.delete(id);
+    if (pre && pre.size === 0) graph.precedents.delete(c);
+  }
+  if (spilled.length === 0) {
+    graph.spills.delete(id);
+    return true;
+  }
+  graph.spills.set(id, new Set(spilled));
+  let deps = graph.dependents.get(id);
+  if (!deps) { deps = new Set(); graph.dependents.set(id, deps); }
+  for (const c of spilled) {
+    deps.add(c);
+    graph.precedents.set(c, new Set([id]));
+  }
+  return true;
+}
+
+/** Build a graph for every formula in the map, and for the spilled values it holds */
+export function buildDependencyGraph(cells: Record<string, { raw?: string; spillFrom?: string }>): DependencyGraph {
+  const graph = createDependencyGraph();
+  const spilled = new Map<string, string[]>();
+  for (const [id, cell] of Object.entries(cells)) {
+    setCellDependencies(graph, id, cell?.raw);
+    if (cell?.spillFrom !== undefined && cell.raw == null) {
+      spilled.set(cell.spillFrom, [...(spilled.get(cell.spillFrom) ?? []), id]);
+    }
+  }
+  for (const [anchor, ids] of spilled) setSpillDependencies(graph, anchor, ids);
+  return graph;
+}
+
+/** Cells the formula in `id` reads directly */
+export function getPrecedents(graph: DependencyGraph, id: string): string[] {
+  return [...(graph.precedents.get(id) ?? [])];
+}
+
+/**
+ * getDependents(graph, id, transitive?)
+ * - formula cells that read `id`; with transitive=true, everything downstream of it
+ */
+export function getDependents(graph: DependencyGraph, id: string, transitive = false): string[] {
+  if (!transitive) return [...(graph.dependents.get(id) ?? [])];
+  return [...collectDownstream(graph, [id])].filter(d => d !== id);
+}
+
+/** The given ids plus every cell that (transitively) depends on any of them */
+export function collectDownstream(graph: DependencyGraph, ids: Iterable<string>): Set<string> {
+  const seen = new Set<string>();
+  const stack = [...ids];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const d of graph.dependents.get(id) ?? []) if (!seen.has(d)) stack.push(d);
+  }
+  return seen;
+}
+
+/**
+ * topologicalOrder(graph, ids)
+ * - orders `ids` so every cell comes after the cells it reads (Kahn's algorithm)
+ * - ids that sit on (or behind) a cycle cannot be ordered and are returned in `cyclic`
+ */
+export function topologicalOrder(graph: DependencyGraph, ids: Set<string>): { order: string[]; cyclic: string[] } {
+  const indegree = new Map<string, number>();
+  for (const id of ids) {
+    let n = 0;
+    for (const p of graph.precedents.get(id) ?? []) if (ids.has(p)) n++;
+    indegree.set(id, n);
+  }
+
+  const queue: string[] = [];
+  for (const [id, n] of indegree) if (n === 0) queue.push(id);
+
+  const order: string[] = [];
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    order.push(id);
+    for (const d of graph.dependents.get(id) ?? []) {
+      if (!indegree.has(d)) continue;
+      const n = indegree.get(d)! - 1;
+      indegree.set(d, n);
+      if (n === 0) queue.push(d);
+    }
+  }
+
+  const cyclic = order.length === ids.size ? [] : [...ids].filter(id => indegree.get(id)! > 0);
+  return { order, cyclic };
+}
+
+/**
+ * cycleGroups(graph, ids)
+ * - splits the cells topologicalOrder could not order into strongly connected groups,
+ *   returned in calculation order (a group comes after every group it reads from)
+ * - a group is a real cycle when it has more than one cell or a cell reads itself
+ * - iterative Tarjan, so long chains behind a cycle can't overflow the stack
+ */
+export function cycleGroups(graph: DependencyGraph, ids: string[]): string[][] {
+  const inSet = new Set(ids);
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const groups: string[][] = [];
+  let counter = 0;
+
+  const successors = (id: string) => [...(graph.dependents.get(id) ?? [])].filter(d => inSet.has(d));
+
+  for (const root of ids) {
+    if (index.has(root)) continue;
+    const work: Array<{ id: string; next: string[]; i: number }> = [];
+    const visit = (id: string) => {
+      index.set(id, counter);
+      low.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+      work.push({ id, next: successors(id), i: 0 });
+    };
+    visit(root);
+
+    while (work.length) {
+      const frame = work[work.length - 1];
+      if (frame.i < frame.next.length) {
+        const d = frame.next[frame.i++];
+        if (!index.has(d)) visit(d);
+        else if (onStack.has(d)) low.set(frame.id, Math.min(low.get(frame.id)!, index.get(d)!));
+        continue;
+      }
+      work.pop();
+      if (work.length) {
+        const parent = work[work.length - 1].id;
+        low.set(parent, Math.min(low.get(parent)!, low.get(frame.id)!));
+      }
+      if (low.get(frame.id) === index.get(frame.id)) {
+        const group: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          group.push(member);
+        } while (member !== frame.id);
+        groups.push(group);
+      }
+    }
+  }
+
+  // Tarjan emits groups downstream-first; calculation needs upstream-first
+  return groups.reverse();
+}
+
+/** True when a strongly connected group is an actual circular reference */
+export function isCycle(graph: DependencyGraph, group: string[]) {
+  return group.length > 1 || !!graph.precedents.get(group[0])?.has(group[0]);
+}
@@ -0,0 +1,125 @@
+// src/utils/formulaAudit.test.ts
+// Formula auditing: the arrows of Trace Precedents / Trace Dependents, and the steps of
+// Evaluate Formula.
+
+import { describe, expect, it } from "vitest";
+import { buildDependencyGraph } from "./dependencyGraph";
+import { evaluateAndUpdate, evaluationSteps } from "./formulaEngine";
+import type { CellValue } from "./formulaEngine";
+import { dependentCells, evaluationText, precedentRanges, traceStep } from "./formulaAudit";
+import { getFormulaAst } from "./formulaParser";
+import type { TraceArrow } from "./formulaAudit";
+
+/** A calculated sheet from raw texts by cell id */
+function sheetOf(raws: Record<string, string>) {
+  const cells: Record<string, CellValue> = {};
+  for (const [id, raw] of Object.entries(raws)) cells[id] = { raw };
+  evaluateAndUpdate(cells);
+  return cells;
+}
+
+const ends = (arrows: TraceArrow[]) =>
+  arrows.map(a => `${a.kind[0]} ${a.from.top},${a.from.left}:${a.from.bottom},${a.from.right} -> ${a.to}`);
+
+describe("precedentRanges", () => {
+  it("lists the blocks a formula reads, another sheet's with their sheet", () => {
+    const cells = sheetOf({ A1: "1", A2: "2", B1: "=SUM(A1:A2)*Other!C3" });
+    expect(precedentRanges(cells, "B1")).toEqual([
+      { top: 0, left: 0, bottom: 1, right: 0, sheet: undefined },
+      { top: 2, left: 2, bottom: 2, right: 2, sheet: "Other" },
+    ]);
+    expect(precedentRanges(cells, "A1")).toEqual([]);
+  });
+});
+
+describe("dependentCells", () => {
+  it("finds the formulas reading a cell, directly, in a block or through a spill", () => {
+    const cells = sheetOf({ A1: "=SEQUENCE(3)", B1: "=A2*2", C1: "=SUM(A1#)", D1: "=A1:A3", E1: "5" });
+    const graph = buildDependencyGraph(cells);
+    expect(dependentCells(cells, "A2", graph).sort()).toEqual(["B1", "C1", "D1"]);
+    expect(dependentCells(cells, "E1", graph)).toEqual([]);
+  });
+
+  it("finds formulas reading a cell through a defined name", () => {
+    const cells = sheetOf({ A1: "4", B1: "=Total*2" });
+    const graph = buildDependencyGraph(cells);
+    const workbook = {
+      sheet: "Sheet1",
+      resolve: () => null,
+      names: (name: string) => (name.toLowerCase() === "total" ? { ref: { top: 0, left: 0, bottom: 0, right: 0 } } : null),
+    };
+    expect(dependentCells(cells, "A1", graph, workbook)).toEqual(["B1"]);
+  });
+});
+
+describe("traceStep", () => {
+  const cells = sheetOf({ A1: "1", A2: "=A1+1", A3: "=A2*2", B1: "=A1+A3" });
+  const graph = buildDependencyGraph(cells);
+
+  it("adds one level of precedents per step", () => {
+    const first = traceStep(cells, [], "A3", "precedent", graph);
+    expect(ends(first)).toEqual(["p 1,0:1,0 -> A3"]);
+    const second = traceStep(cells, first, "A3", "precedent", graph);
+    expect(ends(second)).toEqual(["p 1,0:1,0 -> A3", "p 0,0:0,0 -> A2"]);
+    expect(traceStep(cells, second, "A3", "precedent", graph)).toBe(second);
+  });
+
+  it("adds one level of dependents per step", () => {
+    const first = traceStep(cells, [], "A1", "dependent", graph);
+    expect(ends(first).sort()).toEqual(["d 0,0:0,0 -> A2", "d 0,0:0,0 -> B1"]);
+    const second = traceStep(cells, first, "A1", "dependent", graph);
+    expect(ends(second.slice(first.length))).toEqual(["d 1,0:1,0 -> A3"]);
+  });
+});
+
+describe("Evaluate Formula", () => {
+  /** The formula text after each step of the formula in B1 */
+  function texts(raws: Record<string, string>) {
+    const cells = sheetOf(raws);
+    const steps = evaluationSteps(cells, "B1");
+    const ast = getFormulaAst(raws.B1);
+    return steps.map((_, i) => evaluationText(ast, steps, i + 1).text);
+  }
+
+  it("works out the parts left to right, each after the parts inside it", () => {
+    expect(texts({ A1: "2", A2: "3", B1: "=A1*(A2+1)" })).toEqual(["=2*(A2+1)", "=2*(3+1)", "=2*4", "=8"]);
+  });
+
+  it("steps into the branch IF takes, and only that one", () => {
+    const raws = { A1: "5", A2: "3", A3: "7", B1: "=IF(A1>1,A2*2,A3+1)" };
+    expect(texts(raws)).toEqual([
+      "=IF(5>1, A2*2, A3+1)",
+      "=IF(TRUE, A2*2, A3+1)",
+      "=IF(TRUE, 3*2, A3+1)",
+      "=IF(TRUE, 6, A3+1)",
+      "=6",
+    ]);
+    expect(texts({ ...raws, A1: "0" }).slice(2)).toEqual(["=IF(FALSE, A2*2, 7+1)", "=IF(FALSE, A2*2, 8)", "=8"]);
+  });
+
+  it("steps into the fallback of IFERROR only when there is an error", () => {
+    expect(texts({ A1: "0", B1: "=IFERROR(1/A1,A2+1)" })).toEqual([
+      "=IFERROR(1/0, A2+1)",
+      "=IFERROR(#DIV/0!, A2+1)",
+      "=IFERROR(#DIV/0!, (blank)+1)",
+      "=IFERROR(#DIV/0!, 1)",
+      "=1",
+    ]);
+    expect(texts({ A1: "2", B1: "=IFERROR(1/A1,A2+1)" })).toEqual(["=IFERROR(1/2, A2+1)", "=IFERROR(0.5, A2+1)", "=0.5"]);
+  });
+
+  it("follows IFS and SWITCH to the case that matched", () => {
+    expect(texts({ A1: "2", B1: '=IFS(A1=1,"one",A1=2,"two")' })).toEqual([
+      '=IFS(2=1, "one", A1=2, "two")',
+      '=IFS(FALSE, "one", A1=2, "two")',
+      '=IFS(FALSE, "one", 2=2, "two")',
+      '=IFS(FALSE, "one", TRUE, "two")',
+      '="two"',
+    ]);
+    expect(texts({ A1: "2", A2: "9", B1: "=SWITCH(A1,1,A2,2,A2*2)" }).slice(1)).toEqual([
+      "=SWITCH(2, 1, A2, 2, 9*2)",
+      "=SWITCH(2, 1, A2, 2, 18)",
+      "=18",
+    ]);
+  });
+});
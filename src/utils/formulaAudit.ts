@@ -0,0 +1,233 @@
+// src/utils/formulaAudit.ts
+// Formula auditing: the arrows drawn by Trace Precedents / Trace Dependents, and the
+// formula text shown at each step of Evaluate Formula.
+
+import { getDependents } from "./dependencyGraph";
+import type { DependencyGraph } from "./dependencyGraph";
+import type { CellValue, EvaluationStep, WorkbookContext } from "./formulaEngine";
+import { cellId, formatAst, getFormulaAst, parseId, sameSheet } from "./formulaParser";
+import type { Ast } from "./formulaParser";
+import { getFunction } from "./functionRegistry";
+import { isFormulaError } from "./formulaValues";
+import type { RangeRef, Scalar, Value } from "./formulaValues";
+
+/**
+ * An arrow over the grid, to the formula cell `to`: from cells its formula reads
+ * (precedent), or from a cell it reads (dependent, traced from that cell). `from.sheet`
+ * is set when those cells are on another sheet.
+ */
+export type TraceArrow = { kind: "precedent" | "dependent"; from: RangeRef; to: string };
+
+/** The 1x1 block of a cell id */
+function cellRange(id: string): RangeRef | null {
+  const p = parseId(id);
+  return p && { top: p.row, left: p.col, bottom: p.row, right: p.col };
+}
+
+function contains(range: RangeRef, row: number, col: number) {
+  return row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+}
+
+/** True for cells that read other cells: formulas, and the values spilled from one */
+function readsCells(cell: CellValue | undefined) {
+  return !!cell && (cell.raw?.[0] === "=" || (cell.spillFrom !== undefined && cell.raw == null));
+}
+
+/**
+ * precedentRanges(cells, id, workbook?)
+ * - the blocks of cells the formula in `id` reads: its references (A1, A1:B3, A1#) and the
+ *   cells behind the defined names it uses (looked up through `workbook`); a spilled value
+ *   reads the formula cell it comes from
+ * - blocks on the sheet itself have no `sheet`, however the formula wrote them
+ */
+export function precedentRanges(cells: Record<string, CellValue>, id: string, workbook?: WorkbookContext): RangeRef[] {
+  const cell = cells[id];
+  if (cell?.spillFrom !== undefined && cell.raw == null) {
+    const anchor = cellRange(cell.spillFrom);
+    return anchor ? [anchor] : [];
+  }
+  if (!readsCells(cell)) return [];
+
+  const out = new Map<string, RangeRef>();
+  const add = (range: RangeRef) => {
+    const own = range.sheet === undefined || (!!workbook && sameSheet(range.sheet, workbook.sheet));
+    const r = own ? { ...range, sheet: undefined } : range;
+    out.set(`${r.sheet?.toLowerCase() ?? ""}!${r.top},${r.left}:${r.bottom},${r.right}`, r);
+  };
+  const named = new Set<string>(); // names already followed, so names using each other stop
+  const followName = (name: string) => {
+    const key = name.toLowerCase();
+    const target = named.has(key) ? null : workbook?.names?.(name);
+    named.add(key);
+    if (!target) return;
+    if ("ref" in target) add(target.ref);
+    else {
+      try {
+        walk(getFormulaAst(`=${target.formula}`));
+      } catch {
+        // a broken name reads nothing
+      }
+    }
+  };
+  const walk = (node: Ast): void => {
+    switch (node.type) {
+      case "ref":
+        add({ top: node.ref.row, left: node.ref.col, bottom: node.ref.row, right: node.ref.col, sheet: node.sheet });
+        break;
+      case "range":
+        add({
+          top: Math.min(node.start.row, node.end.row),
+          left: Math.min(node.start.col, node.end.col),
+          bottom: Math.max(node.start.row, node.end.row),
+          right: Math.max(node.start.col, node.end.col),
+          sheet: node.sheet,
+        });
+        break;
+      case "spill": {
+        // the spilled block when it's known here, else the formula cell it spills from
+        const { row, col } = node.ref;
+        const spill = node.sheet === undefined ? cells[cellId(row, col)]?.spill : undefined;
+        add({ top: row, left: col, bottom: row + (spill?.rows ?? 1) - 1, right: col + (spill?.cols ?? 1) - 1, sheet: node.sheet });
+        break;
+      }
+      case "name":
+        followName(node.name);
+        break;
+      case "unary":
+      case "percent":
+        walk(node.operand);
+        break;
+      case "binary":
+        walk(node.left);
+        walk(node.right);
+        break;
+      case "call":
+        if (!getFunction(node.name)) followName(node.name); // a named LAMBDA
+        node.args.forEach(walk);
+        break;
+      case "invoke":
+        walk(node.callee);
+        node.args.forEach(walk);
+        break;
+    }
+  };
+  try {
+    walk(getFormulaAst(cell!.raw!));
+  } catch {
+    return [];
+  }
+  return [...out.values()];
+}
+
+/**
+ * dependentCells(cells, id, graph, workbook?)
+ * - formula cells of the sheet that read `id`: its dependents in `graph` (the sheet's
+ *   dependency graph), those of the formula it spills from (read through A1#), and the
+ *   formulas the graph can't see into (defined names, OFFSET...) whose blocks cover it
+ */
+export function dependentCells(
+  cells: Record<string, CellValue>,
+  id: string,
+  graph: DependencyGraph,
+  workbook?: WorkbookContext
+): string[] {
+  const p = parseId(id);
+  if (!p) return [];
+  const anchor = cells[id]?.spillFrom;
+  const candidates = new Set([
+    ...getDependents(graph, id),
+    ...(anchor !== undefined ? getDependents(graph, anchor) : []),
+    ...graph.volatile,
+  ]);
+  return [...candidates].filter(other =>
+    other !== id
+    && cells[other]?.raw?.[0] === "="
+    && precedentRanges(cells, other, workbook).some(r => r.sheet === undefined && contains(r, p.row, p.col)));
+}
+
+/**
+ * traceStep(cells, arrows, id, kind, graph, workbook?)
+ * - Trace Precedents / Trace Dependents with `id` selected: adds the arrows of `id`, or when
+ *   they are drawn already, the next level: the arrows of the formula cells the precedent
+ *   arrows start from, or of the cells the dependent arrows point at
+ * - `graph` is the sheet's dependency graph, where the cells reading others are looked up
+ * - returns `arrows` itself when there is nothing more to trace
+ */
+export function traceStep(
+  cells: Record<string, CellValue>,
+  arrows: TraceArrow[],
+  id: string,
+  kind: TraceArrow["kind"],
+  graph: DependencyGraph,
+  workbook?: WorkbookContext
+): TraceArrow[] {
+  const drawn = arrows.filter(a => a.kind === kind);
+  // cells whose arrows of this kind are drawn
+  const traced = new Set(drawn.map(a => (kind === "precedent" ? a.to : `${a.from.top},${a.from.left}`)));
+  const isTraced = (c: string) => {
+    if (kind === "precedent") return traced.has(c);
+    const p = parseId(c);
+    return !!p && traced.has(`${p.row},${p.col}`);
+  };
+
+  let frontier: string[];
+  if (!isTraced(id)) frontier = [id];
+  else if (kind === "precedent") {
+    const sources = drawn.filter(a => a.from.sheet === undefined).map(a => a.from);
+    const reading = new Set([...graph.precedents.keys(), ...graph.volatile]);
+    frontier = [...reading].filter(c => {
+      const p = parseId(c);
+      return !!p && readsCells(cells[c]) && !isTraced(c) && sources.some(r => contains(r, p.row, p.col));
+    });
+  } else frontier = [...new Set(drawn.map(a => a.to))].filter(c => !isTraced(c));
+
+  const added: TraceArrow[] = [];
+  for (const c of frontier) {
+    if (kind === "precedent") {
+      for (const from of precedentRanges(cells, c, workbook)) added.push({ kind, from, to: c });
+    } else {
+      const from = cellRange(c);
+      if (from) for (const d of dependentCells(cells, c, graph, workbook)) added.push({ kind, from, to: d });
+    }
+  }
+  return added.length ? [...arrows, ...added] : arrows;
+}
+
+/** Largest block printed in full by Evaluate Formula */
+const SHOWN_ROWS = 3;
+const SHOWN_COLS = 5;
+
+/** A value as Evaluate Formula writes it into formula text */
+function valueText(v: Value): string {
+  const scalar = (s: Scalar) => {
+    if (s === null) return "(blank)";
+    if (isFormulaError(s)) return s.error;
+    if (typeof s === "string") return `"${s.replace(/"/g, '""')}"`;
+    if (typeof s === "boolean") return s ? "TRUE" : "FALSE";
+    return String(s);
+  };
+  if (!Array.isArray(v)) return scalar(v);
+  if (v.length === 1 && v[0].length === 1) return scalar(v[0][0]);
+  const rows = v.slice(0, SHOWN_ROWS).map(row =>
+    row.slice(0, SHOWN_COLS).map(scalar).join(",") + (row.length > SHOWN_COLS ? ",…" : ""));
+  return `{${rows.join(";")}${v.length > SHOWN_ROWS ? ";…" : ""}}`;
+}
+
+/**
+ * evaluationText(ast, steps, done)
+ * - the formula as Evaluate Formula shows it once the first `done` steps were worked out:
+ *   each part evaluated so far replaced by its value
+ * - `next` is where the part of the next step sits in that text (null when all are done)
+ */
+export function evaluationText(
+  ast: Ast,
+  steps: EvaluationStep[],
+  done: number
+): { text: string; next: { from: number; to: number } | null } {
+  const values = new Map(steps.slice(0, done).map(s => [s.node, s.value]));
+  const spans = new Map<Ast, { from: number; to: number }>();
+  const text = formatAst(ast, node => (values.has(node) ? valueText(values.get(node)!) : undefined), spans);
+  const next = done < steps.length ? spans.get(steps[done].node) : undefined;
+  // shown with its "=", one character further
+  return { text: `=${text}`, next: next ? { from: next.from + 1, to: next.to + 1 } : null };
+}
@@ -0,0 +1,70 @@
+// src/utils/formulaEngine.test.ts
+// Array formulas: functions given arrays where they take single values work element by
+// element, and the results spill.
+
+import { describe, expect, it } from "vitest";
+import { evaluateAndUpdate } from "./formulaEngine";
+import type { CellValue } from "./formulaEngine";
+import { cellId, parseId } from "./formulaParser";
+import { isFormulaError } from "./formulaValues";
+import type { Value } from "./formulaValues";
+
+const errorOf = (v: Value | undefined) => (isFormulaError(v) ? v.error : null);
+
+/** A calculated sheet with A1:A3 = 1, 2, 3 and B1:B3 = "a", "bb", "ccc", plus `raws` */
+function sheet(raws: Record<string, string>) {
+  const cells: Record<string, CellValue> = {};
+  const all = { A1: "1", A2: "2", A3: "3", B1: "a", B2: "bb", B3: "ccc", ...raws };
+  for (const [id, raw] of Object.entries(all)) cells[id] = { raw };
+  evaluateAndUpdate(cells);
+  return cells;
+}
+
+/** Values of the block between two cells, row by row */
+function block(cells: Record<string, CellValue>, from: string, to: string) {
+  const a = parseId(from)!, b = parseId(to)!;
+  const rows: Value[][] = [];
+  for (let r = a.row; r <= b.row; r++) {
+    const row: Value[] = [];
+    for (let c = a.col; c <= b.col; c++) row.push(cells[cellId(r, c)]?.value ?? null);
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe("array arguments", () => {
+  it("broadcasts IF over an array condition", () => {
+    const cells = sheet({ D1: '=IF(A1:A3>1,"y","n")' });
+    expect(block(cells, "D1", "D3")).toEqual([["n"], ["y"], ["y"]]);
+  });
+
+  it("picks branch values element by element", () => {
+    const cells = sheet({ D1: "=IF(A1:A3>=2,A1:A3*10,B1:B3)" });
+    expect(block(cells, "D1", "D3")).toEqual([["a"], [20], [30]]);
+  });
+
+  it("broadcasts functions taking single values", () => {
+    const cells = sheet({ D1: "=LEN(B1:B3)", E1: "=ROUND(A1:A3/3,2)", F1: '=CHOOSE(A1:A3,"x","y","z")' });
+    expect(block(cells, "D1", "D3")).toEqual([[1], [2], [3]]);
+    expect(block(cells, "E1", "E3")).toEqual([[0.33], [0.67], [1]]);
+    expect(block(cells, "F1", "F3")).toEqual([["x"], ["y"], ["z"]]);
+  });
+
+  it("stretches a single row or column against a block, like array arithmetic", () => {
+    const cells = sheet({ F1: "1", G1: "2", D1: "=POWER(A1:A3,F1:G1)" });
+    expect(block(cells, "D1", "E3")).toEqual([[1, 1], [2, 4], [3, 9]]);
+  });
+
+  it("keeps errors in their own element", () => {
+    const cells = sheet({ D1: '=IFERROR(1/(A1:A3-2),"-")', E1: "=SQRT(A1:A3-2)" });
+    expect(block(cells, "D1", "D3")).toEqual([[-1], ["-"], [1]]);
+    expect(errorOf(cells.E1.value)).toBe("#NUM!");
+    expect(block(cells, "E2", "E3")).toEqual([[0], [1]]);
+  });
+
+  it("leaves arguments that take ranges whole", () => {
+    const cells = sheet({ D1: "=SUM(A1:A3)", E1: "=MATCH(A1:A2+1,A1:A3,0)" });
+    expect(cells.D1.value).toBe(6);
+    expect(block(cells, "E1", "E2")).toEqual([[2], [3]]);
+  });
+});
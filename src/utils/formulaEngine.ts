@@ -1,50 +1,104 @@
 // src/utils/formulaEngine.ts
-// Simple formula engine for the Excel clone.
-// Not a full Excel parser — small, practical evaluator for prototypes.
+// Formula engine for the Excel clone.
+// Formulas are parsed once into an AST (see formulaParser.ts) and interpreted here —
+// no generated JavaScript is ever executed.
+
+import { cellId, getFormulaAst, parseId, sameSheet } from "./formulaParser";
+import type { Ast, BinaryOp } from "./formulaParser";
+import {
+  checkError,
+  checkNumber,
+  compareScalars,
+  formulaError,
+  isFormulaError,
+  isLambda,
+  toNumber,
+  toMatrix,
+  toScalar,
+  toText,
+} from "./formulaValues";
+import type { ErrorCode, FormulaError, RangeRef, Scalar, Value } from "./formulaValues";
+import {
+  buildDependencyGraph,
+  collectDownstream,
+  cycleGroups,
+  isCycle,
+  setCellDependencies,
+  setSpillDependencies,
+  topologicalOrder,
+} from "./dependencyGraph";
+import type { DependencyGraph } from "./dependencyGraph";
+import { argTypeAt, getFunction } from "./functionRegistry";
+import type { ArgType, FunctionContext, FunctionSpec, WhatIfInput } from "./functionRegistry";
+import type { NameTarget } from "./definedNames";
+
+export type { DependencyGraph } from "./dependencyGraph";
+export { createDependencyGraph, buildDependencyGraph, getDependents, getPrecedents } from "./dependencyGraph";
+export type { ErrorCode, FormulaError } from "./formulaValues";
+export { isFormulaError, valueToText } from "./formulaValues";
 
 export type CellValue = {
   raw?: string;           // what user typed (e.g. "123", "=A1+B2", "hello")
-  value?: string | number; // computed value for display (number or string)
+  value?: string | number | boolean | FormulaError; // computed value for display
+  /** On a formula returning an array: the size of the block it spills into (blocked: it shows #SPILL!) */
+  spill?: { rows: number; cols: number; blocked?: boolean };
+  /** On a cell holding part of another formula's array: that formula cell (there is no raw of its own) */
+  spillFrom?: string;
 };
 
-const CELL_REF_RE = /\b([A-Z]+[1-9][0-9]*)\b/g;
-const RANGE_RE = /([A-Z]+[1-9][0-9]*):([A-Z]+[1-9][0-9]*)/g;
-const SUM_FN_RE = /SUM\s*\(/i;
-
-/** Convert column letters (A, B, ..., Z, AA, AB...) to 0-based index */
-function colNameToIndex(name: string) {
-  let col = 0;
-  for (let i = 0; i < name.length; i++) col = col * 26 + (name.charCodeAt(i) - 64);
-  return col - 1;
-}
-/** Parse A1 style id -> {row, col} 0-based */
-function parseId(id: string) {
-  const m = id.match(/^([A-Z]+)(\d+)$/);
-  if (!m) return null;
-  return { col: colNameToIndex(m[1]), row: parseInt(m[2], 10) - 1 };
-}
-/** Generate id from r,c */
-function cellId(r: number, c: number) {
-  let s = "";
-  let n = c + 1;
-  while (n > 0) {
-    const rem = (n - 1) % 26;
-    s = String.fromCharCode(65 + rem) + s;
-    n = Math.floor((n - 1) / 26);
-  }
-  return `${s}${r + 1}`;
-}
-
-/** Expand A1:B3 into array of ids */
-function expandRange(a: string, b: string) {
-  const pa = parseId(a);
-  const pb = parseId(b);
-  if (!pa || !pb) return [];
-  const r1 = Math.min(pa.row, pb.row), r2 = Math.max(pa.row, pb.row);
-  const c1 = Math.min(pa.col, pb.col), c2 = Math.max(pa.col, pb.col);
-  const out: string[] = [];
-  for (let r = r1; r <= r2; r++) for (let c = c1; c <= c2; c++) out.push(cellId(r, c));
-  return out;
+/** Error code for every cell of a circular reference when iterative calculation is off */
+export const CIRCULAR_ERROR: ErrorCode = "#CIRC!";
+
+/** Workbook-level calculation settings */
+export type CalcOptions = {
+  /** Resolve circular references by iterating instead of flagging them */
+  iterative?: boolean;
+  /** Iteration cap per cycle (Excel's default is 100) */
+  maxIterations?: number;
+  /** Stop iterating once no value in the cycle moves by more than this (default 0.001) */
+  maxChange?: number;
+  /** Seed for RAND/RANDBETWEEN, so every recalc draws the same numbers; null uses Math.random */
+  seed?: number | null;
+};
+
+export const DEFAULT_CALC_OPTIONS: Required<CalcOptions> = {
+  iterative: false,
+  maxIterations: 100,
+  maxChange: 0.001,
+  seed: null,
+};
+
+/** The workbook around the sheet being calculated, for references like Sheet2!A1 */
+export type WorkbookContext = {
+  /** Name of the sheet being calculated; references qualified with it read its own cells */
+  sheet: string;
+  /** Cells of another sheet by name, or null when the workbook has no such sheet */
+  resolve: (name: string) => Record<string, CellValue> | null;
+  /** What a defined name (TaxRate, Sales, a LAMBDA...) stands for on this sheet, or null when there is none */
+  names?: (name: string) => NameTarget | null;
+  /** Cells of this sheet on a circular reference through other sheets, with its message (see workbook.ts) */
+  circular?: () => Map<string, string>;
+};
+
+/** Deterministic generator of numbers in [0, 1) (mulberry32) */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Literal (non-formula) cell text -> stored value: a number, TRUE/FALSE (any case), or text */
+function literalValue(raw: string | undefined): string | number | boolean {
+  const word = String(raw ?? "").trim().toUpperCase();
+  if (word === "TRUE" || word === "FALSE") return word === "TRUE";
+  const n = Number(raw);
+  if (!Number.isNaN(n) && String(raw ?? "").trim() !== "") return n;
+  return raw ?? "";
 }
 
 /**
@@ -53,127 +107,823 @@ function expandRange(a: string, b: string) {
  * - does NOT perform full dependency evaluation itself (call evaluateAndUpdate afterwards)
  */
 export function setCellRaw(cells: Record<string, CellValue>, id: string, raw: string) {
-  if (!cells[id]) cells[id] = {};
-  cells[id].raw = raw;
+  // typing over a spilled value makes the cell its own (and blocks the spill)
+  cells[id] = { ...cells[id], raw, spillFrom: undefined };
   // immediate quick set for non-formulas:
   if (!raw || raw[0] !== "=") {
     // plain number or text
-    const n = Number(raw);
-    if (!Number.isNaN(n) && String(raw).trim() !== "") cells[id].value = n;
-    else cells[id].value = raw ?? "";
+    cells[id].value = literalValue(raw);
   } else {
-    // formula placeholder — we will compute in evaluateAndUpdate
-    cells[id].value = "";
+    // formula: keeps showing the cell's last value until evaluateAndUpdate computes it
+    cells[id].value = cells[id].value ?? "";
+  }
+}
+
+/* ---------------- interpreter ---------------- */
+
+type EvalContext = {
+  /** Current value of a cell (null when blank); `sheet` is set for another sheet's cell */
+  getCell: (row: number, col: number, sheet?: string) => Scalar;
+  /** Position of the formula cell being calculated */
+  row: number;
+  col: number;
+  /** Source of random numbers for this recalc */
+  random: () => number;
+  /** What a defined name stands for, or null when the name is unknown */
+  name: (name: string) => NameTarget | null;
+  /** Block spilled from the formula at (row, col) (A1#); throws when there is none */
+  spillRange: (row: number, col: number, sheet?: string) => RangeRef;
+  /** Local names bound by LET and LAMBDA (lower-case keys); they hide defined names */
+  scope?: Record<string, Value>;
+  /** FunctionContext.whatIf, asked by the formula in `from` (which isn't worked out again) */
+  whatIf: (row: number, col: number, inputs: WhatIfInput[], from: string) => Value;
+  /** The same for a formula that is in no cell (evaluated as if typed into A1) */
+  whatIfFormula: (ast: Ast, inputs: WhatIfInput[]) => Value;
+  /** Told of each argument of a lazy function (IF...) that gets evaluated, for Evaluate Formula */
+  lazyArg?: (call: Ast, arg: number) => void;
+};
+
+function applyBinary(op: BinaryOp, a: Scalar, b: Scalar): Scalar {
+  // the left-most error operand wins, as in Excel
+  checkError(a);
+  checkError(b);
+  switch (op) {
+    case "+": return checkNumber(toNumber(a) + toNumber(b));
+    case "-": return checkNumber(toNumber(a) - toNumber(b));
+    case "*": return checkNumber(toNumber(a) * toNumber(b));
+    case "/": {
+      const d = toNumber(b);
+      if (d === 0) throw formulaError("#DIV/0!", "Division by zero");
+      return toNumber(a) / d;
+    }
+    case "^": return checkNumber(Math.pow(toNumber(a), toNumber(b)));
+    case "&": return toText(a) + toText(b);
+    case "=": return compareScalars(a, b) === 0;
+    case "<>": return compareScalars(a, b) !== 0;
+    case "<": return compareScalars(a, b) < 0;
+    case ">": return compareScalars(a, b) > 0;
+    case "<=": return compareScalars(a, b) <= 0;
+    case ">=": return compareScalars(a, b) >= 0;
   }
 }
 
 /**
- * evaluateAndUpdate(cells, changedId?)
- *
- * Basic algorithm:
- * - Recalculate formulas repeatedly until no changes or until max iterations (to handle simple dependencies).
- * - Formula handling:
- *    - Replace SUM(range) with computed numeric sum.
- *    - Replace cell refs like A1 with their numeric value (or 0 if not numeric)
- *    - Evaluate final arithmetic expression using Function (a controlled eval)
- * - Non-numeric results are returned as strings.
- *
- * Note: This is intentionally small — it's not a full Excel engine. Use with care.
+ * Apply `f` element by element when either operand is an array, as Excel's array arithmetic
+ * does: a single row, column or value stretches to the other operand's size, and positions
+ * outside a smaller array are #N/A. Errors stay in their own element.
  */
-export function evaluateAndUpdate(cells: Record<string, CellValue>, _changedId?: string) {
-  // helper to get numeric value for a cell (used in expressions)
-  const getNumeric = (id: string) => {
-    const v = cells[id]?.value;
-    if (v == null) return 0;
-    if (typeof v === "number") return v;
-    const n = Number(v);
-    return Number.isNaN(n) ? 0 : n;
+function elementwise(a: Value, b: Value, f: (x: Scalar, y: Scalar) => Scalar): Value {
+  if (!Array.isArray(a) && !Array.isArray(b)) return f(a, b);
+  const { rows, cols } = broadcastSize([a, b]);
+  return arrayOf(rows, cols, (r, c) => f(elementAt(a, r, c), elementAt(b, r, c)));
+}
+
+/** Size of the array element-wise operations over `values` make: the largest rows and columns */
+function broadcastSize(values: Value[]): { rows: number; cols: number } {
+  const ms = values.map(toMatrix);
+  return { rows: Math.max(...ms.map(m => m.length)), cols: Math.max(...ms.map(m => m[0].length)) };
+}
+
+/** Element (r, c) of a value stretched to a broadcast size (see elementwise) */
+function elementAt(v: Value, r: number, c: number): Scalar {
+  const m = toMatrix(v);
+  const row = m.length === 1 ? m[0] : m[r];
+  const x = row?.[row.length === 1 ? 0 : c];
+  return x === undefined ? formulaError("#N/A", "The arrays are different sizes") : x;
+}
+
+/** A rows x cols array of f(r, c), an error thrown for an element kept in it; 1x1 is its one value */
+function arrayOf(rows: number, cols: number, f: (r: number, c: number) => Value): Value {
+  const out = Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c): Scalar => {
+      try {
+        const v = f(r, c);
+        // an element can't hold an array: its first value stands for it
+        return Array.isArray(v) ? v[0]?.[0] ?? null : v;
+      } catch (e) {
+        if (isFormulaError(e)) return e;
+        throw e;
+      }
+    })
+  );
+  return rows === 1 && cols === 1 ? out[0][0] : out;
+}
+
+/**
+ * Evaluate an expression, turning a thrown error value back into a value.
+ * Used wherever an error must be observable rather than abort the whole formula.
+ */
+function evaluateToValue(ast: Ast, ctx: EvalContext): Value {
+  try {
+    return evaluateAst(ast, ctx);
+  } catch (e) {
+    if (isFormulaError(e)) return e;
+    throw e;
+  }
+}
+
+/** Values of a block of cells */
+function readRange(ref: RangeRef, ctx: EvalContext): Scalar[][] {
+  const rows: Scalar[][] = [];
+  for (let r = ref.top; r <= ref.bottom; r++) {
+    const row: Scalar[] = [];
+    for (let c = ref.left; c <= ref.right; c++) row.push(ctx.getCell(r, c, ref.sheet));
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** A reference's values: a single cell reads as a scalar, anything larger as a block */
+function dereference(ref: RangeRef, ctx: EvalContext): Value {
+  if (ref.top === ref.bottom && ref.left === ref.right) return ctx.getCell(ref.top, ref.left, ref.sheet);
+  return readRange(ref, ctx);
+}
+
+/** Cells an expression refers to (A1, A1:B3, A1#, a name, OFFSET(...)), or null when it is not a reference */
+function evaluateReference(ast: Ast, ctx: EvalContext): RangeRef | null {
+  switch (ast.type) {
+    case "ref":
+      return { top: ast.ref.row, left: ast.ref.col, bottom: ast.ref.row, right: ast.ref.col, sheet: ast.sheet };
+    case "range":
+      return {
+        top: Math.min(ast.start.row, ast.end.row),
+        left: Math.min(ast.start.col, ast.end.col),
+        bottom: Math.max(ast.start.row, ast.end.row),
+        right: Math.max(ast.start.col, ast.end.col),
+        sheet: ast.sheet,
+      };
+    case "spill":
+      return ctx.spillRange(ast.ref.row, ast.ref.col, ast.sheet);
+    case "name": {
+      if (ctx.scope && ast.name.toLowerCase() in ctx.scope) return null;
+      const target = ctx.name(ast.name);
+      if (!target) throw formulaError("#NAME?", `Unknown name "${ast.name}"`);
+      if ("ref" in target) return target.ref;
+      return evaluateReference(getFormulaAst(`=${target.formula}`), { ...ctx, scope: undefined });
+    }
+    case "call": {
+      const spec = getFunction(ast.name);
+      if (!spec?.reference) return null;
+      const { args, fctx } = evaluateArgs(ast.name, spec, ast.args, ctx);
+      return spec.reference(args, fctx);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate a function argument according to its declared type (see ArgType); with `lift`,
+ * an array given for a single value is kept (the call broadcasts over it) instead of #VALUE!
+ */
+function evaluateArg(ast: Ast, type: ArgType, ctx: EvalContext, lift = false): { value: Value; ref: RangeRef | null } {
+  let ref: RangeRef | null;
+  try {
+    ref = evaluateReference(ast, ctx);
+  } catch (e) {
+    if (isFormulaError(e)) return { value: e, ref: null };
+    throw e;
+  }
+  if (type === "ref") {
+    return { value: ref ? null : formulaError("#VALUE!", "A cell reference is expected"), ref };
+  }
+  if (type === "range" && ref) return { value: readRange(ref, ctx), ref };
+  const value = ref ? dereference(ref, ctx) : evaluateToValue(ast, ctx);
+  if (type === "scalar" && Array.isArray(value)) {
+    if (lift) return { value: value.length === 1 && value[0].length === 1 ? value[0][0] : value, ref };
+    return { value: formulaError("#VALUE!", "A range was used where a single value is expected"), ref };
+  }
+  return { value, ref };
+}
+
+/** A wrong argument count is #VALUE! */
+function checkArity(name: string, spec: FunctionSpec, n: number) {
+  if (n >= spec.minArgs && (spec.maxArgs === undefined || n <= spec.maxArgs)) return;
+  const expected = spec.maxArgs === spec.minArgs
+    ? `${spec.minArgs}`
+    : spec.maxArgs === undefined ? `at least ${spec.minArgs}` : `${spec.minArgs} to ${spec.maxArgs}`;
+  throw formulaError("#VALUE!", `${name} expects ${expected} argument(s), got ${n}`);
+}
+
+/** What a function call knows besides its arguments (see FunctionContext) */
+function functionContext(ctx: EvalContext, argAsts: Ast[], refs: Array<RangeRef | null>): FunctionContext {
+  return {
+    row: ctx.row,
+    col: ctx.col,
+    random: ctx.random,
+    refs,
+    argNames: argNames(argAsts),
+    whatIf: (row, col, inputs = []) => ctx.whatIf(row, col, inputs, cellId(ctx.row, ctx.col)),
   };
+}
 
-  // Preprocess: replace SUM(range) occurrences and handle simple SUM calls.
-  // But we'll do dynamic per-formula processing below.
+/** Check the argument count, then evaluate every argument (`lift`: see evaluateArg) */
+function evaluateArgs(name: string, spec: FunctionSpec, argAsts: Ast[], ctx: EvalContext, lift = false) {
+  checkArity(name, spec, argAsts.length);
+  const evaluated = argAsts.map((a, i) => evaluateArg(a, argTypeAt(spec, i), ctx, lift));
+  return { args: evaluated.map(e => e.value), fctx: functionContext(ctx, argAsts, evaluated.map(e => e.ref)) };
+}
 
-  const keys = Object.keys(cells);
-  const maxIters = Math.max(10, keys.length * 2);
+function argNames(argAsts: Ast[]) {
+  return argAsts.map(a => (a.type === "name" ? a.name : null));
+}
 
-  for (let iter = 0; iter < maxIters; iter++) {
-    let anyChange = false;
+/** A context where `bindings` are visible as local names on top of the current ones */
+function withScope(ctx: EvalContext, bindings: Record<string, Value>): EvalContext {
+  const scope = { ...ctx.scope };
+  for (const [name, value] of Object.entries(bindings)) scope[name.toLowerCase()] = value;
+  return { ...ctx, scope };
+}
 
-    for (const id of keys) {
-      const raw = cells[id]?.raw ?? "";
-      if (!raw || raw[0] !== "=") continue; // only formulas
-
-      let expr = raw.slice(1).trim(); // remove leading '='
-
-      // Handle SUM(range1,range2, A1, 1, ...) style by scanning for SUM( ... )
-      // We'll replace SUM(...) with a numeric literal of the sum.
-      expr = expr.replace(SUM_FN_RE, (_m) => "SUM("); // normalize case but keep same text
-      // Evaluate SUM(...) by extracting inner until matching ) - simple approach:
-      // We'll repeatedly find RANGE_RE inside expr and expand them for any SUM or direct references.
-
-      // Replace ranges like A1:B3 inside the expression with an array-like sum expression:
-      expr = expr.replace(RANGE_RE, (_m, a, b) => {
-        const ids = expandRange(a, b);
-        // convert to a paren-wrapped sum of numeric values, e.g. (val(A1)+val(A2)+...)
-        return "(" + ids.map(i => `__VAL("${i}")`).join("+") + ")";
-      });
-
-      // Replace single cell refs with __VAL("A1")
-      expr = expr.replace(CELL_REF_RE, (_m, ref) => `__VAL("${ref}")`);
-
-      // Replace SUM(...) function calls now by evaluating inner which may contain __VAL tokens
-      // We'll use a small evaluator that handles __VAL and arithmetic.
-      // Implement helper __VAL inside the Function scope.
-
-      // Build safe function body:
-      const fnBody = `
-        const __VAL = (id) => {
-          const v = getNumeric(id);
-          return (typeof v === "number") ? v : 0;
-        };
-        try {
-          return (${expr});
-        } catch (e) {
-          return "";
-        }
-      `;
+/**
+ * Value of a name that isn't a reference: a LET/LAMBDA local, or a defined name's formula
+ * (evaluated without the caller's locals). Undefined when there is no such name.
+ */
+function nameValue(name: string, ctx: EvalContext): Value | undefined {
+  const key = name.toLowerCase();
+  if (ctx.scope && key in ctx.scope) return ctx.scope[key];
+  const target = ctx.name(name);
+  if (!target) return undefined;
+  if ("ref" in target) return dereference(target.ref, ctx);
+  return evaluateAst(getFormulaAst(`=${target.formula}`), { ...ctx, scope: undefined });
+}
 
-      // Inject getNumeric via closure and run code using Function constructor:
-      let newValue: string | number = "";
-      try {
-        // Create Function with getNumeric captured (we pass it as argument)
-        const f = new Function("getNumeric", fnBody);
-        const result = f(getNumeric);
-        if (typeof result === "number" && Number.isFinite(result)) newValue = result;
-        else if (typeof result === "string") newValue = result;
-        else newValue = String(result ?? "");
-      } catch (e) {
-        newValue = "";
+/** Call a LAMBDA value with the given argument expressions; anything else is `notCallable` */
+function invoke(fn: Value, argAsts: Ast[], ctx: EvalContext, notCallable: FormulaError): Value {
+  if (!isLambda(fn)) throw isFormulaError(fn) ? fn : notCallable;
+  return fn.lambda.call(argAsts.map(a => evaluateArg(a, "any", ctx).value));
+}
+
+/**
+ * Call a lazy function: its arguments are evaluated as it asks for them. When the first
+ * takes a single value and is an array (=IF(A1:A3>1,"y","n")), the function runs once per
+ * element, every argument read element by element, each evaluated once.
+ */
+function callLazy(ast: Ast & { type: "call" }, lazy: NonNullable<FunctionSpec["lazy"]>, spec: FunctionSpec, ctx: EvalContext): Value {
+  checkArity(ast.name, spec, ast.args.length);
+  const fctx = functionContext(ctx, ast.args, []);
+  const evaluate = (i: number, c: EvalContext, lift = false) => {
+    ctx.lazyArg?.(ast, i);
+    return evaluateArg(ast.args[i], argTypeAt(spec, i), c, lift).value;
+  };
+  const thunks = ast.args.map((_, i) => (bindings?: Record<string, Value>) =>
+    evaluate(i, bindings ? withScope(ctx, bindings) : ctx));
+  if (ast.args.length === 0 || argTypeAt(spec, 0) !== "scalar") return lazy(thunks, fctx);
+
+  const first = evaluate(0, ctx, true);
+  if (!Array.isArray(first)) return lazy([() => first, ...thunks.slice(1)], fctx);
+  const values = new Map<number, Value>([[0, first]]);
+  const valueOf = (i: number) => {
+    if (!values.has(i)) values.set(i, evaluate(i, ctx, true));
+    return values.get(i)!;
+  };
+  const { rows, cols } = broadcastSize([first]);
+  return arrayOf(rows, cols, (r, c) => lazy(ast.args.map((_, i) => () => elementAt(valueOf(i), r, c)), fctx));
+}
+
+function evaluateAst(ast: Ast, ctx: EvalContext): Value {
+  switch (ast.type) {
+    case "number": return ast.value;
+    case "string": return ast.value;
+    case "boolean": return ast.value;
+    case "error": return formulaError(ast.code);
+    case "missing": return null;
+    case "ref": return ctx.getCell(ast.ref.row, ast.ref.col, ast.sheet);
+    case "range":
+    case "spill":
+      return readRange(evaluateReference(ast, ctx)!, ctx);
+    case "name": {
+      const ref = evaluateReference(ast, ctx);
+      return ref ? dereference(ref, ctx) : nameValue(ast.name, ctx)!;
+    }
+    case "unary": {
+      const sign = ast.op === "-" ? -1 : 1;
+      return elementwise(evaluateAst(ast.operand, ctx), null, x => sign * toNumber(x));
+    }
+    case "percent": return elementwise(evaluateAst(ast.operand, ctx), null, x => toNumber(x) / 100);
+    case "binary": {
+      const op = ast.op;
+      return elementwise(evaluateToValue(ast.left, ctx), evaluateToValue(ast.right, ctx), (a, b) => applyBinary(op, a, b));
+    }
+    case "call": {
+      const spec = getFunction(ast.name);
+      if (!spec) {
+        // a LAMBDA held by a local or a defined name is called like a built-in
+        const unknown = formulaError("#NAME?", `Unknown function ${ast.name}`);
+        return invoke(nameValue(ast.name, ctx) ?? unknown, ast.args, ctx, unknown);
       }
+      if (spec.reference) return dereference(evaluateReference(ast, ctx)!, ctx);
+      if (spec.lazy) return callLazy(ast, spec.lazy, spec, ctx);
+      const { args, fctx } = evaluateArgs(ast.name, spec, ast.args, ctx, true);
+      const single = args.map((_, i) => argTypeAt(spec, i) === "scalar");
+      const lifted = args.filter((a, i) => single[i] && Array.isArray(a));
+      if (lifted.length === 0) return spec.fn(args, fctx);
+      // arrays given for single values: one call per element (=LEN(A1:A3), =ROUND(A1:B2,1))
+      const { rows, cols } = broadcastSize(lifted);
+      const fn = spec.fn;
+      return arrayOf(rows, cols, (r, c) => fn(args.map((a, i) => (single[i] ? elementAt(a, r, c) : a)), fctx));
+    }
+    case "invoke":
+      return invoke(evaluateToValue(ast.callee, ctx), ast.args, ctx, formulaError("#VALUE!", "Only a LAMBDA can be called"));
+  }
+}
+
+/** Largest array a formula may spill */
+const SPILL_LIMIT = 100_000;
+/** Extra passes for formulas reading a spill whose size changed (spills feeding spills) */
+const MAX_SPILL_PASSES = 10;
+
+/** True when a cell has content of its own, or holds another formula's spilled value */
+function blocksSpill(cell: CellValue | undefined, id: string) {
+  if (!cell) return false;
+  if (cell.raw != null) return cell.raw !== "";
+  if (cell.spillFrom !== undefined) return cell.spillFrom !== id;
+  return cell.value != null && cell.value !== "";
+}
+
+/**
+ * Spill the array result of formula cell `id` over the cells right of and below it (block
+ * null: nothing to spill). The formula cell shows the top-left value, or #SPILL! when a cell
+ * of the area is taken. Returns the cells whose spill changed (old area and new), so their
+ * readers can be recalculated; empty when the area is the same as before.
+ */
+function spillInto(
+  cells: Record<string, CellValue>,
+  id: string,
+  block: Scalar[][] | null,
+  graph: DependencyGraph
+): string[] {
+  const old = [...(graph.spills.get(id) ?? [])];
+  // clear the previous spill; cells typed over since keep their content
+  for (const c of old) if (cells[c]?.spillFrom === id && cells[c].raw == null) delete cells[c];
 
-      // store if changed
-      const prev = cells[id].value;
-      // numeric normalization: if newValue is number but prev is string equivalent, still count change.
-      const changed = (typeof prev !== typeof newValue) || (String(prev) !== String(newValue));
-      if (changed) {
-        cells[id].value = newValue;
-        anyChange = true;
+  const pos = parseId(id);
+  const area: string[] = [];
+  if (block && pos) {
+    const rows = block.length, cols = block[0].length;
+    const targets: string[] = [];
+    if (rows * cols <= SPILL_LIMIT) {
+      for (let r = 0; r < rows; r++) for (let c = 0; c < cols; c++) if (r || c) targets.push(cellId(pos.row + r, pos.col + c));
+    }
+    const blocker = targets.find(c => blocksSpill(cells[c], id));
+    if (rows * cols > SPILL_LIMIT || blocker) {
+      const message = blocker
+        ? `The ${rows}×${cols} result can't spill because ${blocker} isn't empty`
+        : `The ${rows}×${cols} result is too large to spill`;
+      cells[id] = { ...cells[id], value: formulaError("#SPILL!", message), spill: { rows, cols, blocked: true } };
+    } else {
+      for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+          if (r || c) cells[cellId(pos.row + r, pos.col + c)] = { value: block[r][c] ?? 0, spillFrom: id };
+        }
       }
+      cells[id] = { ...cells[id], spill: { rows, cols } };
+      area.push(...targets);
     }
+  } else if (cells[id]?.spill) {
+    cells[id] = { ...cells[id], spill: undefined };
+  }
+  return setSpillDependencies(graph, id, area) ? [...old, ...area] : [];
+}
 
-    if (!anyChange) break;
+/** Formula cells whose spill area (spilled or blocked) covers one of `ids` it doesn't already fill */
+function spillAnchorsOver(cells: Record<string, CellValue>, ids: string[]): string[] {
+  const out: string[] = [];
+  for (const [id, cell] of Object.entries(cells)) {
+    const size = cell?.spill;
+    const at = size && parseId(id);
+    if (!size || !at) continue;
+    const covers = ids.some(c => {
+      const p = parseId(c);
+      return !!p && c !== id && cells[c]?.spillFrom !== id
+        && p.row >= at.row && p.row < at.row + size.rows && p.col >= at.col && p.col < at.col + size.cols;
+    });
+    if (covers) out.push(id);
   }
+  return out;
+}
 
-  // After formula pass, also update any non-formula cells to keep values normalized
-  for (const id of Object.keys(cells)) {
-    const raw = cells[id]?.raw ?? "";
-    if (!raw || raw[0] !== "=") {
-      const n = Number(raw);
-      if (!Number.isNaN(n) && String(raw).trim() !== "") {
-        cells[id].value = n;
-      } else {
-        cells[id].value = raw ?? "";
-      }
+/**
+ * Evaluate one cell and store the result; an array result spills into the neighbouring
+ * cells. Returns the cells whose spill changed (see spillInto).
+ */
+function computeCell(cells: Record<string, CellValue>, id: string, sheet: EvalContext, graph: DependencyGraph): string[] {
+  const raw = cells[id]?.raw ?? "";
+  if (!raw || raw[0] !== "=") return spillInto(cells, id, null, graph); // literals spill nothing
+  const pos = parseId(id);
+  const ctx: EvalContext = { ...sheet, row: pos?.row ?? 0, col: pos?.col ?? 0 };
+  let newValue: NonNullable<CellValue["value"]>;
+  let block: Scalar[][] | null = null;
+  let ast: Ast;
+  try {
+    ast = getFormulaAst(raw);
+  } catch (e) {
+    cells[id] = { ...cells[id], value: formulaError("#ERROR!", `Formula syntax error: ${(e as Error).message}`) };
+    return spillInto(cells, id, null, graph);
+  }
+  try {
+    const result = evaluateToValue(ast, ctx);
+    if (Array.isArray(result) && result.length > 0 && (result.length > 1 || result[0].length > 1)) block = result;
+    newValue = (block ? block[0][0] : toScalar(result)) ?? 0; // a formula pointing at a blank shows 0, like Excel
+    if (isLambda(newValue)) newValue = formulaError("#CALC!", newValue.message); // keep the callable out of saved values
+  } catch (e) {
+    newValue = isFormulaError(e) ? e : formulaError("#VALUE!", String(e));
+  }
+  // replace rather than mutate, so undo snapshots keep their old values
+  cells[id] = { ...cells[id], value: newValue };
+  return spillInto(cells, id, block, graph);
+}
+
+/**
+ * Iterative calculation of one circular group: recompute its cells in turn until no numeric
+ * value moves by more than maxChange, or maxIterations is reached (Excel keeps the last pass).
+ */
+function iterateCycle(
+  cells: Record<string, CellValue>,
+  group: string[],
+  ctx: EvalContext,
+  graph: DependencyGraph,
+  opts: Required<CalcOptions>
+) {
+  // a cycle that was previously flagged starts again from zero
+  for (const id of group) {
+    const v = cells[id]?.value;
+    if (isFormulaError(v) && v.error === CIRCULAR_ERROR) cells[id] = { ...cells[id], value: 0 };
+  }
+
+  for (let iter = 0; iter < opts.maxIterations; iter++) {
+    let delta = 0;
+    for (const id of group) {
+      const prev = cells[id]?.value;
+      computeCell(cells, id, ctx, graph);
+      const next = cells[id]?.value;
+      if (typeof prev === "number" && typeof next === "number") delta = Math.max(delta, Math.abs(next - prev));
+      else if (prev !== next) delta = Infinity;
     }
+    if (delta <= opts.maxChange) break;
   }
 }
+
+/**
+ * Everything a formula on the sheet `cells` can read: its cells, the rest of the workbook
+ * and defined names (both looked up once per recalc), spills, random numbers
+ */
+function sheetContext(cells: Record<string, CellValue>, opts: Required<CalcOptions>, workbook?: WorkbookContext): EvalContext {
+  // other sheets are looked up once per recalc
+  const sheets = new Map<string, Record<string, CellValue> | null>();
+  const cellsOf = (sheet: string | undefined) => {
+    if (sheet === undefined || (workbook && sameSheet(sheet, workbook.sheet))) return cells;
+    const key = sheet.toLowerCase();
+    if (!sheets.has(key)) sheets.set(key, workbook?.resolve(sheet) ?? null);
+    const found = sheets.get(key);
+    if (!found) throw formulaError("#REF!", `Unknown sheet "${sheet}"`);
+    return found;
+  };
+  // and so are defined names
+  const names = new Map<string, NameTarget | null>();
+  const ctx: EvalContext = {
+    getCell: (row, col, sheet) => {
+      const cell = cellsOf(sheet)[cellId(row, col)];
+      if (!cell) return null;
+      if (cell.raw == null) return cell.value ?? null;
+      if (cell.raw === "") return null;
+      if (cell.raw[0] !== "=") return literalValue(cell.raw);
+      return cell.value ?? null;
+    },
+    row: 0, // set per cell by computeCell
+    col: 0,
+    random: opts.seed == null ? Math.random : seededRandom(opts.seed),
+    name: (name) => {
+      const key = name.toLowerCase();
+      if (!names.has(key)) names.set(key, workbook?.names?.(name) ?? null);
+      return names.get(key)!;
+    },
+    spillRange: (row, col, sheet) => {
+      const cell = cellsOf(sheet)[cellId(row, col)];
+      if (isFormulaError(cell?.value)) throw cell.value; // e.g. a blocked spill's #SPILL!
+      if (!cell?.spill) throw formulaError("#REF!", `${cellId(row, col)} does not spill`);
+      return { top: row, left: col, bottom: row + cell.spill.rows - 1, right: col + cell.spill.cols - 1, sheet };
+    },
+    whatIf: (row, col, inputs, from) => whatIfValue(cells, ctx, cellsOf, cellId(row, col), inputs, from),
+    whatIfFormula: (ast, inputs) => whatIfValue(cells, ctx, cellsOf, ast, inputs),
+  };
+  return ctx;
+}
+
+/**
+ * What-if evaluation (FunctionContext.whatIf) of cell `target` on the sheet `cells`, or of a
+ * formula in no cell: the formula cells it reads, directly or through others, are worked out
+ * again with the `inputs` cells holding their given values, each once. A formula reading
+ * itself back that way, and the asking cell `from`, keep their current values.
+ */
+function whatIfValue(
+  cells: Record<string, CellValue>,
+  ctx: EvalContext,
+  cellsOf: (sheet: string | undefined) => Record<string, CellValue>,
+  target: string | Ast,
+  inputs: WhatIfInput[],
+  from?: string
+): Value {
+  const overrides = new Map(inputs.map(i => [cellId(i.row, i.col), i.value]));
+  const results = new Map<string, Value>();
+  const pending = new Set(from ? [from] : []);
+  const isFormula = (c: string) => cells[c]?.raw?.[0] === "=";
+
+  const result = (c: string): Value => {
+    if (results.has(c)) return results.get(c)!;
+    const cell = cells[c];
+    const pos = parseId(c);
+    if (pending.has(c) || !pos) return cell?.value ?? null;
+    let ast: Ast;
+    try {
+      ast = getFormulaAst(cell!.raw!);
+    } catch {
+      return cell?.value ?? null; // shows #ERROR! already
+    }
+    pending.add(c);
+    let value: Value;
+    try {
+      value = evaluateToValue(ast, { ...alt, row: pos.row, col: pos.col, scope: undefined });
+    } catch (e) {
+      value = isFormulaError(e) ? e : formulaError("#VALUE!", String(e));
+    }
+    if (isLambda(value)) value = formulaError("#CALC!", value.message);
+    pending.delete(c);
+    results.set(c, value ?? 0); // a formula pointing at a blank is 0, like in computeCell
+    return results.get(c)!;
+  };
+  const read = (c: string): Scalar => {
+    if (overrides.has(c)) return overrides.get(c)!;
+    const cell = cells[c];
+    if (isFormula(c)) {
+      const v = result(c);
+      return Array.isArray(v) ? v[0]?.[0] ?? 0 : v;
+    }
+    if (cell?.raw == null && cell?.spillFrom !== undefined && isFormula(cell.spillFrom)) {
+      // a spilled value: its part of the formula's new array (none when it shrank)
+      const at = parseId(cell.spillFrom), here = parseId(c);
+      const v = result(cell.spillFrom);
+      return at && here && Array.isArray(v) ? v[here.row - at.row]?.[here.col - at.col] ?? null : null;
+    }
+    const p = parseId(c);
+    return p ? ctx.getCell(p.row, p.col) : null;
+  };
+  const alt: EvalContext = {
+    ...ctx,
+    getCell: (row, col, sheet) => (cellsOf(sheet) === cells ? read(cellId(row, col)) : ctx.getCell(row, col, sheet)),
+  };
+  if (typeof target !== "string") {
+    const value = evaluateToValue(target, { ...alt, row: 0, col: 0, scope: undefined });
+    return isLambda(value) ? formulaError("#CALC!", value.message) : value;
+  }
+  if (overrides.has(target) || !isFormula(target)) return read(target);
+  return result(target);
+}
+
+/**
+ * evaluateAndUpdate(cells, changed?, graph?, options?, workbook?)
+ *
+ * - With a graph and changed ids: refreshes those cells' edges in the graph, then recomputes
+ *   only the changed cells, volatile formulas (OFFSET, INDIRECT...) and their transitive
+ *   dependents, in topological order.
+ * - Otherwise: (re)builds the graph from scratch and recomputes every formula.
+ * - Circular references are flagged with CIRCULAR_ERROR, unless options.iterative is set,
+ *   in which case each cycle is iterated to convergence.
+ * - Returns the circular groups found among the recomputed cells.
+ * - Each formula is parsed once (cached by its raw text) and its AST is interpreted.
+ * - Failures become error values (#DIV/0!, #VALUE!, ...) that propagate to dependents;
+ *   formulas that cannot be parsed show #ERROR!.
+ * - An array result spills into the cells right of and below its formula (see spillInto),
+ *   or shows #SPILL! when they aren't empty.
+ * - References to other sheets (Sheet2!A1) read their current values through `workbook`;
+ *   without one, or for an unknown sheet, they are #REF!. Defined names are looked up there
+ *   too; an unknown name is #NAME?.
+ */
+export function evaluateAndUpdate(
+  cells: Record<string, CellValue>,
+  changed?: string | string[],
+  graph?: DependencyGraph,
+  options?: CalcOptions,
+  workbook?: WorkbookContext
+): { cycles: string[][] } {
+  const opts = { ...DEFAULT_CALC_OPTIONS, ...options };
+  const ctx = sheetContext(cells, opts, workbook);
+
+  const changedIds = changed == null ? null : Array.isArray(changed) ? changed : [changed];
+  let dirty: Set<string>;
+
+  if (graph && changedIds) {
+    for (const id of changedIds) {
+      setCellDependencies(graph, id, cells[id]?.raw);
+      const raw = cells[id]?.raw ?? "";
+      if (cells[id] && (!raw || raw[0] !== "=")) cells[id] = { ...cells[id], value: literalValue(raw) };
+    }
+    // volatile formulas may read anything, so they rerun on every recalc; so do spills the
+    // changed cells block or free up
+    dirty = collectDownstream(graph, [...changedIds, ...graph.volatile, ...spillAnchorsOver(cells, changedIds)]);
+  } else {
+    const fresh = buildDependencyGraph(cells);
+    if (graph) {
+      graph.precedents = fresh.precedents;
+      graph.dependents = fresh.dependents;
+      graph.volatile = fresh.volatile;
+      graph.spills = fresh.spills;
+    }
+    graph = fresh;
+    // spilled values are written again by their formulas; normalize literal cells, then
+    // schedule every formula
+    dirty = new Set();
+    for (const id of Object.keys(cells)) {
+      const cell = cells[id];
+      const raw = cell?.raw ?? "";
+      if (cell?.spillFrom !== undefined && cell.raw == null) delete cells[id];
+      else if (!raw || raw[0] !== "=") cells[id] = { ...cell, value: literalValue(raw), ...(cell?.spill && { spill: undefined }) };
+      else dirty.add(id);
+    }
+  }
+  const g = graph;
+
+  // cells whose spill area changed during this recalc
+  const respilled: string[] = [];
+  const compute = (id: string) => {
+    // a cycle through other sheets can't be ordered here: it is flagged, or (iterative)
+    // computed from the other sheets' current values and iterated by recalcWorkbook
+    const circular = opts.iterative || cells[id]?.raw?.[0] !== "=" ? undefined : workbook?.circular?.().get(id);
+    if (circular === undefined) respilled.push(...computeCell(cells, id, ctx, g));
+    else {
+      cells[id] = { ...cells[id], value: formulaError(CIRCULAR_ERROR, circular) };
+      respilled.push(...spillInto(cells, id, null, g));
+    }
+  };
+
+  const { order, cyclic } = topologicalOrder(g, dirty);
+  for (const id of order) compute(id);
+
+  // whatever is left sits on a cycle or downstream of one
+  const cycles: string[][] = [];
+  for (const group of cycleGroups(g, cyclic)) {
+    if (!isCycle(g, group)) {
+      compute(group[0]);
+      continue;
+    }
+    cycles.push(group);
+    if (opts.iterative) iterateCycle(cells, group, ctx, g, opts);
+    else {
+      const message = `Circular reference: ${group.join(" → ")}`;
+      for (const id of group) cells[id] = { ...cells[id], value: formulaError(CIRCULAR_ERROR, message) };
+    }
+  }
+
+  // formulas reading cells a spill just reached or left may have run before it
+  for (let pass = 0; pass < MAX_SPILL_PASSES && respilled.length > 0; pass++) {
+    const seeds = [...respilled, ...spillAnchorsOver(cells, respilled)];
+    respilled.length = 0;
+    for (const id of topologicalOrder(g, collectDownstream(g, seeds)).order) compute(id);
+  }
+  return { cycles };
+}
+
+/**
+ * evaluateFormula(cells, formula, options?, workbook?)
+ * - the value of `formula` ("=SUM(A1:A3)") on the sheet `cells`, as if typed into A1 but
+ *   without storing it: nothing is recalculated and an array result comes back whole
+ * - errors come back as FormulaError values; unparsable formulas as #ERROR!
+ */
+export function evaluateFormula(
+  cells: Record<string, CellValue>,
+  formula: string,
+  options?: CalcOptions,
+  workbook?: WorkbookContext
+): Value {
+  let ast: Ast;
+  try {
+    ast = getFormulaAst(formula.startsWith("=") ? formula : `=${formula}`);
+  } catch (e) {
+    return formulaError("#ERROR!", `Formula syntax error: ${(e as Error).message}`);
+  }
+  const result = evaluateToValue(ast, sheetContext(cells, { ...DEFAULT_CALC_OPTIONS, ...options }, workbook));
+  return isLambda(result) ? formulaError("#CALC!", result.message) : result;
+}
+
+/**
+ * evaluateWhatIf(cells, target, inputs, options?, workbook?)
+ * - the value cell `target` would have if the cells in `inputs` (by id) held those values:
+ *   the formulas between them and `target` are worked out again, nothing is stored or
+ *   recalculated
+ * - `target` may also be a formula ("=SUM(B2:B10)"), worked out as evaluateFormula does;
+ *   an unparsable one is #ERROR!
+ * - Goal Seek, Solver and data tables (TABLE) are built on it
+ */
+export function evaluateWhatIf(
+  cells: Record<string, CellValue>,
+  target: string,
+  inputs: Record<string, Scalar>,
+  options?: CalcOptions,
+  workbook?: WorkbookContext
+): Value {
+  const list: WhatIfInput[] = [];
+  for (const [c, value] of Object.entries(inputs)) {
+    const p = parseId(c);
+    if (p) list.push({ row: p.row, col: p.col, value });
+  }
+  const ctx = sheetContext(cells, { ...DEFAULT_CALC_OPTIONS, ...options }, workbook);
+  if (target.startsWith("=")) {
+    let ast: Ast;
+    try {
+      ast = getFormulaAst(target);
+    } catch (e) {
+      return formulaError("#ERROR!", `Formula syntax error: ${(e as Error).message}`);
+    }
+    return ctx.whatIfFormula(ast, list);
+  }
+  const pos = parseId(target);
+  return pos ? ctx.whatIf(pos.row, pos.col, list, "") : null;
+}
+
+/** One step of Evaluate Formula: a part of the formula and the value it works out to */
+export type EvaluationStep = { node: Ast; value: Value };
+
+/**
+ * evaluationSteps(cells, id, options?, workbook?)
+ * - Evaluate Formula: the parts of the formula in `id` in the order they are worked out
+ *   (left to right, each after the parts inside it), ending with the whole formula
+ * - of lazy functions (IF, IFERROR, IFS, SWITCH...) only the arguments that run: the
+ *   condition, then the branch it picked
+ * - literals are not steps, nor are arguments taken as references (ROW(A1)), and anything
+ *   inside LET, LAMBDA or a LAMBDA's body, whose names only exist while it runs
+ * - empty when the cell holds no (parsable) formula
+ */
+export function evaluationSteps(
+  cells: Record<string, CellValue>,
+  id: string,
+  options?: CalcOptions,
+  workbook?: WorkbookContext
+): EvaluationStep[] {
+  const raw = cells[id]?.raw;
+  const pos = parseId(id);
+  if (!raw || raw[0] !== "=" || !pos) return [];
+  let ast: Ast;
+  try {
+    ast = getFormulaAst(raw);
+  } catch {
+    return [];
+  }
+
+  const ctx = { ...sheetContext(cells, { ...DEFAULT_CALC_OPTIONS, ...options }, workbook), row: pos.row, col: pos.col };
+  /** The arguments of a lazy call its evaluation runs, in the order it runs them */
+  const argsRun = (call: Ast) => {
+    const ran: number[] = [];
+    const lazyArg = (node: Ast, arg: number) => {
+      if (node === call && !ran.includes(arg)) ran.push(arg);
+    };
+    try {
+      evaluateToValue(call, { ...ctx, lazyArg });
+    } catch {
+      // an error stops it where it was
+    }
+    return ran;
+  };
+
+  const parts: Ast[] = [];
+  const walk = (node: Ast) => {
+    switch (node.type) {
+      case "number":
+      case "string":
+      case "boolean":
+      case "error":
+      case "missing":
+        return;
+      case "unary":
+      case "percent":
+        walk(node.operand);
+        break;
+      case "binary":
+        walk(node.left);
+        walk(node.right);
+        break;
+      case "call": {
+        if (node.name === "LET" || node.name === "LAMBDA") break;
+        const spec = getFunction(node.name);
+        if (spec?.lazy) for (const i of argsRun(node)) walk(node.args[i]);
+        else node.args.forEach((arg, i) => {
+          if (!spec || argTypeAt(spec, i) !== "ref") walk(arg);
+        });
+        break;
+      }
+      case "invoke":
+        node.args.forEach(walk);
+        break;
+    }
+    parts.push(node);
+  };
+  walk(ast);
+  return parts.map(node => {
+    let value: Value;
+    try {
+      value = evaluateToValue(node, ctx);
+    } catch (e) {
+      value = formulaError("#VALUE!", String(e));
+    }
+    return { node, value: isLambda(value) ? formulaError("#CALC!", value.message) : value };
+  });
+}
@@ -0,0 +1,49 @@
+// src/utils/formulaHints.test.ts
+// Signature help: the argument names shown for the call being typed, and which one is active.
+
+import { describe, expect, it } from "vitest";
+import { activeParam, callAt, functionSignature } from "./formulaHints";
+import { getFunction, listFunctions, registerFunction } from "./functionRegistry";
+
+const shown = (name: string) => functionSignature(name)!.params.join(", ");
+
+describe("functionSignature", () => {
+  it("names the arguments, optional ones in brackets", () => {
+    expect(shown("VLOOKUP")).toBe("lookup_value, table_array, col_index_num, [range_lookup]");
+    expect(shown("IF")).toBe("logical_test, value_if_true, [value_if_false]");
+    expect(shown("ROW")).toBe("[reference]");
+    expect(shown("TODAY")).toBe("");
+  });
+
+  it("numbers the repeating group of variadic functions", () => {
+    expect(shown("SUM")).toBe("number1, [number2]");
+    expect(shown("SUMIFS")).toBe("sum_range, criteria_range1, criteria1, [criteria_range2], [criteria2]");
+    expect(shown("COUNTIFS")).toBe("criteria_range1, criteria1, [criteria_range2], [criteria2]");
+    expect(shown("TEXTJOIN")).toBe("delimiter, ignore_empty, text1, [text2]");
+    expect(functionSignature("SUMIFS")).toMatchObject({ variadic: true, repeat: 2 });
+  });
+
+  it("names every argument of the built-in functions", () => {
+    const unnamed = listFunctions().filter(name => {
+      const spec = getFunction(name)!;
+      const names = spec.params?.length ?? 0;
+      return spec.maxArgs === undefined ? names === 0 : names !== spec.maxArgs;
+    });
+    expect(unnamed).toEqual([]);
+  });
+
+  it("falls back to the argument types for functions registered without names", () => {
+    registerFunction("TESTPAIR", { minArgs: 2, maxArgs: 3, args: ["scalar", "range", "scalar"], description: "Test", fn: () => 0 });
+    expect(shown("TESTPAIR")).toBe("value1, range, [value2]");
+  });
+});
+
+describe("activeParam", () => {
+  it("follows the caret into the repeating group", () => {
+    const sig = functionSignature("SUMIFS")!;
+    const at = (text: string) => activeParam(sig, callAt(text, text.length)!.arg);
+    expect(sig.params[at("=SUMIFS(A:A,B:B,")]).toBe("criteria1");
+    expect(sig.params[at("=SUMIFS(A:A,B:B,1,C:C,2,D:D")]).toBe("[criteria_range2]");
+    expect(sig.params[at("=SUMIFS(A:A,B:B,1,C:C,2,D:D,")]).toBe("[criteria2]");
+  });
+});
@@ -0,0 +1,193 @@
+// src/utils/formulaHints.ts
+// What the formula editor shows while a formula is typed: function names completing the
+// word at the caret, the signature of the call around it, and the references to color.
+
+import { argTypeAt, getFunction, listFunctions } from "./functionRegistry";
+import type { ArgType, FunctionSpec } from "./functionRegistry";
+import { findReferences } from "./formulaParser";
+import type { RefToken } from "./formulaParser";
+import type { RangeRef } from "./formulaValues";
+
+/** Colors given to a formula's references, in order of first appearance */
+export const REFERENCE_COLORS = ["#2563eb", "#dc2626", "#7c3aed", "#059669", "#db2777", "#d97706", "#0891b2", "#65a30d"];
+
+/** A reference of formula text, the cells it covers, and its color */
+export type ColoredReference = RefToken & { range: RangeRef; color: string };
+
+/**
+ * colorReferences(text)
+ * - every reference of a formula with a color; the same cells written twice (A1, $A$1)
+ *   share one, like the outlines drawn on the grid
+ */
+export function colorReferences(text: string): ColoredReference[] {
+  const colors = new Map<string, string>();
+  return findReferences(text).map(token => {
+    const end = token.end ?? token.start;
+    const range = {
+      top: Math.min(token.start.row, end.row),
+      left: Math.min(token.start.col, end.col),
+      bottom: Math.max(token.start.row, end.row),
+      right: Math.max(token.start.col, end.col),
+    };
+    const key = `${token.sheet?.toLowerCase() ?? ""}!${range.top},${range.left}:${range.bottom},${range.right}`;
+    if (!colors.has(key)) colors.set(key, REFERENCE_COLORS[colors.size % REFERENCE_COLORS.length]);
+    return { ...token, range, color: colors.get(key)! };
+  });
+}
+
+/** True when `caret` is inside a string literal of the text */
+function inString(text: string, caret: number) {
+  let open = false;
+  for (let i = 0; i < caret; i++) if (text[i] === '"') open = !open; // "" inside a string toggles twice
+  return open;
+}
+
+/** A function or defined name offered while typing */
+export type Completion = { name: string; description: string; kind: "function" | "name" };
+
+/** Completions for the characters from..to, the word the caret is in */
+export type CompletionList = { from: number; to: number; items: Completion[] };
+
+/**
+ * completionsAt(text, caret, names?, functionNames?)
+ * - functions (and defined `names`) starting with the word typed before the caret; right
+ *   after the "=" of an empty formula, every function
+ * - functions are offered by their `functionNames` (localised names, by canonical name)
+ *   when given
+ * - null outside formulas, in strings, and in sheet prefixes, references and numbers
+ */
+export function completionsAt(
+  text: string,
+  caret: number,
+  names: string[] = [],
+  functionNames?: Record<string, string> | null
+): CompletionList | null {
+  if (!text.startsWith("=") || inString(text, caret)) return null;
+  const word = text.slice(0, caret).match(/[\p{L}_][\p{L}\p{N}_.]*$/u)?.[0] ?? "";
+  const from = caret - word.length;
+  if (!word && text.trim() !== "=") return null;
+  if (/[\p{L}\p{N}_.$!'#]$/u.test(text.slice(0, from))) return null;
+  const to = caret + (text.slice(caret).match(/^[\p{L}\p{N}_.]*/u)?.[0].length ?? 0);
+  const prefix = word.toUpperCase();
+
+  const items: Completion[] = [
+    ...listFunctions()
+      .map(name => ({ name: functionNames?.[name] ?? name, description: getFunction(name)!.description, kind: "function" as const }))
+      .filter(item => item.name.startsWith(prefix)),
+    ...names
+      .filter(name => name.toUpperCase().startsWith(prefix) && !getFunction(name))
+      .map(name => ({ name, description: "Defined name", kind: "name" as const })),
+  ];
+  return items.length ? { from, to, items } : null;
+}
+
+/**
+ * applyCompletion(text, list, item)
+ * - the text with the word replaced by `item`; a function gets its "(" and the caret
+ *   lands inside it
+ */
+export function applyCompletion(text: string, list: CompletionList, item: Completion): { text: string; caret: number } {
+  const rest = text.slice(list.to);
+  const paren = item.kind === "function" && !/^\s*\(/.test(rest) ? "(" : "";
+  const inserted = item.name + paren;
+  const caret = list.from + inserted.length + (item.kind === "function" && !paren ? rest.indexOf("(") + 1 : 0);
+  return { text: text.slice(0, list.from) + inserted + rest, caret };
+}
+
+/** The innermost function call around the caret, and which of its arguments the caret is in */
+export type CallAt = { name: string; arg: number };
+
+/**
+ * callAt(text, caret, separator?)
+ * - the call being typed at the caret, its arguments split at `separator` (";" in locales
+ *   writing 1,5); null outside any call
+ */
+export function callAt(text: string, caret: number, separator = ","): CallAt | null {
+  if (!text.startsWith("=") || inString(text, caret)) return null;
+  const open: CallAt[] = []; // one per unclosed "("; name "" for grouping parentheses
+  let quoted = false;
+  for (let i = 1; i < caret; i++) {
+    const ch = text[i];
+    if (ch === '"') quoted = !quoted;
+    if (quoted) continue;
+    if (ch === "(") open.push({ name: text.slice(0, i).match(/([\p{L}_][\p{L}\p{N}_.]*)\s*$/u)?.[1] ?? "", arg: 0 });
+    else if (ch === ")") open.pop();
+    else if (ch === separator && open.length) open[open.length - 1].arg++;
+  }
+  for (let i = open.length - 1; i >= 0; i--) if (open[i].name) return open[i];
+  return null;
+}
+
+/** A function's arguments as shown while it is typed */
+export type Signature = {
+  name: string;
+  description: string;
+  /** Labels, optional ones in brackets */
+  params: string[];
+  /** Takes any number of arguments: the last `repeat` params repeat (shown as "...") */
+  variadic: boolean;
+  repeat: number;
+};
+
+const ARG_LABELS: Record<ArgType, string> = { scalar: "value", range: "range", any: "value", ref: "reference" };
+
+/** Labels from the spec's argument names: the repeating group's numbered (criteria_range1, criteria1...) */
+function namedLabels(names: string[], count: number, repeat: number) {
+  const start = names.length - repeat;
+  return Array.from({ length: count }, (_, i) =>
+    i < start ? names[i] : `${names[start + ((i - start) % repeat)]}${Math.floor((i - start) / repeat) + 1}`
+  );
+}
+
+/** Labels from the argument types, numbered when a label repeats (functions registered without names) */
+function typeLabels(spec: FunctionSpec, count: number) {
+  const labels = Array.from({ length: count }, (_, i) => ARG_LABELS[argTypeAt(spec, i)]);
+  const seen = new Map<string, number>();
+  return labels.map(label => {
+    seen.set(label, (seen.get(label) ?? 0) + 1);
+    return labels.filter(l => l === label).length > 1 ? `${label}${seen.get(label)}` : label;
+  });
+}
+
+/**
+ * functionSignature(name)
+ * - argument labels: the spec's parameter names (generic ones read off the argument types
+ *   when it has none), in brackets past minArgs; variadic functions show their repeating
+ *   group twice, numbered
+ * - null for names that aren't built-in functions
+ */
+export function functionSignature(name: string): Signature | null {
+  const spec = getFunction(name);
+  if (!spec) return null;
+  const variadic = spec.maxArgs === undefined;
+  const declared = spec.params?.length ?? spec.args?.length ?? 0;
+  const repeat = variadic ? Math.max(1, Math.min(spec.repeat ?? 1, declared)) : 0;
+  const count = spec.maxArgs ?? Math.max(spec.minArgs, declared) + repeat;
+
+  const labels = spec.params?.length ? namedLabels(spec.params, count, variadic ? repeat : 0) : typeLabels(spec, count);
+  const params = labels.map((label, i) => (i < spec.minArgs ? label : `[${label}]`));
+  return { name: name.toUpperCase(), description: spec.description, params, variadic, repeat };
+}
+
+/** Which of a signature's params the `arg`-th argument is (past the last, its repeating group) */
+export function activeParam(sig: Signature, arg: number): number {
+  const n = sig.params.length;
+  if (arg < n) return arg;
+  if (!sig.variadic) return -1;
+  const start = n - sig.repeat;
+  return start + ((arg - start) % sig.repeat);
+}
+
+/**
+ * pointingAt(text, caret)
+ * - where a cell clicked while editing writes its reference: over the reference ending at
+ *   the caret (so clicking again replaces it), or at the caret right after "=", "(", an
+ *   argument separator ("," or ";") or an operator
+ * - null when the caret is anywhere else; a click then just ends the edit
+ */
+export function pointingAt(text: string, caret: number): { from: number; to: number } | null {
+  if (!text.startsWith("=") || inString(text, caret)) return null;
+  const ref = findReferences(text).find(r => r.to === caret);
+  if (ref) return { from: ref.from, to: ref.to };
+  return /[=(,;+\-*/^&<>:]\s*$/.test(text.slice(0, caret)) ? { from: caret, to: caret } : null;
+}
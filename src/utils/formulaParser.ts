@@ -0,0 +1,779 @@
+// src/utils/formulaParser.ts
+// Tokenizer + recursive-descent parser for spreadsheet formulas.
+// Produces a small AST that formulaEngine.ts interprets — nothing here is ever eval'd.
+
+import { ERROR_CODES } from "./formulaValues";
+import type { ErrorCode, RangeRef } from "./formulaValues";
+
+/** A single cell reference. row/col are 0-based; abs* flags record `$` anchors. */
+export type CellRef = {
+  row: number;
+  col: number;
+  absRow: boolean;
+  absCol: boolean;
+};
+
+export type BinaryOp = "+" | "-" | "*" | "/" | "^" | "&" | "=" | "<>" | "<" | ">" | "<=" | ">=";
+
+export type Ast =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "boolean"; value: boolean }
+  | { type: "error"; code: ErrorCode }
+  | { type: "ref"; ref: CellRef; sheet?: string } // sheet: set for Sheet2!A1
+  | { type: "range"; start: CellRef; end: CellRef; sheet?: string }
+  | { type: "spill"; ref: CellRef; sheet?: string } // A1#: the whole array spilled from A1
+  | { type: "name"; name: string }
+  | { type: "unary"; op: "-" | "+"; operand: Ast }
+  | { type: "percent"; operand: Ast }
+  | { type: "binary"; op: BinaryOp; left: Ast; right: Ast }
+  | { type: "call"; name: string; args: Ast[] }
+  | { type: "invoke"; callee: Ast; args: Ast[] } // calling a LAMBDA in place: LAMBDA(x, x + 1)(2)
+  | { type: "missing" }; // an omitted argument, e.g. the middle of IF(A1,,2)
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "word"; value: string }
+  | { kind: "sheet"; value: string } // a sheet prefix, `Sheet2!` or `'My Sheet'!`
+  | { kind: "error"; value: ErrorCode }
+  | { kind: "op"; value: string }
+  | { kind: "eof" };
+
+/** Convert column letters (A, B, ..., Z, AA, AB...) to 0-based index */
+export function colNameToIndex(name: string) {
+  let col = 0;
+  for (let i = 0; i < name.length; i++) col = col * 26 + (name.toUpperCase().charCodeAt(i) - 64);
+  return col - 1;
+}
+/** Convert 0-based column index to letters */
+export function colIndexToName(n: number) {
+  let s = "";
+  let i = n + 1;
+  while (i > 0) {
+    const rem = (i - 1) % 26;
+    s = String.fromCharCode(65 + rem) + s;
+    i = Math.floor((i - 1) / 26);
+  }
+  return s;
+}
+/** Generate id from r,c */
+export function cellId(r: number, c: number) {
+  return `${colIndexToName(c)}${r + 1}`;
+}
+/** Parse A1 style id -> {row, col} 0-based */
+export function parseId(id: string) {
+  const m = id.match(/^([A-Z]+)(\d+)$/);
+  if (!m) return null;
+  return { col: colNameToIndex(m[1]), row: parseInt(m[2], 10) - 1 };
+}
+
+const REF_WORD_RE = /^(\$?)([A-Za-z]{1,3})(\$?)([1-9][0-9]*)$/;
+
+/** Parse a reference word like `B7`, `$B7` or `$B$7` */
+export function parseRefWord(word: string): CellRef | null {
+  const m = word.match(REF_WORD_RE);
+  if (!m) return null;
+  return {
+    col: colNameToIndex(m[2]),
+    row: parseInt(m[4], 10) - 1,
+    absCol: m[1] === "$",
+    absRow: m[3] === "$",
+  };
+}
+
+/** Print a reference back in A1 form, keeping its anchors */
+export function refToString(ref: CellRef) {
+  return `${ref.absCol ? "$" : ""}${colIndexToName(ref.col)}${ref.absRow ? "$" : ""}${ref.row + 1}`;
+}
+
+/** Sheet names compare case-insensitively, as in Excel */
+export function sameSheet(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** A sheet name as written before `!`: quoted unless it is a plain word that can't be read as a reference */
+export function formatSheetName(name: string) {
+  const plain = /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) && !parseRefWord(name) && !/^R\d*C\d*$/i.test(name)
+    && !/^(TRUE|FALSE)$/i.test(name);
+  return plain ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+const SHEET_PREFIX_RE = /^(?:'((?:[^']|'')+)'|([A-Za-z_][A-Za-z0-9_.]*))!/;
+
+/** Split a leading `Sheet2!` / `'My Sheet'!` off reference text */
+export function splitSheetPrefix(text: string): { sheet?: string; rest: string } {
+  const m = text.match(SHEET_PREFIX_RE);
+  if (!m) return { rest: text };
+  return { sheet: m[1] !== undefined ? m[1].replace(/''/g, "'") : m[2], rest: text.slice(m[0].length) };
+}
+
+const TWO_CHAR_OPS = ["<=", ">=", "<>"];
+const ONE_CHAR_OPS = "+-*/^&=<>%:,()";
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === " " || ch === "\t" || ch === "\n" || ch === "\r") { i++; continue; }
+
+    // numbers: 12, 1.5, .5, 1e3
+    if (/[0-9.]/.test(ch)) {
+      const m = src.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      if (!m) throw new Error(`Unexpected "${ch}"`);
+      out.push({ kind: "number", value: Number(m[0]) });
+      i += m[0].length;
+      continue;
+    }
+
+    // string literal with "" as the escaped quote
+    if (ch === '"') {
+      let s = "";
+      i++;
+      for (;;) {
+        if (i >= src.length) throw new Error("Unterminated string");
+        if (src[i] === '"') {
+          if (src[i + 1] === '"') { s += '"'; i += 2; continue; }
+          i++;
+          break;
+        }
+        s += src[i++];
+      }
+      out.push({ kind: "string", value: s });
+      continue;
+    }
+
+    // error literals: #N/A, #DIV/0!, ...
+    if (ch === "#") {
+      const rest = src.slice(i).toUpperCase();
+      const code = ERROR_CODES.find(e => rest.startsWith(e));
+      if (!code) throw new Error(`Unexpected "${ch}"`);
+      out.push({ kind: "error", value: code });
+      i += code.length;
+      continue;
+    }
+
+    // sheet prefixes: Sheet2!A1, 'My Sheet'!A1
+    if (ch === "'" || /[A-Za-z_]/.test(ch)) {
+      const prefix = splitSheetPrefix(src.slice(i));
+      if (prefix.sheet !== undefined) {
+        out.push({ kind: "sheet", value: prefix.sheet });
+        i = src.length - prefix.rest.length;
+        continue;
+      }
+      if (ch === "'") throw new Error("Expected a sheet name like 'My Sheet'!A1");
+    }
+
+    // words: function names, references (A1, or A1# for a spill range), TRUE/FALSE, names
+    if (/[A-Za-z_$]/.test(ch)) {
+      const m = src.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_.$]*/)!;
+      const spill = src[i + m[0].length] === "#" && !!parseRefWord(m[0]);
+      out.push({ kind: "word", value: spill ? `${m[0]}#` : m[0] });
+      i += m[0].length + (spill ? 1 : 0);
+      continue;
+    }
+
+    const two = src.slice(i, i + 2);
+    if (TWO_CHAR_OPS.includes(two)) { out.push({ kind: "op", value: two }); i += 2; continue; }
+    if (ONE_CHAR_OPS.includes(ch)) { out.push({ kind: "op", value: ch }); i++; continue; }
+
+    throw new Error(`Unexpected "${ch}"`);
+  }
+  out.push({ kind: "eof" });
+  return out;
+}
+
+/**
+ * Parser (precedence from loosest to tightest, as in Excel):
+ *   comparison  = <> < > <= >=
+ *   concat      &
+ *   additive    + -
+ *   multiplic.  * /
+ *   power       ^          (left-associative: 2^3^2 = 64)
+ *   percent     postfix %
+ *   unary       prefix - + (binds tighter than ^: -2^2 = 4)
+ *   range       A1:B3
+ */
+class Parser {
+  private pos = 0;
+  private readonly tokens: Token[];
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  private peek() { return this.tokens[this.pos]; }
+  private next() { return this.tokens[this.pos++]; }
+  private isOp(value: string) {
+    const t = this.peek();
+    return t.kind === "op" && t.value === value;
+  }
+  private expectOp(value: string) {
+    if (!this.isOp(value)) throw new Error(`Expected "${value}"`);
+    this.pos++;
+  }
+
+  parseFormula(): Ast {
+    const ast = this.parseComparison();
+    if (this.peek().kind !== "eof") throw new Error("Unexpected input after formula");
+    return ast;
+  }
+
+  private parseBinary(ops: string[], sub: () => Ast): Ast {
+    let left = sub();
+    for (;;) {
+      const t = this.peek();
+      if (t.kind !== "op" || !ops.includes(t.value)) return left;
+      this.pos++;
+      left = { type: "binary", op: t.value as BinaryOp, left, right: sub() };
+    }
+  }
+
+  private parseComparison(): Ast {
+    return this.parseBinary(["=", "<>", "<", ">", "<=", ">="], () => this.parseConcat());
+  }
+  private parseConcat(): Ast {
+    return this.parseBinary(["&"], () => this.parseAdditive());
+  }
+  private parseAdditive(): Ast {
+    return this.parseBinary(["+", "-"], () => this.parseMultiplicative());
+  }
+  private parseMultiplicative(): Ast {
+    return this.parseBinary(["*", "/"], () => this.parsePower());
+  }
+  private parsePower(): Ast {
+    return this.parseBinary(["^"], () => this.parsePercent());
+  }
+  private parsePercent(): Ast {
+    let operand = this.parseUnary();
+    while (this.isOp("%")) { this.pos++; operand = { type: "percent", operand }; }
+    return operand;
+  }
+  private parseUnary(): Ast {
+    if (this.isOp("-") || this.isOp("+")) {
+      const op = this.next() as { value: "-" | "+" };
+      return { type: "unary", op: op.value, operand: this.parseUnary() };
+    }
+    return this.parseRange();
+  }
+  private parseRange(): Ast {
+    const first = this.parsePrimary();
+    if (!this.isOp(":")) return first;
+    this.pos++;
+    const second = this.parsePrimary();
+    if (first.type !== "ref" || second.type !== "ref") throw new Error("Invalid range");
+    // Sheet2!A1:B3 (or Sheet2!A1:Sheet2!B3) is one range on Sheet2
+    if (second.sheet !== undefined && (first.sheet === undefined || !sameSheet(first.sheet, second.sheet))) {
+      throw new Error("Invalid range");
+    }
+    return { type: "range", start: first.ref, end: second.ref, sheet: first.sheet };
+  }
+
+  private parsePrimary(): Ast {
+    const t = this.next();
+    switch (t.kind) {
+      case "number": return { type: "number", value: t.value };
+      case "string": return { type: "string", value: t.value };
+      case "error": return { type: "error", code: t.value };
+      case "op":
+        if (t.value === "(") {
+          const inner = this.parseComparison();
+          this.expectOp(")");
+          return this.parseInvocations(inner);
+        }
+        throw new Error(`Unexpected "${t.value}"`);
+      case "word": {
+        if (this.isOp("(")) return this.parseInvocations(this.parseCall(t.value));
+        if (t.value.endsWith("#")) return { type: "spill", ref: parseRefWord(t.value.slice(0, -1))! };
+        const upper = t.value.toUpperCase();
+        if (upper === "TRUE" || upper === "FALSE") return { type: "boolean", value: upper === "TRUE" };
+        const ref = parseRefWord(t.value);
+        if (ref) return { type: "ref", ref };
+        return { type: "name", name: t.value };
+      }
+      case "sheet": {
+        const w = this.next();
+        const spill = w.kind === "word" && w.value.endsWith("#");
+        const ref = w.kind === "word" ? parseRefWord(spill ? w.value.slice(0, -1) : w.value) : null;
+        if (!ref) throw new Error(`Expected a cell reference after ${formatSheetName(t.value)}!`);
+        return { type: spill ? "spill" : "ref", ref, sheet: t.value };
+      }
+      case "eof":
+        throw new Error("Unexpected end of formula");
+    }
+  }
+
+  private parseCall(name: string): Ast {
+    return { type: "call", name: name.toUpperCase(), args: this.parseArgs() };
+  }
+
+  /** `(args)` following a call or parenthesized expression calls its result: LAMBDA(x, x + 1)(2) */
+  private parseInvocations(callee: Ast): Ast {
+    while (this.isOp("(")) callee = { type: "invoke", callee, args: this.parseArgs() };
+    return callee;
+  }
+
+  private parseArgs(): Ast[] {
+    this.expectOp("(");
+    const args: Ast[] = [];
+    if (this.isOp(")")) { this.pos++; return args; }
+    for (;;) {
+      if (this.isOp(",") || this.isOp(")")) args.push({ type: "missing" });
+      else args.push(this.parseComparison());
+      if (this.isOp(",")) { this.pos++; continue; }
+      this.expectOp(")");
+      return args;
+    }
+  }
+}
+
+/** Parse formula text (without the leading "=") into an AST. Throws on syntax errors. */
+export function parseFormula(src: string): Ast {
+  return new Parser(tokenize(src)).parseFormula();
+}
+
+// Parsed ASTs are cached by raw text, so each distinct formula is parsed once.
+const astCache = new Map<string, Ast | Error>();
+const AST_CACHE_LIMIT = 5000;
+
+/**
+ * getFormulaAst(raw)
+ * - raw is the full cell text including "=" (e.g. "=SUM(A1:A3)")
+ * - returns the cached AST, or throws the cached syntax error
+ */
+export function getFormulaAst(raw: string): Ast {
+  let hit = astCache.get(raw);
+  if (hit === undefined) {
+    try {
+      hit = parseFormula(raw.slice(1));
+    } catch (e) {
+      hit = e instanceof Error ? e : new Error(String(e));
+    }
+    if (astCache.size >= AST_CACHE_LIMIT) astCache.clear();
+    astCache.set(raw, hit);
+  }
+  if (hit instanceof Error) throw hit;
+  return hit;
+}
+
+/**
+ * collectReferences(ast)
+ * - every cell id of its own sheet the formula reads, with ranges expanded (A1:A3 -> A1, A2, A3)
+ * - references to other sheets (Sheet2!A1) are left out; see collectSheetNames
+ */
+export function collectReferences(ast: Ast): string[] {
+  const out = new Set<string>();
+  const walk = (node: Ast) => {
+    switch (node.type) {
+      case "ref":
+      case "spill": // a spill range changes only when its formula cell does
+        if (node.sheet === undefined) out.add(cellId(node.ref.row, node.ref.col));
+        break;
+      case "range": {
+        if (node.sheet !== undefined) break;
+        const r1 = Math.min(node.start.row, node.end.row), r2 = Math.max(node.start.row, node.end.row);
+        const c1 = Math.min(node.start.col, node.end.col), c2 = Math.max(node.start.col, node.end.col);
+        for (let r = r1; r <= r2; r++) for (let c = c1; c <= c2; c++) out.add(cellId(r, c));
+        break;
+      }
+      case "unary":
+      case "percent":
+        walk(node.operand);
+        break;
+      case "binary":
+        walk(node.left);
+        walk(node.right);
+        break;
+      case "call":
+        node.args.forEach(walk);
+        break;
+      case "invoke":
+        walk(node.callee);
+        node.args.forEach(walk);
+        break;
+    }
+  };
+  walk(ast);
+  return [...out];
+}
+
+/** Names of the sheets the formula refers to by prefix (Sheet2!A1) */
+export function collectSheetNames(ast: Ast): string[] {
+  const out = new Set<string>();
+  const walk = (node: Ast) => {
+    switch (node.type) {
+      case "ref":
+      case "range":
+      case "spill":
+        if (node.sheet !== undefined) out.add(node.sheet);
+        break;
+      case "unary":
+      case "percent":
+        walk(node.operand);
+        break;
+      case "binary":
+        walk(node.left);
+        walk(node.right);
+        break;
+      case "call":
+        node.args.forEach(walk);
+        break;
+      case "invoke":
+        walk(node.callee);
+        node.args.forEach(walk);
+        break;
+    }
+  };
+  walk(ast);
+  return [...out];
+}
+
+/** Defined names the formula uses (TaxRate, Sales...), counting the functions it calls, which may be named LAMBDAs */
+export function collectNames(ast: Ast): string[] {
+  const out = new Set<string>();
+  const walk = (node: Ast) => {
+    switch (node.type) {
+      case "name":
+        out.add(node.name);
+        break;
+      case "unary":
+      case "percent":
+        walk(node.operand);
+        break;
+      case "binary":
+        walk(node.left);
+        walk(node.right);
+        break;
+      case "call":
+        out.add(node.name);
+        node.args.forEach(walk);
+        break;
+      case "invoke":
+        walk(node.callee);
+        node.args.forEach(walk);
+        break;
+    }
+  };
+  walk(ast);
+  return [...out];
+}
+
+/** Binding strength of each operator, loosest first, matching the Parser's levels */
+const PRECEDENCE: Record<BinaryOp, number> = {
+  "=": 1, "<>": 1, "<": 1, ">": 1, "<=": 1, ">=": 1,
+  "&": 2,
+  "+": 3, "-": 3,
+  "*": 4, "/": 4,
+  "^": 5,
+};
+const PERCENT_PRECEDENCE = 6;
+const UNARY_PRECEDENCE = 7;
+
+/**
+ * formatAst(ast, override?, spans?)
+ * - formula text (without "=") that parses back to the same AST, with parentheses only
+ *   where precedence needs them
+ * - `override` may print a node its own way (e.g. as the value it evaluated to); return
+ *   undefined to print it normally
+ * - `spans`, when given, receives where each printed node's text sits (its parentheses excluded)
+ */
+export function formatAst(
+  ast: Ast,
+  override?: (node: Ast) => string | undefined,
+  spans?: Map<Ast, { from: number; to: number }>
+): string {
+  const print = (node: Ast, min: number, at: number): string => {
+    const own = override?.(node);
+    const prec = node.type === "binary" ? PRECEDENCE[node.op]
+      : node.type === "unary" ? UNARY_PRECEDENCE
+      : node.type === "percent" ? PERCENT_PRECEDENCE
+      : Infinity;
+    const wrapped = own === undefined && prec < min;
+    const start = at + (wrapped ? 1 : 0);
+    let text = own ?? "";
+    // each child is printed where the text so far ends
+    const child = (n: Ast, m: number) => print(n, m, start + text.length);
+    const args = (list: Ast[]) => {
+      text += "(";
+      list.forEach((a, i) => {
+        if (i > 0) text += ", ";
+        text += child(a, 0);
+      });
+      text += ")";
+    };
+    const prefix = (sheet: string | undefined) => (sheet === undefined ? "" : `${formatSheetName(sheet)}!`);
+    if (own === undefined) {
+      switch (node.type) {
+        case "number": text = String(node.value); break;
+        case "string": text = `"${node.value.replace(/"/g, '""')}"`; break;
+        case "boolean": text = node.value ? "TRUE" : "FALSE"; break;
+        case "error": text = node.code; break;
+        case "missing": break;
+        case "ref": text = prefix(node.sheet) + refToString(node.ref); break;
+        case "range": text = `${prefix(node.sheet)}${refToString(node.start)}:${refToString(node.end)}`; break;
+        case "spill": text = `${prefix(node.sheet)}${refToString(node.ref)}#`; break;
+        case "name": text = node.name; break;
+        case "unary":
+          text = node.op;
+          text += child(node.operand, UNARY_PRECEDENCE);
+          break;
+        case "percent":
+          text += child(node.operand, UNARY_PRECEDENCE);
+          text += "%";
+          break;
+        case "binary":
+          text += child(node.left, prec);
+          text += node.op;
+          text += child(node.right, prec + 1);
+          break;
+        case "call":
+          text = node.name;
+          args(node.args);
+          break;
+        case "invoke": {
+          // only a call can be called as written; anything else gets parentheses
+          const bare = node.callee.type === "call" || node.callee.type === "invoke";
+          if (!bare) text = "(";
+          text += child(node.callee, 0);
+          if (!bare) text += ")";
+          args(node.args);
+          break;
+        }
+      }
+    }
+    spans?.set(node, { from: start, to: start + text.length });
+    return wrapped ? `(${text})` : text;
+  };
+  return print(ast, 0, 0);
+}
+
+/* ---------------- rewriting formula text ---------------- */
+
+/** A reference as written in formula text: one cell, or a range when `end` is set */
+export type RefSpan = { sheet?: string; start: CellRef; end?: CellRef };
+
+/** Which references a rewrite applies to, by their sheet prefix (undefined: no prefix) */
+export type SheetFilter = (sheet: string | undefined) => boolean;
+
+/** References without a sheet prefix, i.e. to the formula's own sheet */
+const UNQUALIFIED: SheetFilter = sheet => sheet === undefined;
+
+/** One reference word in formula text, with its character offsets */
+type RefWordAt = { ref: CellRef; from: number; to: number };
+
+/** A reference found in formula text; `from` includes the sheet prefix */
+type RefAt = { sheet?: string; from: number; start: RefWordAt; end?: RefWordAt };
+
+const WORD_RE = /^[A-Za-z_$][A-Za-z0-9_.$]*/;
+const NUMBER_RE = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+
+/**
+ * Find the cell and range references in formula text (including the leading "="),
+ * skipping string literals, numbers, error literals and function names.
+ */
+function scanReferences(src: string): RefAt[] {
+  const out: RefAt[] = [];
+  const refWordAt = (i: number): RefWordAt | null => {
+    const m = src.slice(i).match(WORD_RE);
+    if (!m) return null;
+    const to = i + m[0].length;
+    if (/^\s*\(/.test(src.slice(to))) return null; // function name
+    const ref = parseRefWord(m[0]);
+    return ref && { ref, from: i, to };
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '"') {
+      i++;
+      while (i < src.length && !(src[i] === '"' && src[i + 1] !== '"')) i += src[i] === '"' ? 2 : 1;
+      i++;
+      continue;
+    }
+    if (ch === "#") {
+      const code = ERROR_CODES.find(e => src.slice(i).toUpperCase().startsWith(e));
+      i += code ? code.length : 1;
+      continue;
+    }
+    if (/[0-9.]/.test(ch)) {
+      i += src.slice(i).match(NUMBER_RE)?.[0].length || 1;
+      continue;
+    }
+    const prefix = splitSheetPrefix(src.slice(i));
+    const at = src.length - prefix.rest.length;
+    const word = src.slice(at).match(WORD_RE);
+    if (!word) { i = at > i ? at : i + 1; continue; }
+    const start = refWordAt(at);
+    if (!start) { i = at + word[0].length; continue; }
+    // the end of a range may repeat the sheet prefix: Sheet2!A1:Sheet2!B3
+    const colon = src.slice(start.to).match(/^\s*:\s*/);
+    const endPrefix = colon ? splitSheetPrefix(src.slice(start.to + colon[0].length)) : null;
+    const end = endPrefix ? refWordAt(src.length - endPrefix.rest.length) : null;
+    out.push({ sheet: prefix.sheet, from: i, start, ...(end && { end }) });
+    i = (end ?? start).to;
+  }
+  return out;
+}
+
+/** A reference in formula text with the offsets it spans (`from` includes the sheet prefix) */
+export type RefToken = RefSpan & { from: number; to: number };
+
+/** The cell and range references of formula text, in order; none for non-formula text */
+export function findReferences(text: string): RefToken[] {
+  if (!text.startsWith("=")) return [];
+  return scanReferences(text).map(({ sheet, from, start, end }) => ({
+    sheet,
+    start: start.ref,
+    end: end?.ref,
+    from,
+    to: (end ?? start).to,
+  }));
+}
+
+/** Print a reference span back in A1 form */
+function spanToString(span: RefSpan) {
+  const sheet = span.sheet === undefined ? "" : `${formatSheetName(span.sheet)}!`;
+  return sheet + (span.end ? `${refToString(span.start)}:${refToString(span.end)}` : refToString(span.start));
+}
+
+/**
+ * mapReferences(raw, map)
+ * - rewrites every cell/range reference of a formula through `map`, leaving the rest of
+ *   the text as typed; `map` returning null writes #REF! in place of the reference
+ * - non-formula text is returned unchanged
+ */
+export function mapReferences(raw: string, map: (span: RefSpan) => RefSpan | null): string {
+  if (!raw.startsWith("=")) return raw;
+  let out = "";
+  let last = 0;
+  for (const { sheet, from, start, end } of scanReferences(raw)) {
+    const to = (end ?? start).to;
+    const before: RefSpan = { sheet, start: start.ref, end: end?.ref };
+    const after = map(before);
+    const text = after === null ? "#REF!" : spanToString(after);
+    out += raw.slice(last, from) + (text === spanToString(before) ? raw.slice(from, to) : text);
+    last = to;
+  }
+  return out + raw.slice(last);
+}
+
+/**
+ * shiftReferences(raw, dRows, dCols)
+ * - the formula as it reads when copied dRows down and dCols right: relative parts move,
+ *   `$`-anchored parts stay; references pushed off the sheet become #REF!
+ */
+export function shiftReferences(raw: string, dRows: number, dCols: number): string {
+  if (dRows === 0 && dCols === 0) return raw;
+  const shift = (ref: CellRef): CellRef | null => {
+    const row = ref.absRow ? ref.row : ref.row + dRows;
+    const col = ref.absCol ? ref.col : ref.col + dCols;
+    return row < 0 || col < 0 ? null : { ...ref, row, col };
+  };
+  return mapReferences(raw, (span) => {
+    const s = shift(span.start);
+    const e = span.end ? shift(span.end) : undefined;
+    return s && e !== null ? { ...span, start: s, end: e } : null;
+  });
+}
+
+/**
+ * moveReferences(raw, block, dRows, dCols, affects?)
+ * - the formula after the cells of `block` were moved by (dRows, dCols): references to
+ *   cells inside the block, and ranges lying wholly inside it, follow the cells
+ * - `affects` picks the references to the moved sheet (default: those without a prefix)
+ */
+export function moveReferences(
+  raw: string,
+  block: RangeRef,
+  dRows: number,
+  dCols: number,
+  affects: SheetFilter = UNQUALIFIED
+): string {
+  if (dRows === 0 && dCols === 0) return raw;
+  const inside = (ref: CellRef) =>
+    ref.row >= block.top && ref.row <= block.bottom && ref.col >= block.left && ref.col <= block.right;
+  const move = (ref: CellRef): CellRef => ({ ...ref, row: ref.row + dRows, col: ref.col + dCols });
+  return mapReferences(raw, (span) => {
+    if (!affects(span.sheet) || !inside(span.start) || (span.end && !inside(span.end))) return span;
+    return { ...span, start: move(span.start), end: span.end && move(span.end) };
+  });
+}
+
+/**
+ * cycleAnchorAt(text, caret)
+ * - F4 behaviour: the reference touching the caret cycles A1 -> $A$1 -> A$1 -> $A1 -> A1
+ * - returns the new text and the caret placed after the reference, or null when the caret
+ *   is not on a reference
+ */
+export function cycleAnchorAt(text: string, caret: number): { text: string; caret: number } | null {
+  if (!text.startsWith("=")) return null;
+  for (const { start, end } of scanReferences(text)) {
+    const word = [start, end].find(w => w && caret >= w.from && caret <= w.to);
+    if (!word) continue;
+    const { absRow, absCol } = word.ref;
+    const next = !absRow && !absCol ? { absRow: true, absCol: true }
+      : absRow && absCol ? { absRow: true, absCol: false }
+      : absRow ? { absRow: false, absCol: true }
+      : { absRow: false, absCol: false };
+    const printed = refToString({ ...word.ref, ...next });
+    return {
+      text: text.slice(0, word.from) + printed + text.slice(word.to),
+      caret: word.from + printed.length,
+    };
+  }
+  return null;
+}
+
+/**
+ * spliceReferences(raw, axis, at, delta, affects?)
+ * - the formula after `delta` rows (or columns) were inserted before index `at` (delta > 0),
+ *   or -delta of them deleted starting at `at` (delta < 0)
+ * - references to cells that moved follow them, `$` anchors or not; ranges grow when lines
+ *   are inserted inside them and shrink when some of their lines are deleted; references
+ *   whose cells were all deleted become #REF!
+ * - `affects` picks the references to the changed sheet (default: those without a prefix)
+ */
+export function spliceReferences(
+  raw: string,
+  axis: "row" | "col",
+  at: number,
+  delta: number,
+  affects: SheetFilter = UNQUALIFIED
+): string {
+  if (delta === 0) return raw;
+  const lastDeleted = at - delta - 1;
+  // new [lo, hi] of a span along the axis, or null when every line of it was deleted
+  const splice = (lo: number, hi: number): [number, number] | null => {
+    if (delta > 0) return [lo >= at ? lo + delta : lo, hi >= at ? hi + delta : hi];
+    const nlo = lo < at ? lo : lo > lastDeleted ? lo + delta : at;
+    const nhi = hi < at ? hi : hi > lastDeleted ? hi + delta : at - 1;
+    return nhi < nlo ? null : [nlo, nhi];
+  };
+  return mapReferences(raw, (span) => {
+    if (!affects(span.sheet)) return span;
+    const { start, end } = span;
+    const other = end ?? start;
+    const swapped = other[axis] < start[axis];
+    const lo = swapped ? other : start, hi = swapped ? start : other;
+    const next = splice(lo[axis], hi[axis]);
+    if (!next) return null;
+    const nlo: CellRef = { ...lo, [axis]: next[0] };
+    const nhi: CellRef = { ...hi, [axis]: next[1] };
+    if (!end) return { ...span, start: nlo };
+    return swapped ? { ...span, start: nhi, end: nlo } : { ...span, start: nlo, end: nhi };
+  });
+}
+
+/**
+ * renameSheetReferences(raw, from, to)
+ * - points references to sheet `from` at sheet `to`; with `to` null (the sheet was
+ *   deleted) they become #REF!
+ */
+export function renameSheetReferences(raw: string, from: string, to: string | null): string {
+  return mapReferences(raw, (span) => {
+    if (span.sheet === undefined || !sameSheet(span.sheet, from)) return span;
+    return to === null ? null : { ...span, sheet: to };
+  });
+}
@@ -0,0 +1,157 @@
+// src/utils/formulaValues.ts
+// Value model shared by the formula interpreter and the function libraries:
+// scalars, Excel-style error values, ranges, and the coercion rules between them.
+
+import { parseDateText } from "./dateSerial";
+
+export type ErrorCode =
+  | "#DIV/0!"
+  | "#REF!"
+  | "#NAME?"
+  | "#VALUE!"
+  | "#N/A"
+  | "#NUM!"
+  | "#NULL!"
+  | "#SPILL!"  // an array result is blocked by non-empty cells
+  | "#CALC!"   // e.g. FILTER with nothing left and no if_empty
+  | "#CIRC!"   // circular reference (iterative calculation off)
+  | "#ERROR!"; // formula could not be parsed
+
+/** An error value. `message` explains the cause and is shown as a tooltip in the grid. */
+export type FormulaError = { error: ErrorCode; message?: string };
+
+/** A single evaluated value; null stands for a blank cell */
+export type Scalar = number | string | boolean | FormulaError | null;
+/** Result of evaluating an expression: a scalar or a 2D block of cell values */
+export type Value = Scalar | Scalar[][];
+
+/** A rectangular block of cells (0-based, inclusive) — what a reference points at */
+export type RangeRef = {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+  /** Another sheet of the workbook (Sheet2!A1); absent for the formula's own sheet */
+  sheet?: string;
+};
+
+export const ERROR_CODES: ErrorCode[] = [
+  "#DIV/0!", "#REF!", "#NAME?", "#VALUE!", "#N/A", "#NUM!", "#NULL!", "#SPILL!", "#CALC!", "#CIRC!", "#ERROR!",
+];
+
+export function formulaError(error: ErrorCode, message?: string): FormulaError {
+  return message ? { error, message } : { error };
+}
+
+export function isFormulaError(v: unknown): v is FormulaError {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && typeof (v as FormulaError).error === "string";
+}
+
+/**
+ * A LAMBDA value: its parameter names and how to call it. Anywhere it is used as data instead
+ * of being called it is the #CALC! error, as in Excel.
+ */
+export type LambdaValue = FormulaError & { lambda: { params: string[]; call: (args: Value[]) => Value } };
+
+export function lambdaValue(params: string[], call: (args: Value[]) => Value): LambdaValue {
+  return { error: "#CALC!", message: "A LAMBDA has to be called, e.g. =LAMBDA(x, x + 1)(2)", lambda: { params, call } };
+}
+
+export function isLambda(v: unknown): v is LambdaValue {
+  return isFormulaError(v) && typeof (v as LambdaValue).lambda === "object";
+}
+
+/** Render numbers the way Excel's General format does: at most 15 significant digits */
+export function numberToText(n: number) {
+  return String(Number(n.toPrecision(15)));
+}
+
+/** Text shown for a computed value (TRUE/FALSE for booleans, the code for errors, "" for blanks) */
+export function valueToText(v: Scalar | undefined): string {
+  if (v == null) return "";
+  if (typeof v === "boolean") return v ? "TRUE" : "FALSE";
+  if (typeof v === "number") return numberToText(v);
+  if (isFormulaError(v)) return v.error;
+  return v;
+}
+
+/*
+ * Coercions. Errors are thrown (as the FormulaError object itself) so they propagate
+ * through operators and functions; the interpreter turns them back into values at
+ * argument and cell boundaries.
+ */
+
+/** Rethrow an error value, otherwise pass the value through */
+export function checkError<T extends Scalar>(v: T): Exclude<T, FormulaError> {
+  if (isFormulaError(v)) throw v;
+  return v as Exclude<T, FormulaError>;
+}
+
+export function toNumber(v: Scalar): number {
+  v = checkError(v);
+  if (v == null) return 0;
+  if (typeof v === "number") return v;
+  if (typeof v === "boolean") return v ? 1 : 0;
+  if (v.trim() === "") return 0;
+  const n = Number(v);
+  if (!Number.isNaN(n)) return n;
+  // date and time text coerces to its serial, so ="2024-01-15"+1 works
+  const date = parseDateText(v);
+  if (date) return date.serial;
+  throw formulaError("#VALUE!", `"${v}" is not a number`);
+}
+
+export function toText(v: Scalar): string {
+  return valueToText(checkError(v));
+}
+
+export function toBoolean(v: Scalar): boolean {
+  v = checkError(v);
+  if (v == null) return false;
+  if (typeof v === "boolean") return v;
+  if (typeof v === "number") return v !== 0;
+  const up = v.toUpperCase();
+  if (up === "TRUE") return true;
+  if (up === "FALSE") return false;
+  throw formulaError("#VALUE!", `"${v}" is not TRUE or FALSE`);
+}
+
+/** Non-finite arithmetic results become #NUM! */
+export function checkNumber(n: number): number {
+  if (!Number.isFinite(n)) throw formulaError("#NUM!", "Result is too large or not a number");
+  return n;
+}
+
+/** Collapse a value to one scalar; a (multi-cell) range used where a single value is needed is #VALUE! */
+export function toScalar(v: Value): Scalar {
+  if (Array.isArray(v) && v.length === 1 && v[0].length === 1) return v[0][0];
+  if (Array.isArray(v)) throw formulaError("#VALUE!", "A range was used where a single value is expected");
+  return v;
+}
+
+export function flatten(v: Value): Scalar[] {
+  return Array.isArray(v) ? v.flat() : [v];
+}
+
+/** A value as a 2D block (a scalar becomes 1x1) */
+export function toMatrix(v: Value): Scalar[][] {
+  return Array.isArray(v) ? v : [[v]];
+}
+
+/** Excel ordering for comparisons: numbers < text < booleans; text is case-insensitive */
+export function compareScalars(a: Scalar, b: Scalar): number {
+  a = checkError(a);
+  b = checkError(b);
+  // blanks take the type of the other side
+  if (a == null) a = typeof b === "string" ? "" : typeof b === "boolean" ? false : 0;
+  if (b == null) b = typeof a === "string" ? "" : typeof a === "boolean" ? false : 0;
+  const rank = (v: Scalar) => (typeof v === "number" ? 0 : typeof v === "string" ? 1 : 2);
+  const ra = rank(a), rb = rank(b);
+  if (ra !== rb) return ra - rb;
+  if (typeof a === "string" && typeof b === "string") {
+    const la = a.toLowerCase(), lb = b.toLowerCase();
+    return la < lb ? -1 : la > lb ? 1 : 0;
+  }
+  const na = Number(a), nb = Number(b);
+  return na < nb ? -1 : na > nb ? 1 : 0;
+}
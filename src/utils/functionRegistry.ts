@@ -0,0 +1,130 @@
+// src/utils/functionRegistry.ts
+// Registry of built-in spreadsheet functions. Each library under ./functions exports a
+// table of specs; the interpreter looks functions up here by (upper-case) name.
+
+import type { RangeRef, Scalar, Value } from "./formulaValues";
+import { AGGREGATE_FUNCTIONS } from "./functions/aggregate";
+import { ARRAY_FUNCTIONS } from "./functions/array";
+import { DATE_FUNCTIONS } from "./functions/date";
+import { FINANCIAL_FUNCTIONS } from "./functions/financial";
+import { INFO_FUNCTIONS } from "./functions/info";
+import { LAMBDA_FUNCTIONS } from "./functions/lambda";
+import { LOGICAL_FUNCTIONS } from "./functions/logical";
+import { LOOKUP_FUNCTIONS } from "./functions/lookup";
+import { MATH_FUNCTIONS } from "./functions/math";
+import { STATISTICAL_FUNCTIONS } from "./functions/statistical";
+import { TEXT_FUNCTIONS } from "./functions/text";
+import { WHAT_IF_FUNCTIONS } from "./functions/whatIf";
+
+/**
+ * How an argument is handed to the implementation:
+ * - "scalar": a single value; given an array, the function is called once per element
+ *             and the results make an array (for lazy functions, only the first argument
+ *             does this, and the others are then read element by element too)
+ * - "range":  a 2D block; a single cell reference arrives as a 1x1 block, so the function
+ *             can tell referenced values (skip text/blanks) from typed-in ones (coerce)
+ * - "any":    whatever the expression evaluated to
+ * - "ref":    the argument must be a reference; its values are not read (null is passed)
+ *             and the cells it covers are in ctx.refs
+ */
+export type ArgType = "scalar" | "range" | "any" | "ref";
+
+/** What a function knows about the call besides its argument values */
+export type FunctionContext = {
+  /** Position of the cell whose formula is being calculated */
+  row: number;
+  col: number;
+  /** Random numbers in [0, 1); seeded when CalcOptions.seed is set */
+  random: () => number;
+  /** Per argument: the cells it covers when it was written as a reference (A1, A1:B3, OFFSET(...)) */
+  refs: Array<RangeRef | null>;
+  /** Per argument: the name when it was written as a bare name (LET's variables, LAMBDA's parameters) */
+  argNames: Array<string | null>;
+  /**
+   * Value of the cell at (row, col) of the sheet if the `inputs` cells held other values:
+   * the formulas reading them are worked out again, nothing is stored (what-if analysis).
+   * Without inputs, its value as the sheet stands, whether or not this recalc reached it yet.
+   */
+  whatIf: (row: number, col: number, inputs?: WhatIfInput[]) => Value;
+};
+
+/** A cell given another value for a what-if evaluation */
+export type WhatIfInput = { row: number; col: number; value: Scalar };
+
+/**
+ * An argument of a lazy function: evaluated (with its declared type) only when called.
+ * `bindings` are local names (LET, LAMBDA) visible to that evaluation on top of the caller's.
+ */
+export type LazyArg = (bindings?: Record<string, Value>) => Value;
+
+type SpecBase = {
+  minArgs: number;
+  /** Omit for variadic functions */
+  maxArgs?: number;
+  /** Per-position argument types. Defaults to "scalar". */
+  args?: ArgType[];
+  /** How many trailing `args` entries repeat as a group for extra arguments (default 1) */
+  repeat?: number;
+  /**
+   * Argument names shown while the function is typed (lookup_value, table_array...); for
+   * variadic functions the last `repeat` of them are the group that repeats
+   */
+  params?: string[];
+  /** One-line summary, shown wherever functions are listed */
+  description: string;
+  /** Recalculated on every recalc, since its inputs can't be read off the formula */
+  volatile?: boolean;
+};
+
+/**
+ * A function receives either evaluated arguments (`fn`) or, for functions that must not
+ * evaluate every argument (IF, IFS, SWITCH...), thunks (`lazy`; ctx.refs is empty).
+ * Functions that produce a reference (OFFSET, INDIRECT) implement `reference` instead.
+ * Error arguments arrive as FormulaError values; coercion helpers rethrow them.
+ */
+export type FunctionSpec = SpecBase & (
+  | { fn: (args: Value[], ctx: FunctionContext) => Value; lazy?: undefined; reference?: undefined }
+  | { lazy: (args: LazyArg[], ctx: FunctionContext) => Value; fn?: undefined; reference?: undefined }
+  | { reference: (args: Value[], ctx: FunctionContext) => RangeRef; fn?: undefined; lazy?: undefined }
+);
+
+const registry = new Map<string, FunctionSpec>(
+  Object.entries({
+    ...AGGREGATE_FUNCTIONS,
+    ...ARRAY_FUNCTIONS,
+    ...DATE_FUNCTIONS,
+    ...FINANCIAL_FUNCTIONS,
+    ...LOGICAL_FUNCTIONS,
+    ...INFO_FUNCTIONS,
+    ...LAMBDA_FUNCTIONS,
+    ...LOOKUP_FUNCTIONS,
+    ...MATH_FUNCTIONS,
+    ...STATISTICAL_FUNCTIONS,
+    ...TEXT_FUNCTIONS,
+    ...WHAT_IF_FUNCTIONS,
+  })
+);
+
+export function getFunction(name: string): FunctionSpec | undefined {
+  return registry.get(name.toUpperCase());
+}
+
+/** Add (or replace) a function at runtime */
+export function registerFunction(name: string, spec: FunctionSpec) {
+  registry.set(name.toUpperCase(), spec);
+}
+
+/** All registered names, sorted */
+export function listFunctions(): string[] {
+  return [...registry.keys()].sort();
+}
+
+/** Declared type of the i-th argument */
+export function argTypeAt(spec: FunctionSpec, i: number): ArgType {
+  const types = spec.args;
+  if (!types || types.length === 0) return "scalar";
+  if (i < types.length) return types[i];
+  const group = Math.min(spec.repeat ?? 1, types.length);
+  const start = types.length - group;
+  return types[start + ((i - start) % group)];
+}
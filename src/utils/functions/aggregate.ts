@@ -0,0 +1,257 @@
+// src/utils/functions/aggregate.ts
+// SUM, AVERAGE, COUNT & friends.
+// Excel rule: values that come from references (ranges, cells) only count when they are
+// numbers — text, booleans and blanks are skipped — while values typed directly as
+// arguments are coerced (SUM("3", TRUE) = 4). Errors anywhere propagate, except in COUNT/COUNTA.
+
+import type { FunctionSpec } from "../functionRegistry";
+import { checkError, formulaError, toNumber, toScalar } from "../formulaValues";
+import type { Scalar, Value } from "../formulaValues";
+import { parseCriteria } from "./criteria";
+
+/** Numbers an aggregate should see, following the reference-vs-literal rule above */
+export function collectNumbers(args: Value[]): number[] {
+  const out: number[] = [];
+  for (const a of args) {
+    if (Array.isArray(a)) {
+      for (const row of a) {
+        for (const v of row) {
+          checkError(v);
+          if (typeof v === "number") out.push(v);
+        }
+      }
+    } else {
+      out.push(toNumber(a));
+    }
+  }
+  return out;
+}
+
+/** Would COUNT count this directly-typed value? (numbers, booleans, numeric text) */
+function countsAsNumber(v: Scalar) {
+  if (typeof v === "number" || typeof v === "boolean") return true;
+  return typeof v === "string" && v.trim() !== "" && !Number.isNaN(Number(v));
+}
+
+function sumproduct(args: Value[]): Value {
+  const blocks = args.map(a => (Array.isArray(a) ? a : [[a]]));
+  const rows = blocks[0].length, cols = blocks[0][0]?.length ?? 0;
+  if (blocks.some(b => b.length !== rows || (b[0]?.length ?? 0) !== cols)) {
+    return formulaError("#VALUE!", "SUMPRODUCT arrays must all be the same size");
+  }
+  let total = 0;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      let p = 1;
+      for (const b of blocks) {
+        const v = checkError(b[r][c]);
+        p *= typeof v === "number" ? v : 0; // non-numeric entries count as zero
+      }
+      total += p;
+    }
+  }
+  return total;
+}
+
+/** A range argument as a block (a typed-in scalar is a 1x1 block) */
+function asBlock(v: Value): Scalar[][] {
+  return Array.isArray(v) ? v : [[v]];
+}
+
+/**
+ * Positions (row, col) where every criteria range matches its criteria.
+ * `pairs` alternates range, criteria as in COUNTIFS; all ranges must share one shape.
+ */
+function matchingCells(name: string, pairs: Value[], shape?: Scalar[][]): Array<[number, number]> {
+  if (pairs.length === 0 || pairs.length % 2 !== 0) {
+    throw formulaError("#VALUE!", `${name} needs range/criteria pairs`);
+  }
+  const tests: Array<{ block: Scalar[][]; test: (v: Scalar) => boolean }> = [];
+  for (let i = 0; i < pairs.length; i += 2) {
+    tests.push({ block: asBlock(pairs[i]), test: parseCriteria(toScalar(pairs[i + 1])) });
+  }
+  const first = shape ?? tests[0].block;
+  const rows = first.length, cols = first[0]?.length ?? 0;
+  if (tests.some(t => t.block.length !== rows || (t.block[0]?.length ?? 0) !== cols)) {
+    throw formulaError("#VALUE!", `${name} ranges must all be the same size`);
+  }
+  const out: Array<[number, number]> = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (tests.every(t => t.test(t.block[r][c]))) out.push([r, c]);
+    }
+  }
+  return out;
+}
+
+/** Numeric values of `block` at the matched positions (text and blanks skipped, errors propagate) */
+function numbersAt(block: Scalar[][], cells: Array<[number, number]>): number[] {
+  const out: number[] = [];
+  for (const [r, c] of cells) {
+    const v = checkError(block[r]?.[c] ?? null);
+    if (typeof v === "number") out.push(v);
+  }
+  return out;
+}
+
+function average(name: string, nums: number[]): Value {
+  if (nums.length === 0) return formulaError("#DIV/0!", `${name} matched no numbers`);
+  return nums.reduce((a, b) => a + b, 0) / nums.length;
+}
+
+export const AGGREGATE_FUNCTIONS: Record<string, FunctionSpec> = {
+  SUM: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["number"],
+    description: "Total of values",
+    fn: (args) => collectNumbers(args).reduce((a, b) => a + b, 0),
+  },
+  AVERAGE: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["number"],
+    description: "Mean of values",
+    fn: (args) => {
+      const nums = collectNumbers(args);
+      if (nums.length === 0) return formulaError("#DIV/0!", "AVERAGE of no numbers");
+      return nums.reduce((a, b) => a + b, 0) / nums.length;
+    },
+  },
+  MIN: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["number"],
+    description: "Lowest value",
+    fn: (args) => {
+      const nums = collectNumbers(args);
+      return nums.length ? nums.reduce((a, b) => Math.min(a, b)) : 0;
+    },
+  },
+  MAX: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["number"],
+    description: "Highest value",
+    fn: (args) => {
+      const nums = collectNumbers(args);
+      return nums.length ? nums.reduce((a, b) => Math.max(a, b)) : 0;
+    },
+  },
+  PRODUCT: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["number"],
+    description: "Values multiplied together",
+    fn: (args) => {
+      const nums = collectNumbers(args);
+      return nums.length ? nums.reduce((a, b) => a * b, 1) : 0;
+    },
+  },
+  COUNT: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["value"],
+    description: "Number of numeric values",
+    fn: (args) => {
+      let n = 0;
+      for (const a of args) {
+        if (Array.isArray(a)) n += a.flat().filter(v => typeof v === "number").length;
+        else if (countsAsNumber(a)) n++;
+      }
+      return n;
+    },
+  },
+  COUNTA: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["value"],
+    description: "Number of non-empty values",
+    fn: (args) => {
+      let n = 0;
+      for (const a of args) {
+        if (Array.isArray(a)) n += a.flat().filter(v => v !== null).length;
+        else n++; // any typed argument counts, even "" or an error
+      }
+      return n;
+    },
+  },
+  COUNTBLANK: {
+    minArgs: 1,
+    maxArgs: 1,
+    args: ["range"],
+    params: ["range"],
+    description: "Number of empty cells in a range",
+    fn: ([a]) => {
+      if (!Array.isArray(a)) return formulaError("#VALUE!", "COUNTBLANK needs a range");
+      return a.flat().filter(v => v === null || v === "").length;
+    },
+  },
+  SUMPRODUCT: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["array"],
+    description: "Sum of the products of matching entries",
+    fn: sumproduct,
+  },
+  SUMIF: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["range", "scalar", "range"],
+    params: ["range", "criteria", "sum_range"],
+    description: "Sum of cells that meet a condition",
+    fn: ([range, criteria, sumRange]) => {
+      const cells = matchingCells("SUMIF", [range, criteria]);
+      return numbersAt(asBlock(sumRange ?? range), cells).reduce((a, b) => a + b, 0);
+    },
+  },
+  SUMIFS: {
+    minArgs: 3,
+    args: ["range", "range", "scalar"],
+    repeat: 2,
+    params: ["sum_range", "criteria_range", "criteria"],
+    description: "Sum of cells that meet several conditions",
+    fn: ([sumRange, ...pairs]) => {
+      const block = asBlock(sumRange);
+      return numbersAt(block, matchingCells("SUMIFS", pairs, block)).reduce((a, b) => a + b, 0);
+    },
+  },
+  COUNTIF: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["range", "scalar"],
+    params: ["range", "criteria"],
+    description: "Number of cells that meet a condition",
+    fn: (args) => matchingCells("COUNTIF", args).length,
+  },
+  COUNTIFS: {
+    minArgs: 2,
+    args: ["range", "scalar"],
+    repeat: 2,
+    params: ["criteria_range", "criteria"],
+    description: "Number of cells that meet several conditions",
+    fn: (args) => matchingCells("COUNTIFS", args).length,
+  },
+  AVERAGEIF: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["range", "scalar", "range"],
+    params: ["range", "criteria", "average_range"],
+    description: "Mean of cells that meet a condition",
+    fn: ([range, criteria, avgRange]) => {
+      const cells = matchingCells("AVERAGEIF", [range, criteria]);
+      return average("AVERAGEIF", numbersAt(asBlock(avgRange ?? range), cells));
+    },
+  },
+  AVERAGEIFS: {
+    minArgs: 3,
+    args: ["range", "range", "scalar"],
+    repeat: 2,
+    params: ["average_range", "criteria_range", "criteria"],
+    description: "Mean of cells that meet several conditions",
+    fn: ([avgRange, ...pairs]) => {
+      const block = asBlock(avgRange);
+      return average("AVERAGEIFS", numbersAt(block, matchingCells("AVERAGEIFS", pairs, block)));
+    },
+  },
+};
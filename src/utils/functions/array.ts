@@ -0,0 +1,158 @@
+// src/utils/functions/array.ts
+// Dynamic array functions. Each returns a block of values that the engine spills into the
+// cells right of and below the formula (see spillInto in formulaEngine.ts).
+
+import type { FunctionSpec } from "../functionRegistry";
+import { checkError, compareScalars, formulaError, isFormulaError, toBoolean, toMatrix, toNumber, toScalar } from "../formulaValues";
+import type { Scalar, Value } from "../formulaValues";
+
+const num = (v: Value | undefined, fallback = 0) => (v == null ? fallback : toNumber(toScalar(v)));
+const flag = (v: Value | undefined) => (v == null ? false : toBoolean(toScalar(v)));
+
+/** Largest block SEQUENCE builds; the engine refuses to spill much less than this anyway */
+const MAX_CELLS = 1_000_000;
+
+function transpose(m: Scalar[][]): Scalar[][] {
+  return m[0].map((_, c) => m.map(row => row[c]));
+}
+
+/** compareScalars for sort keys: blanks, then errors, go last whatever the order */
+function compareKeys(a: Scalar, b: Scalar, order: number) {
+  const rank = (v: Scalar) => (v === null || v === "" ? 1 : isFormulaError(v) ? 2 : 0);
+  const ra = rank(a), rb = rank(b);
+  if (ra || rb) return ra - rb;
+  return order * compareScalars(a, b);
+}
+
+function sortOrder(v: Value | undefined) {
+  const order = num(v, 1);
+  if (order !== 1 && order !== -1) throw formulaError("#VALUE!", "Sort order must be 1 (ascending) or -1 (descending)");
+  return order;
+}
+
+/** Rows (or, by column, columns) of `m`, reordered by `compare` on their indices */
+function reorder(m: Scalar[][], byCol: boolean, compare: (a: number, b: number) => number): Scalar[][] {
+  const lines = byCol ? transpose(m) : m;
+  const sorted = lines.map((_, i) => i).sort(compare).map(i => lines[i]);
+  return byCol ? transpose(sorted) : sorted;
+}
+
+/** Text/number/boolean identity of a value for UNIQUE (text compares case-insensitively) */
+function uniqueKey(line: Scalar[]) {
+  return JSON.stringify(line.map(v => (typeof v === "string" ? ["s", v.toLowerCase()] : isFormulaError(v) ? ["e", v.error] : v)));
+}
+
+export const ARRAY_FUNCTIONS: Record<string, FunctionSpec> = {
+  SEQUENCE: {
+    minArgs: 1,
+    maxArgs: 4,
+    params: ["rows", "columns", "start", "step"],
+    description: "Array of sequential numbers (rows, columns, start, step)",
+    fn: ([rows, cols, start, step]) => {
+      const r = Math.trunc(num(rows)), c = Math.trunc(num(cols, 1));
+      if (r < 1 || c < 1) return formulaError("#CALC!", "SEQUENCE needs at least one row and one column");
+      if (r * c > MAX_CELLS) return formulaError("#NUM!", "SEQUENCE is too large");
+      const first = num(start, 1), by = num(step, 1);
+      return Array.from({ length: r }, (_, i) => Array.from({ length: c }, (_, j) => first + (i * c + j) * by));
+    },
+  },
+  TRANSPOSE: {
+    minArgs: 1,
+    maxArgs: 1,
+    args: ["range"],
+    params: ["array"],
+    description: "Array with rows and columns swapped",
+    fn: ([array]) => transpose(toMatrix(array)),
+  },
+  FILTER: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["range", "range", "any"],
+    params: ["array", "include", "if_empty"],
+    description: "Rows (or columns) of an array where include is TRUE",
+    fn: ([array, include, ifEmpty]) => {
+      const m = toMatrix(array);
+      const keep = toMatrix(include);
+      let out: Scalar[][];
+      // a column of flags picks rows, a row of flags picks columns
+      if (keep[0].length === 1 && keep.length === m.length) {
+        out = m.filter((_, i) => toBoolean(checkError(keep[i][0])));
+      } else if (keep.length === 1 && keep[0].length === m[0].length) {
+        const cols = keep[0].map(v => toBoolean(checkError(v)));
+        out = m.map(row => row.filter((_, j) => cols[j]));
+        if (out[0].length === 0) out = [];
+      } else {
+        return formulaError("#VALUE!", "FILTER's include must be one row or column the size of the array");
+      }
+      if (out.length === 0) return ifEmpty != null ? ifEmpty : formulaError("#CALC!", "FILTER found nothing");
+      return out;
+    },
+  },
+  SORT: {
+    minArgs: 1,
+    maxArgs: 4,
+    args: ["range", "scalar", "scalar", "scalar"],
+    params: ["array", "sort_index", "sort_order", "by_col"],
+    description: "Array sorted by one of its columns (or rows)",
+    fn: ([array, sortIndex, order, byCol]) => {
+      const m = toMatrix(array);
+      const by = flag(byCol);
+      const index = Math.trunc(num(sortIndex, 1)) - 1;
+      if (index < 0 || index >= (by ? m.length : m[0].length)) return formulaError("#VALUE!", "SORT index is outside the array");
+      const dir = sortOrder(order);
+      const key = (i: number) => (by ? m[index][i] : m[i][index]);
+      return reorder(m, by, (a, b) => compareKeys(key(a), key(b), dir));
+    },
+  },
+  SORTBY: {
+    minArgs: 2,
+    args: ["range", "range", "scalar"],
+    repeat: 2,
+    params: ["array", "by_array", "sort_order"],
+    description: "Array sorted by other arrays (by_array, order, ...)",
+    fn: ([array, ...pairs]) => {
+      const m = toMatrix(array);
+      const keys: Array<{ values: Scalar[]; order: number }> = [];
+      let byCol: boolean | null = null;
+      for (let i = 0; i < pairs.length; i += 2) {
+        const k = toMatrix(pairs[i]);
+        // a column the height of the array sorts rows; a row its width sorts columns
+        const col = k[0].length === 1 && k.length === m.length;
+        const row = k.length === 1 && k[0].length === m[0].length;
+        if (!col && !row) return formulaError("#VALUE!", "SORTBY's by_array must be one row or column the size of the array");
+        if (byCol !== null && byCol !== !col) return formulaError("#VALUE!", "SORTBY's by_arrays must all be rows or all columns");
+        byCol = !col;
+        keys.push({ values: col ? k.map(r => r[0]) : k[0], order: sortOrder(pairs[i + 1]) });
+      }
+      return reorder(m, !!byCol, (a, b) => {
+        for (const { values, order } of keys) {
+          const c = compareKeys(values[a], values[b], order);
+          if (c) return c;
+        }
+        return 0;
+      });
+    },
+  },
+  UNIQUE: {
+    minArgs: 1,
+    maxArgs: 3,
+    args: ["range", "scalar", "scalar"],
+    params: ["array", "by_col", "exactly_once"],
+    description: "Distinct rows (or columns) of an array; optionally only those occurring once",
+    fn: ([array, byCol, exactlyOnce]) => {
+      const by = flag(byCol), once = flag(exactlyOnce);
+      const lines = by ? transpose(toMatrix(array)) : toMatrix(array);
+      const counts = new Map<string, number>();
+      for (const line of lines) counts.set(uniqueKey(line), (counts.get(uniqueKey(line)) ?? 0) + 1);
+      const seen = new Set<string>();
+      const out = lines.filter(line => {
+        const key = uniqueKey(line);
+        if (seen.has(key) || (once && counts.get(key)! > 1)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (out.length === 0) return formulaError("#CALC!", "UNIQUE found no values occurring once");
+      return by ? transpose(out) : out;
+    },
+  },
+};
@@ -0,0 +1,95 @@
+// src/utils/functions/criteria.ts
+// Excel criteria strings as used by SUMIF/COUNTIF & co: ">=50", "<>x", "app*", "", 42 ...
+// Also home of the wildcard matcher (* any run, ? one character, ~ escapes) shared with lookups.
+
+import { checkError, isFormulaError } from "../formulaValues";
+import type { Scalar } from "../formulaValues";
+
+/** Case-insensitive RegExp for an Excel wildcard pattern, matching the whole string unless `whole` is false */
+export function wildcardToRegExp(pattern: string, whole = true): RegExp {
+  let src = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "~" && i + 1 < pattern.length && "*?~".includes(pattern[i + 1])) {
+      src += "\\" + pattern[++i];
+    } else if (ch === "*") src += "[\\s\\S]*";
+    else if (ch === "?") src += "[\\s\\S]";
+    else src += ch.replace(/[.+^${}()|[\]\\/-]/g, "\\$&");
+  }
+  return new RegExp(whole ? `^${src}$` : src, "i");
+}
+
+/** True when a pattern uses wildcards (so plain equality can be skipped) */
+export function hasWildcards(pattern: string) {
+  return /[*?~]/.test(pattern);
+}
+
+type Op = "=" | "<>" | "<" | ">" | "<=" | ">=";
+
+function compareOp(op: Op, c: number) {
+  switch (op) {
+    case "=": return c === 0;
+    case "<>": return c !== 0;
+    case "<": return c < 0;
+    case ">": return c > 0;
+    case "<=": return c <= 0;
+    case ">=": return c >= 0;
+  }
+}
+
+/**
+ * parseCriteria(criteria)
+ * - turns a criteria argument into a predicate over cell values
+ * - numbers and booleans match by value; text criteria may start with a comparison operator
+ * - "=" / "" match blank cells, "<>" matches non-blank cells
+ * - equality on text is case-insensitive and honours wildcards
+ * - error cells never match
+ */
+export function parseCriteria(criteria: Scalar): (v: Scalar) => boolean {
+  criteria = checkError(criteria);
+  if (criteria == null) criteria = "";
+  if (typeof criteria === "number" || typeof criteria === "boolean") {
+    const target = criteria;
+    return (v) => v === target || (typeof target === "number" && typeof v === "string" && v.trim() !== "" && Number(v) === target);
+  }
+
+  const m = criteria.match(/^(<=|>=|<>|=|<|>)?([\s\S]*)$/)!;
+  const op = (m[1] ?? "=") as Op;
+  const operand = m[2];
+
+  if (operand === "") {
+    if (op === "=") return (v) => v === null || v === "";
+    if (op === "<>") return (v) => v !== null && v !== "";
+    return () => false;
+  }
+
+  const num = Number(operand);
+  if (operand.trim() !== "" && !Number.isNaN(num)) {
+    return (v) => {
+      if (typeof v === "number") return compareOp(op, v < num ? -1 : v > num ? 1 : 0);
+      return op === "<>" && !isFormulaError(v); // non-numbers are only "not equal"
+    };
+  }
+
+  const upper = operand.toUpperCase();
+  if (upper === "TRUE" || upper === "FALSE") {
+    const b = upper === "TRUE";
+    return (v) => (typeof v === "boolean" ? compareOp(op, Number(v) - Number(b)) : op === "<>" && !isFormulaError(v));
+  }
+
+  if (op === "=" || op === "<>") {
+    const re = wildcardToRegExp(operand);
+    return (v) => {
+      if (isFormulaError(v)) return false;
+      const hit = typeof v === "string" && re.test(v);
+      return op === "=" ? hit : !hit;
+    };
+  }
+
+  const lower = operand.toLowerCase();
+  return (v) => {
+    if (typeof v !== "string") return false;
+    const l = v.toLowerCase();
+    return compareOp(op, l < lower ? -1 : l > lower ? 1 : 0);
+  };
+}
@@ -0,0 +1,278 @@
+// src/utils/functions/date.ts
+// Date and time functions over Excel serial numbers (see dateSerial.ts).
+
+import type { FunctionSpec } from "../functionRegistry";
+import {
+  dateToSerial,
+  daysInMonth,
+  nowSerial,
+  parseDateText,
+  serialToParts,
+  timeToSerial,
+  todaySerial,
+} from "../dateSerial";
+import { checkError, formulaError, toNumber, toScalar, toText } from "../formulaValues";
+import type { Value } from "../formulaValues";
+
+const num = (v: Value | undefined) => toNumber(toScalar(v ?? null));
+
+/** A date argument as a serial; dates before 1900 are #NUM! */
+function serialArg(v: Value | undefined): number {
+  const n = num(v);
+  if (n < 0) throw formulaError("#NUM!", "Dates before 1900 are not supported");
+  return n;
+}
+
+const partsOf = (v: Value | undefined) => serialToParts(serialArg(v));
+
+/** Same day of month `months` later, clamped to the month's length (EDATE) */
+function addMonths(serial: number, months: number): number {
+  const p = serialToParts(serial);
+  const total = p.year * 12 + (p.month - 1) + months;
+  const year = Math.floor(total / 12), month = (total % 12) + 1;
+  return dateToSerial(year, month, Math.min(p.day, daysInMonth(year, month)));
+}
+
+/** Holidays argument as a set of whole serials */
+function holidaySet(v: Value | undefined): Set<number> {
+  const out = new Set<number>();
+  if (v == null) return out;
+  const values = Array.isArray(v) ? v.flat() : [v];
+  for (const h of values) {
+    checkError(h);
+    if (h === null || h === "") continue;
+    out.add(Math.floor(toNumber(h)));
+  }
+  return out;
+}
+
+const isWorkday = (serial: number, holidays: Set<number>) => {
+  const wd = serialToParts(serial).weekday;
+  return wd !== 0 && wd !== 6 && !holidays.has(serial);
+};
+
+/** WEEKDAY return types: the weekday (0 = Sunday) that counts as 1, and the first value */
+const WEEKDAY_TYPES: Record<number, { first: number; base: number }> = {
+  1: { first: 0, base: 1 },
+  2: { first: 1, base: 1 },
+  3: { first: 1, base: 0 },
+  11: { first: 1, base: 1 },
+  12: { first: 2, base: 1 },
+  13: { first: 3, base: 1 },
+  14: { first: 4, base: 1 },
+  15: { first: 5, base: 1 },
+  16: { first: 6, base: 1 },
+  17: { first: 0, base: 1 },
+};
+
+export const DATE_FUNCTIONS: Record<string, FunctionSpec> = {
+  DATE: {
+    minArgs: 3,
+    maxArgs: 3,
+    params: ["year", "month", "day"],
+    description: "Date serial from year, month and day",
+    fn: ([y, m, d]) => {
+      let year = Math.trunc(num(y));
+      if (year >= 0 && year < 1900) year += 1900; // DATE(24,1,1) is 1924, as in Excel
+      const serial = dateToSerial(year, Math.trunc(num(m)), Math.trunc(num(d)));
+      if (year > 9999 || serial < 0) return formulaError("#NUM!", "Date is out of range");
+      return serial;
+    },
+  },
+  TIME: {
+    minArgs: 3,
+    maxArgs: 3,
+    params: ["hour", "minute", "second"],
+    description: "Time of day (fraction of a day) from hours, minutes and seconds",
+    fn: ([h, m, s]) => {
+      const t = timeToSerial(Math.trunc(num(h)), Math.trunc(num(m)), Math.trunc(num(s)));
+      if (t < 0) return formulaError("#NUM!", "Time is negative");
+      return t % 1;
+    },
+  },
+  TODAY: {
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    description: "Today's date",
+    fn: () => todaySerial(),
+  },
+  NOW: {
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    description: "The current date and time",
+    fn: () => nowSerial(),
+  },
+  YEAR: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["serial_number"],
+    description: "Year of a date",
+    fn: ([d]) => partsOf(d).year,
+  },
+  MONTH: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["serial_number"],
+    description: "Month (1-12) of a date",
+    fn: ([d]) => partsOf(d).month,
+  },
+  DAY: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["serial_number"],
+    description: "Day of the month of a date",
+    fn: ([d]) => partsOf(d).day,
+  },
+  HOUR: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["serial_number"],
+    description: "Hour (0-23) of a time",
+    fn: ([t]) => partsOf(t).hours,
+  },
+  MINUTE: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["serial_number"],
+    description: "Minute of a time",
+    fn: ([t]) => partsOf(t).minutes,
+  },
+  SECOND: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["serial_number"],
+    description: "Second of a time",
+    fn: ([t]) => partsOf(t).seconds,
+  },
+  WEEKDAY: {
+    minArgs: 1,
+    maxArgs: 2,
+    params: ["serial_number", "return_type"],
+    description: "Day of the week as a number (Sunday = 1 by default)",
+    fn: ([d, type]) => {
+      const t = WEEKDAY_TYPES[type == null ? 1 : Math.trunc(num(type))];
+      if (!t) return formulaError("#NUM!", "Unknown WEEKDAY return type");
+      return ((partsOf(d).weekday - t.first + 7) % 7) + t.base;
+    },
+  },
+  DATEVALUE: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["date_text"],
+    description: "Date serial of a date written as text",
+    fn: ([s]) => {
+      const parsed = parseDateText(toText(toScalar(s)));
+      if (!parsed || parsed.kind === "time") return formulaError("#VALUE!", "Text is not a date");
+      return Math.floor(parsed.serial);
+    },
+  },
+  TIMEVALUE: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["time_text"],
+    description: "Time of day of a time written as text",
+    fn: ([s]) => {
+      const parsed = parseDateText(toText(toScalar(s)));
+      if (!parsed || parsed.kind === "date") return formulaError("#VALUE!", "Text is not a time");
+      return parsed.serial % 1;
+    },
+  },
+  DAYS: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["end_date", "start_date"],
+    description: "Number of days between two dates",
+    fn: ([end, start]) => Math.floor(serialArg(end)) - Math.floor(serialArg(start)),
+  },
+  EDATE: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["start_date", "months"],
+    description: "Same day a number of months before or after a date",
+    fn: ([start, months]) => {
+      const serial = addMonths(Math.floor(serialArg(start)), Math.trunc(num(months)));
+      return serial < 0 ? formulaError("#NUM!", "Date is out of range") : serial;
+    },
+  },
+  EOMONTH: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["start_date", "months"],
+    description: "Last day of the month a number of months before or after a date",
+    fn: ([start, months]) => {
+      const p = partsOf(start);
+      const serial = dateToSerial(p.year, p.month + Math.trunc(num(months)) + 1, 0);
+      return serial < 0 ? formulaError("#NUM!", "Date is out of range") : serial;
+    },
+  },
+  NETWORKDAYS: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["scalar", "scalar", "range"],
+    params: ["start_date", "end_date", "holidays"],
+    description: "Working days (Monday-Friday, minus holidays) between two dates, inclusive",
+    fn: ([start, end, holidays]) => {
+      let a = Math.floor(serialArg(start)), b = Math.floor(serialArg(end));
+      const sign = a <= b ? 1 : -1;
+      if (sign < 0) [a, b] = [b, a];
+      const skip = holidaySet(holidays);
+      let n = 0;
+      for (let d = a; d <= b; d++) if (isWorkday(d, skip)) n++;
+      return sign * n;
+    },
+  },
+  WORKDAY: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["scalar", "scalar", "range"],
+    params: ["start_date", "days", "holidays"],
+    description: "Date a number of working days before or after a date",
+    fn: ([start, days, holidays]) => {
+      let d = Math.floor(serialArg(start));
+      let left = Math.trunc(num(days));
+      const step = left < 0 ? -1 : 1;
+      const skip = holidaySet(holidays);
+      while (left !== 0) {
+        d += step;
+        if (d < 0) return formulaError("#NUM!", "Date is out of range");
+        if (isWorkday(d, skip)) left -= step;
+      }
+      return d;
+    },
+  },
+  DATEDIF: {
+    minArgs: 3,
+    maxArgs: 3,
+    params: ["start_date", "end_date", "unit"],
+    description: "Difference between two dates in years (\"Y\"), months (\"M\"), days (\"D\"), \"MD\", \"YM\" or \"YD\"",
+    fn: ([start, end, unit]) => {
+      const a = Math.floor(serialArg(start)), b = Math.floor(serialArg(end));
+      if (a > b) return formulaError("#NUM!", "Start date is after the end date");
+      const pa = serialToParts(a), pb = serialToParts(b);
+      let months = (pb.year - pa.year) * 12 + (pb.month - pa.month);
+      if (pb.day < pa.day) months--;
+      switch (toText(toScalar(unit)).toUpperCase()) {
+        case "Y": return Math.floor(months / 12);
+        case "M": return months;
+        case "D": return b - a;
+        case "YM": return months % 12;
+        case "MD": {
+          // days past the last whole month
+          const anchor = pb.day >= pa.day
+            ? dateToSerial(pb.year, pb.month, pa.day)
+            : dateToSerial(pb.year, pb.month - 1, pa.day);
+          return b - anchor;
+        }
+        case "YD": {
+          let anchor = dateToSerial(pb.year, pa.month, pa.day);
+          if (anchor > b) anchor = dateToSerial(pb.year - 1, pa.month, pa.day);
+          return b - anchor;
+        }
+        default:
+          return formulaError("#NUM!", "DATEDIF unit must be Y, M, D, MD, YM or YD");
+      }
+    },
+  },
+};
@@ -0,0 +1,240 @@
+// src/utils/functions/financial.ts
+// Time-value-of-money and depreciation functions. Sign convention as in Excel: money paid
+// out is negative, money received is positive; `type` 1 means payments at period start.
+// IRR, XIRR and RATE are solved by Newton iteration from the guess argument.
+
+import type { FunctionSpec } from "../functionRegistry";
+import { checkError, formulaError, toNumber, toScalar } from "../formulaValues";
+import type { Value } from "../formulaValues";
+import { collectNumbers } from "./aggregate";
+
+const num = (v: Value | undefined, fallback = 0) => (v == null ? fallback : toNumber(toScalar(v)));
+
+/** Payment timing argument: 0 (end of period, default) or 1 (start) */
+const timing = (v: Value | undefined) => (num(v) !== 0 ? 1 : 0);
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+/**
+ * solveNewton(f, guess)
+ * - root of f near `guess`, using a central-difference derivative
+ * - throws #NUM! when the iteration diverges or doesn't settle within MAX_ITERATIONS
+ */
+export function solveNewton(f: (x: number) => number, guess: number): number {
+  let x = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const y = f(x);
+    if (!Number.isFinite(y)) break;
+    if (Math.abs(y) < TOLERANCE) return x;
+    const h = Math.max(1e-7, Math.abs(x) * 1e-7);
+    const slope = (f(x + h) - f(x - h)) / (2 * h);
+    if (!Number.isFinite(slope) || slope === 0) break;
+    const next = x - y / slope;
+    if (!Number.isFinite(next)) break;
+    if (Math.abs(next - x) < TOLERANCE * Math.max(1, Math.abs(x))) return next;
+    x = next;
+  }
+  throw formulaError("#NUM!", "The calculation did not converge; try a different guess");
+}
+
+/** Future value of one unit paid every period, with the r = 0 limit */
+function annuity(rate: number, nper: number, type: number) {
+  if (rate === 0) return nper;
+  return ((1 + rate * type) * (Math.pow(1 + rate, nper) - 1)) / rate;
+}
+
+function fv(rate: number, nper: number, payment: number, pv: number, type: number) {
+  return -(pv * Math.pow(1 + rate, nper) + payment * annuity(rate, nper, type));
+}
+
+function pmt(rate: number, nper: number, pv: number, fvalue: number, type: number) {
+  if (nper === 0) throw formulaError("#NUM!", "Number of periods cannot be zero");
+  return -(pv * Math.pow(1 + rate, nper) + fvalue) / annuity(rate, nper, type);
+}
+
+function ipmt(rate: number, per: number, nper: number, pv: number, fvalue: number, type: number) {
+  if (per < 1 || per > nper) throw formulaError("#NUM!", "Period must be between 1 and the number of periods");
+  const payment = pmt(rate, nper, pv, fvalue, type);
+  let interest: number;
+  if (per === 1) interest = type === 1 ? 0 : -pv;
+  else if (type === 1) interest = fv(rate, per - 2, payment, pv, 1) - payment;
+  else interest = fv(rate, per - 1, payment, pv, 0);
+  return interest * rate;
+}
+
+/** Net present value of cash flows at fractional period offsets */
+function presentValue(rate: number, flows: number[], times: number[]) {
+  return flows.reduce((acc, v, i) => acc + v / Math.pow(1 + rate, times[i]), 0);
+}
+
+/** Cash flows and their dates (as years from the first date) for XNPV/XIRR */
+function datedFlows(name: string, values: Value, dates: Value) {
+  const vs = (Array.isArray(values) ? values.flat() : [values]).map(v => toNumber(checkError(v)));
+  const ds = (Array.isArray(dates) ? dates.flat() : [dates]).map(d => Math.floor(toNumber(checkError(d))));
+  if (vs.length !== ds.length || vs.length === 0) throw formulaError("#NUM!", `${name} needs one date per value`);
+  if (ds.some(d => d < ds[0])) throw formulaError("#NUM!", `${name} dates cannot precede the first date`);
+  return { flows: vs, times: ds.map(d => (d - ds[0]) / 365) };
+}
+
+function requireSignChange(name: string, flows: number[]) {
+  if (!flows.some(v => v > 0) || !flows.some(v => v < 0)) {
+    throw formulaError("#NUM!", `${name} needs at least one positive and one negative cash flow`);
+  }
+}
+
+function checkRate(rate: number) {
+  if (rate <= -1) throw formulaError("#NUM!", "Rate must be greater than -100%");
+  return rate;
+}
+
+export const FINANCIAL_FUNCTIONS: Record<string, FunctionSpec> = {
+  PMT: {
+    minArgs: 3,
+    maxArgs: 5,
+    params: ["rate", "nper", "pv", "fv", "type"],
+    description: "Payment per period for a loan or investment",
+    fn: ([rate, nper, pv, fvalue, type]) => pmt(num(rate), num(nper), num(pv), num(fvalue), timing(type)),
+  },
+  IPMT: {
+    minArgs: 4,
+    maxArgs: 6,
+    params: ["rate", "per", "nper", "pv", "fv", "type"],
+    description: "Interest part of a given period's payment",
+    fn: ([rate, per, nper, pv, fvalue, type]) =>
+      ipmt(num(rate), num(per), num(nper), num(pv), num(fvalue), timing(type)),
+  },
+  PPMT: {
+    minArgs: 4,
+    maxArgs: 6,
+    params: ["rate", "per", "nper", "pv", "fv", "type"],
+    description: "Principal part of a given period's payment",
+    fn: ([rate, per, nper, pv, fvalue, type]) => {
+      const r = num(rate), n = num(nper), p = num(pv), f = num(fvalue), t = timing(type);
+      return pmt(r, n, p, f, t) - ipmt(r, num(per), n, p, f, t);
+    },
+  },
+  FV: {
+    minArgs: 3,
+    maxArgs: 5,
+    params: ["rate", "nper", "pmt", "pv", "type"],
+    description: "Future value of an investment",
+    fn: ([rate, nper, payment, pv, type]) => fv(num(rate), num(nper), num(payment), num(pv), timing(type)),
+  },
+  PV: {
+    minArgs: 3,
+    maxArgs: 5,
+    params: ["rate", "nper", "pmt", "fv", "type"],
+    description: "Present value of an investment",
+    fn: ([rate, nper, payment, fvalue, type]) => {
+      const r = num(rate), n = num(nper);
+      return -(num(fvalue) + num(payment) * annuity(r, n, timing(type))) / Math.pow(1 + r, n);
+    },
+  },
+  NPER: {
+    minArgs: 3,
+    maxArgs: 5,
+    params: ["rate", "pmt", "pv", "fv", "type"],
+    description: "Number of periods for an investment",
+    fn: ([rate, payment, pv, fvalue, type]) => {
+      const r = num(rate), p = num(payment), v = num(pv), f = num(fvalue), t = timing(type);
+      if (r === 0) {
+        if (p === 0) return formulaError("#NUM!", "Payment cannot be zero when the rate is zero");
+        return -(v + f) / p;
+      }
+      const n = Math.log((p * (1 + r * t) - f * r) / (p * (1 + r * t) + v * r)) / Math.log(1 + r);
+      return Number.isFinite(n) ? n : formulaError("#NUM!", "No number of periods reaches that value");
+    },
+  },
+  NPV: {
+    minArgs: 2,
+    args: ["scalar", "range"],
+    params: ["rate", "value"],
+    description: "Net present value of periodic cash flows (first flow one period out)",
+    fn: ([rate, ...values]) => {
+      const r = checkRate(num(rate));
+      const flows = collectNumbers(values);
+      return presentValue(r, flows, flows.map((_, i) => i + 1));
+    },
+  },
+  XNPV: {
+    minArgs: 3,
+    maxArgs: 3,
+    args: ["scalar", "range", "range"],
+    params: ["rate", "values", "dates"],
+    description: "Net present value of cash flows on given dates",
+    fn: ([rate, values, dates]) => {
+      const { flows, times } = datedFlows("XNPV", values, dates);
+      return presentValue(checkRate(num(rate)), flows, times);
+    },
+  },
+  IRR: {
+    minArgs: 1,
+    maxArgs: 2,
+    args: ["range", "scalar"],
+    params: ["values", "guess"],
+    description: "Internal rate of return of periodic cash flows",
+    fn: ([values, guess]) => {
+      const flows = collectNumbers([values]);
+      requireSignChange("IRR", flows);
+      const times = flows.map((_, i) => i);
+      return solveNewton(r => presentValue(r, flows, times), num(guess, 0.1));
+    },
+  },
+  XIRR: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["range", "range", "scalar"],
+    params: ["values", "dates", "guess"],
+    description: "Internal rate of return of cash flows on given dates",
+    fn: ([values, dates, guess]) => {
+      const { flows, times } = datedFlows("XIRR", values, dates);
+      requireSignChange("XIRR", flows);
+      return solveNewton(r => presentValue(r, flows, times), num(guess, 0.1));
+    },
+  },
+  RATE: {
+    minArgs: 3,
+    maxArgs: 6,
+    params: ["nper", "pmt", "pv", "fv", "type", "guess"],
+    description: "Interest rate per period of an annuity",
+    fn: ([nper, payment, pv, fvalue, type, guess]) => {
+      const n = num(nper), p = num(payment), v = num(pv), f = num(fvalue), t = timing(type);
+      return solveNewton(r => v * Math.pow(1 + r, n) + p * annuity(r, n, t) + f, num(guess, 0.1));
+    },
+  },
+  SLN: {
+    minArgs: 3,
+    maxArgs: 3,
+    params: ["cost", "salvage", "life"],
+    description: "Straight-line depreciation per period",
+    fn: ([cost, salvage, life]) => {
+      const l = num(life);
+      if (l === 0) return formulaError("#DIV/0!", "Life cannot be zero");
+      return (num(cost) - num(salvage)) / l;
+    },
+  },
+  DB: {
+    minArgs: 4,
+    maxArgs: 5,
+    params: ["cost", "salvage", "life", "period", "month"],
+    description: "Fixed-declining-balance depreciation for a period",
+    fn: ([cost, salvage, life, period, month]) => {
+      const c = num(cost), s = num(salvage), l = num(life), p = Math.trunc(num(period)), m = Math.trunc(num(month, 12));
+      if (c < 0 || s < 0 || l <= 0 || p < 1 || m < 1 || m > 12 || p > (m === 12 ? l : l + 1)) {
+        return formulaError("#NUM!", "Invalid depreciation arguments");
+      }
+      if (c === 0) return 0;
+      // Excel rounds the rate to three decimals
+      const rate = Math.round((1 - Math.pow(s / c, 1 / l)) * 1000) / 1000;
+      let total = (c * rate * m) / 12;
+      if (p === 1) return total;
+      for (let i = 2; i <= p; i++) {
+        const dep = i === l + 1 ? ((c - total) * rate * (12 - m)) / 12 : (c - total) * rate;
+        if (i === p) return dep;
+        total += dep;
+      }
+      return 0;
+    },
+  },
+};
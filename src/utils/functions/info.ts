@@ -0,0 +1,35 @@
+// src/utils/functions/info.ts
+// Information functions: inspecting the type of a value.
+
+import type { FunctionSpec } from "../functionRegistry";
+import { formulaError, isFormulaError } from "../formulaValues";
+
+export const INFO_FUNCTIONS: Record<string, FunctionSpec> = {
+  ISERROR: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["value"],
+    description: "TRUE for any error value",
+    fn: ([value]) => isFormulaError(value),
+  },
+  ISERR: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["value"],
+    description: "TRUE for any error except #N/A",
+    fn: ([value]) => isFormulaError(value) && value.error !== "#N/A",
+  },
+  ISNA: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["value"],
+    description: "TRUE for #N/A",
+    fn: ([value]) => isFormulaError(value) && value.error === "#N/A",
+  },
+  NA: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: "The #N/A error value",
+    fn: () => formulaError("#N/A", "Value not available"),
+  },
+};
@@ -0,0 +1,141 @@
+// src/utils/functions/lambda.ts
+// LET, LAMBDA and the functions that apply a LAMBDA across an array. LET and LAMBDA are
+// lazy: their names are read off the formula (ctx.argNames) and bound when the body runs.
+
+import type { FunctionSpec } from "../functionRegistry";
+import { formulaError, isFormulaError, isLambda, lambdaValue, toMatrix } from "../formulaValues";
+import type { Scalar, Value } from "../formulaValues";
+
+/** The LAMBDA a function was given (last argument), checked to take `arity` parameters */
+function lambdaArg(name: string, v: Value | undefined, arity: number) {
+  if (!isLambda(v)) {
+    if (isFormulaError(v)) throw v;
+    throw formulaError("#VALUE!", `${name} needs a LAMBDA as its last argument`);
+  }
+  if (v.lambda.params.length !== arity) {
+    throw formulaError("#VALUE!", `${name}'s LAMBDA must take ${arity} parameter(s)`);
+  }
+  return v.lambda.call;
+}
+
+/** One cell of a result built from LAMBDA calls; an array there is #CALC!, as in Excel */
+function cellOf(v: Value): Scalar {
+  if (!Array.isArray(v)) return v;
+  if (v.length === 1 && v[0].length === 1) return v[0][0];
+  return formulaError("#CALC!", "A LAMBDA returned an array where a single value is expected");
+}
+
+/** Rows of `m` as 1-row arrays, or its columns as 1-column arrays */
+function lines(m: Scalar[][], byCol: boolean): Scalar[][][] {
+  if (!byCol) return m.map(row => [row]);
+  return m[0].map((_, c) => m.map(row => [row[c]]));
+}
+
+/** REDUCE and SCAN: fold `array` (row by row) through the LAMBDA, reporting each step */
+function fold(name: string, [initial, array, fn]: Value[], step?: (i: number, acc: Value) => void): Value {
+  const call = lambdaArg(name, fn, 2);
+  let acc: Value = initial ?? 0;
+  toMatrix(array).flat().forEach((v, i) => {
+    acc = call([acc, v]);
+    step?.(i, acc);
+  });
+  return acc;
+}
+
+export const LAMBDA_FUNCTIONS: Record<string, FunctionSpec> = {
+  LET: {
+    minArgs: 3,
+    args: ["any"],
+    repeat: 2,
+    params: ["name", "name_value", "calculation_or_name"],
+    description: "Names values for use in a final calculation (name1, value1, ..., calculation)",
+    lazy: (args, ctx) => {
+      if (args.length % 2 === 0) return formulaError("#VALUE!", "LET takes name/value pairs followed by a calculation");
+      const bound: Record<string, Value> = {};
+      for (let i = 0; i < args.length - 1; i += 2) {
+        const name = ctx.argNames[i];
+        if (!name) return formulaError("#VALUE!", "LET's names must be plain names like x or total");
+        bound[name] = args[i + 1](bound);
+      }
+      return args[args.length - 1](bound);
+    },
+  },
+  LAMBDA: {
+    minArgs: 1,
+    args: ["any"],
+    params: ["parameter_or_calculation"],
+    description: "A reusable calculation (parameter1, ..., calculation), called like a function",
+    lazy: (args, ctx) => {
+      const params = ctx.argNames.slice(0, -1);
+      if (params.some(p => !p)) return formulaError("#VALUE!", "LAMBDA's parameters must be plain names like x or total");
+      const keys = params.map(p => p!.toLowerCase());
+      if (new Set(keys).size !== keys.length) return formulaError("#VALUE!", "LAMBDA's parameters must have different names");
+      const body = args[args.length - 1];
+      return lambdaValue(params as string[], values => {
+        if (values.length !== params.length) {
+          return formulaError("#VALUE!", `This LAMBDA takes ${params.length} argument(s), got ${values.length}`);
+        }
+        return body(Object.fromEntries(params.map((p, i) => [p!, values[i]])));
+      });
+    },
+  },
+  MAP: {
+    minArgs: 2,
+    args: ["range"],
+    params: ["array", "lambda_or_array"],
+    description: "Array of a LAMBDA applied to each value of one or more arrays (array1, ..., lambda)",
+    fn: args => {
+      const call = lambdaArg("MAP", args[args.length - 1], args.length - 1);
+      const arrays = args.slice(0, -1).map(toMatrix);
+      const [first] = arrays;
+      if (arrays.some(m => m.length !== first.length || m[0].length !== first[0].length)) {
+        return formulaError("#VALUE!", "MAP's arrays must all be the same size");
+      }
+      return first.map((row, r) => row.map((_, c) => cellOf(call(arrays.map(m => m[r][c])))));
+    },
+  },
+  REDUCE: {
+    minArgs: 3,
+    maxArgs: 3,
+    args: ["any", "range", "any"],
+    params: ["initial_value", "array", "lambda"],
+    description: "An accumulator run through a LAMBDA for each value of an array (initial, array, lambda)",
+    fn: args => fold("REDUCE", args),
+  },
+  SCAN: {
+    minArgs: 3,
+    maxArgs: 3,
+    args: ["any", "range", "any"],
+    params: ["initial_value", "array", "lambda"],
+    description: "Array of every intermediate value of REDUCE (initial, array, lambda)",
+    fn: args => {
+      const m = toMatrix(args[1]);
+      const width = m[0].length;
+      const out = m.map(row => row.map((): Scalar => null));
+      fold("SCAN", args, (i, acc) => { out[Math.floor(i / width)][i % width] = cellOf(acc); });
+      return out;
+    },
+  },
+  BYROW: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["range", "any"],
+    params: ["array", "lambda"],
+    description: "Column of a LAMBDA applied to each row of an array",
+    fn: ([array, fn]) => {
+      const call = lambdaArg("BYROW", fn, 1);
+      return lines(toMatrix(array), false).map(row => [cellOf(call([row]))]);
+    },
+  },
+  BYCOL: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["range", "any"],
+    params: ["array", "lambda"],
+    description: "Row of a LAMBDA applied to each column of an array",
+    fn: ([array, fn]) => {
+      const call = lambdaArg("BYCOL", fn, 1);
+      return [lines(toMatrix(array), true).map(col => cellOf(call([col])))];
+    },
+  },
+};
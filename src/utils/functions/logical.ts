@@ -0,0 +1,133 @@
+// src/utils/functions/logical.ts
+// Logical and error-trapping functions. Branching functions are lazy, so the branch
+// that is not taken is never evaluated (and its errors never surface).
+
+import type { FunctionSpec } from "../functionRegistry";
+import { checkError, compareScalars, formulaError, isFormulaError, toBoolean, toScalar } from "../formulaValues";
+import type { Value } from "../formulaValues";
+
+/** Logical values for AND/OR/XOR: ranges contribute booleans and numbers, skipping text and blanks */
+function collectLogicals(name: string, args: Value[]): boolean[] {
+  const out: boolean[] = [];
+  for (const a of args) {
+    if (Array.isArray(a)) {
+      for (const row of a) {
+        for (const v of row) {
+          checkError(v);
+          if (typeof v === "boolean") out.push(v);
+          else if (typeof v === "number") out.push(v !== 0);
+        }
+      }
+    } else {
+      out.push(toBoolean(a));
+    }
+  }
+  if (out.length === 0) throw formulaError("#VALUE!", `${name} found no logical values`);
+  return out;
+}
+
+export const LOGICAL_FUNCTIONS: Record<string, FunctionSpec> = {
+  IF: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["scalar", "any"],
+    params: ["logical_test", "value_if_true", "value_if_false"],
+    description: "One value if a condition is TRUE, another if FALSE",
+    lazy: ([test, ifTrue, ifFalse]) => {
+      if (toBoolean(toScalar(test()))) return ifTrue();
+      return ifFalse ? ifFalse() : false;
+    },
+  },
+  IFS: {
+    minArgs: 2,
+    args: ["scalar", "any"],
+    repeat: 2,
+    params: ["logical_test", "value_if_true"],
+    description: "Value for the first condition that is TRUE",
+    lazy: (args) => {
+      if (args.length % 2 !== 0) throw formulaError("#VALUE!", "IFS needs condition/value pairs");
+      for (let i = 0; i < args.length; i += 2) {
+        if (toBoolean(toScalar(args[i]()))) return args[i + 1]();
+      }
+      return formulaError("#N/A", "No IFS condition was TRUE");
+    },
+  },
+  SWITCH: {
+    minArgs: 3,
+    args: ["scalar", "scalar", "any"],
+    repeat: 2,
+    params: ["expression", "value", "result"],
+    description: "Value matching an expression, with an optional default",
+    lazy: ([expr, ...cases]) => {
+      const value = checkError(toScalar(expr()));
+      for (let i = 0; i + 1 < cases.length; i += 2) {
+        const candidate = toScalar(cases[i]());
+        if (typeof candidate === typeof value && compareScalars(value, candidate) === 0) return cases[i + 1]();
+      }
+      if (cases.length % 2 === 1) return cases[cases.length - 1]();
+      return formulaError("#N/A", "No SWITCH case matched");
+    },
+  },
+  AND: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["logical"],
+    description: "TRUE if every argument is TRUE",
+    fn: (args) => collectLogicals("AND", args).every(Boolean),
+  },
+  OR: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["logical"],
+    description: "TRUE if any argument is TRUE",
+    fn: (args) => collectLogicals("OR", args).some(Boolean),
+  },
+  XOR: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["logical"],
+    description: "TRUE if an odd number of arguments are TRUE",
+    fn: (args) => collectLogicals("XOR", args).filter(Boolean).length % 2 === 1,
+  },
+  NOT: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["logical"],
+    description: "Reverses a logical value",
+    fn: ([value]) => !toBoolean(toScalar(value)),
+  },
+  TRUE: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: "The logical value TRUE",
+    fn: () => true,
+  },
+  FALSE: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: "The logical value FALSE",
+    fn: () => false,
+  },
+  IFERROR: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["scalar", "any"],
+    params: ["value", "value_if_error"],
+    description: "Value, or a fallback when it is an error",
+    lazy: ([value, fallback]) => {
+      const v = value();
+      return isFormulaError(v) ? fallback() : v;
+    },
+  },
+  IFNA: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["scalar", "any"],
+    params: ["value", "value_if_na"],
+    description: "Value, or a fallback when it is #N/A",
+    lazy: ([value, fallback]) => {
+      const v = value();
+      return isFormulaError(v) && v.error === "#N/A" ? fallback() : v;
+    },
+  },
+};
@@ -0,0 +1,303 @@
+// src/utils/functions/lookup.ts
+// Lookup & reference functions. Match modes follow Excel: exact (with wildcards for text),
+// "exact or next smaller/larger", and binary search over sorted data.
+
+import type { FunctionContext, FunctionSpec } from "../functionRegistry";
+import { parseRefWord, splitSheetPrefix } from "../formulaParser";
+import { checkError, compareScalars, formulaError, isFormulaError, toBoolean, toNumber, toScalar, toText } from "../formulaValues";
+import type { RangeRef, Scalar, Value } from "../formulaValues";
+import { hasWildcards, wildcardToRegExp } from "./criteria";
+
+/** exact: equal values; wildcard: exact, with * ? ~ in text; smaller/larger: exact or the nearest on that side */
+type MatchMode = "exact" | "wildcard" | "smaller" | "larger";
+/** first/last: linear scan from either end; asc/desc: binary search over data sorted that way */
+type SearchMode = "first" | "last" | "asc" | "desc";
+
+/** compareScalars, with error cells sorting after everything */
+function safeCompare(a: Scalar, b: Scalar) {
+  if (isFormulaError(a)) return isFormulaError(b) ? 0 : 1;
+  if (isFormulaError(b)) return -1;
+  return compareScalars(a, b);
+}
+
+function sameKind(a: Scalar, b: Scalar) {
+  return a !== null && !isFormulaError(a) && typeof a === typeof b;
+}
+
+/** Last index whose value is <= value (or >= for descending data), by binary search */
+function lastNotAfter(value: Scalar, list: Scalar[], descending: boolean) {
+  let lo = 0, hi = list.length - 1, found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const c = safeCompare(list[mid], value) * (descending ? -1 : 1);
+    if (c <= 0) { found = mid; lo = mid + 1; } else hi = mid - 1;
+  }
+  return found;
+}
+
+/**
+ * lookupIndex(value, list, mode, search)
+ * - 0-based position of value in list, or -1 when nothing matches
+ * - only values of the same type as `value` can match (5 never matches "5")
+ */
+export function lookupIndex(value: Scalar, list: Scalar[], mode: MatchMode, search: SearchMode): number {
+  value = checkError(value);
+  const re = mode === "wildcard" && typeof value === "string" && hasWildcards(value) ? wildcardToRegExp(value) : null;
+  const matches = (v: Scalar) => sameKind(v, value) && (re ? re.test(v as string) : safeCompare(v, value) === 0);
+
+  if (search === "asc" || search === "desc") {
+    const descending = search === "desc";
+    const i = lastNotAfter(value, list, descending);
+    if (i >= 0 && matches(list[i])) return i;
+    if (mode === "exact" || mode === "wildcard") return -1;
+    const j = (mode === "smaller") === descending ? i + 1 : i;
+    return j >= 0 && j < list.length && sameKind(list[j], value) ? j : -1;
+  }
+
+  let best = -1;
+  for (let k = 0; k < list.length; k++) {
+    const i = search === "first" ? k : list.length - 1 - k;
+    const v = list[i];
+    if (!sameKind(v, value)) continue;
+    if (matches(v)) return i;
+    const c = safeCompare(v, value);
+    if (mode === "smaller" && c < 0 && (best < 0 || safeCompare(v, list[best]) > 0)) best = i;
+    if (mode === "larger" && c > 0 && (best < 0 || safeCompare(v, list[best]) < 0)) best = i;
+  }
+  return best;
+}
+
+function asBlock(v: Value): Scalar[][] {
+  return Array.isArray(v) ? v : [[v]];
+}
+
+/** A one-row or one-column block as a list */
+function vector(v: Value): { list: Scalar[]; vertical: boolean } {
+  const block = asBlock(v);
+  if (block.length === 1) return { list: block[0], vertical: false };
+  if (block.every(row => row.length === 1)) return { list: block.map(row => row[0]), vertical: true };
+  throw formulaError("#N/A", "Lookup array must be a single row or column");
+}
+
+function notFound(value: Scalar) {
+  return formulaError("#N/A", `${JSON.stringify(value)} was not found`);
+}
+
+/** Shared body of VLOOKUP/HLOOKUP; `vertical` looks down the first column */
+function tableLookup(name: string, [value, table, index, approx]: Value[], vertical: boolean): Value {
+  const v = toScalar(value);
+  const block = asBlock(table);
+  const n = Math.trunc(toNumber(toScalar(index)));
+  const width = vertical ? block[0]?.length ?? 0 : block.length;
+  if (n < 1) return formulaError("#VALUE!", `${name} index must be at least 1`);
+  if (n > width) return formulaError("#REF!", `${name} index ${n} is outside the table`);
+  const keys = vertical ? block.map(row => row[0]) : block[0];
+  const sorted = approx === undefined || approx === null ? true : toBoolean(toScalar(approx));
+  const i = lookupIndex(v, keys, sorted ? "smaller" : "wildcard", sorted ? "asc" : "first");
+  if (i < 0) return notFound(v);
+  return vertical ? block[i][n - 1] : block[n - 1][i];
+}
+
+const MATCH_MODES: Record<number, MatchMode> = { 0: "exact", [-1]: "smaller", 1: "larger", 2: "wildcard" };
+const SEARCH_MODES: Record<number, SearchMode> = { 1: "first", [-1]: "last", 2: "asc", [-2]: "desc" };
+
+/** match_mode / search_mode arguments of XMATCH and XLOOKUP */
+function xmodes(matchMode: Value | undefined, searchMode: Value | undefined) {
+  const m = matchMode == null ? 0 : toNumber(toScalar(matchMode));
+  const s = searchMode == null ? 1 : toNumber(toScalar(searchMode));
+  if (!(m in MATCH_MODES) || !(s in SEARCH_MODES)) throw formulaError("#VALUE!", "Invalid match or search mode");
+  return { mode: MATCH_MODES[m], search: SEARCH_MODES[s] };
+}
+
+/** Parse INDIRECT's text: A1 or R1C1 style, a single cell or a range, optionally on another sheet */
+function parseReferenceText(reference: string, a1: boolean): RangeRef | null {
+  const { sheet, rest: text } = splitSheetPrefix(reference.trim());
+  const cell = (part: string): { row: number; col: number } | null => {
+    if (a1) return parseRefWord(part.trim());
+    const m = part.trim().match(/^R(\d+)C(\d+)$/i);
+    if (!m || +m[1] < 1 || +m[2] < 1) return null;
+    return { row: +m[1] - 1, col: +m[2] - 1 };
+  };
+  const parts = text.split(":");
+  if (parts.length > 2) return null;
+  const a = cell(parts[0]);
+  const b = parts.length === 2 ? cell(parts[1]) : a;
+  if (!a || !b) return null;
+  return {
+    top: Math.min(a.row, b.row),
+    left: Math.min(a.col, b.col),
+    bottom: Math.max(a.row, b.row),
+    right: Math.max(a.col, b.col),
+    sheet,
+  };
+}
+
+/** The reference passed as argument i of a "ref" parameter */
+function refArg(name: string, args: Value[], ctx: FunctionContext, i: number): RangeRef {
+  const ref = ctx.refs[i];
+  if (ref) return ref;
+  if (isFormulaError(args[i])) throw args[i];
+  throw formulaError("#VALUE!", `${name} needs a cell reference`);
+}
+
+export const LOOKUP_FUNCTIONS: Record<string, FunctionSpec> = {
+  VLOOKUP: {
+    minArgs: 3,
+    maxArgs: 4,
+    args: ["scalar", "range", "scalar", "scalar"],
+    params: ["lookup_value", "table_array", "col_index_num", "range_lookup"],
+    description: "Looks down the first column of a table and returns a value from the matching row",
+    fn: (args) => tableLookup("VLOOKUP", args, true),
+  },
+  HLOOKUP: {
+    minArgs: 3,
+    maxArgs: 4,
+    args: ["scalar", "range", "scalar", "scalar"],
+    params: ["lookup_value", "table_array", "row_index_num", "range_lookup"],
+    description: "Looks across the first row of a table and returns a value from the matching column",
+    fn: (args) => tableLookup("HLOOKUP", args, false),
+  },
+  MATCH: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["scalar", "range", "scalar"],
+    params: ["lookup_value", "lookup_array", "match_type"],
+    description: "Position of a value in a row or column",
+    fn: ([value, array, type]) => {
+      const v = toScalar(value);
+      const t = type == null ? 1 : Math.sign(toNumber(toScalar(type)));
+      const { list } = vector(array);
+      const i = t === 0
+        ? lookupIndex(v, list, "wildcard", "first")
+        : lookupIndex(v, list, t > 0 ? "smaller" : "larger", t > 0 ? "asc" : "desc");
+      return i < 0 ? notFound(v) : i + 1;
+    },
+  },
+  XMATCH: {
+    minArgs: 2,
+    maxArgs: 4,
+    args: ["scalar", "range", "scalar"],
+    params: ["lookup_value", "lookup_array", "match_mode", "search_mode"],
+    description: "Position of a value, with exact, nearest or wildcard matching",
+    fn: ([value, array, matchMode, searchMode]) => {
+      const v = toScalar(value);
+      const { mode, search } = xmodes(matchMode, searchMode);
+      const i = lookupIndex(v, vector(array).list, mode, search);
+      return i < 0 ? notFound(v) : i + 1;
+    },
+  },
+  XLOOKUP: {
+    minArgs: 3,
+    maxArgs: 6,
+    args: ["scalar", "range", "range", "any", "scalar"],
+    params: ["lookup_value", "lookup_array", "return_array", "if_not_found", "match_mode", "search_mode"],
+    description: "Finds a value in one range and returns the matching item from another",
+    fn: ([value, lookupArray, returnArray, ifNotFound, matchMode, searchMode]) => {
+      const v = toScalar(value);
+      const { list, vertical } = vector(lookupArray);
+      const ret = asBlock(returnArray);
+      const retLength = vertical ? ret.length : ret[0]?.length ?? 0;
+      if (retLength !== list.length) return formulaError("#VALUE!", "XLOOKUP arrays must be the same length");
+      const { mode, search } = xmodes(matchMode, searchMode);
+      const i = lookupIndex(v, list, mode, search);
+      if (i < 0) return ifNotFound == null ? notFound(v) : ifNotFound;
+      const hit = vertical ? [ret[i]] : ret.map(row => [row[i]]);
+      return hit.length === 1 && hit[0].length === 1 ? hit[0][0] : hit;
+    },
+  },
+  INDEX: {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["range", "scalar", "scalar"],
+    params: ["array", "row_num", "column_num"],
+    description: "Value at a given row and column of a range",
+    fn: ([array, rowNum, colNum]) => {
+      const block = asBlock(array);
+      let r = Math.trunc(toNumber(toScalar(rowNum)));
+      let c = colNum == null ? 0 : Math.trunc(toNumber(toScalar(colNum)));
+      // a single row indexed by one number picks a column
+      if (colNum == null && block.length === 1) { c = r; r = 0; }
+      else if (colNum == null && block[0]?.length === 1) c = 1;
+      if (r < 0 || c < 0) return formulaError("#VALUE!", "INDEX position cannot be negative");
+      if (r > block.length || c > (block[0]?.length ?? 0)) return formulaError("#REF!", "INDEX position is outside the range");
+      if (r === 0 && c === 0) return block;
+      if (r === 0) return block.map(row => [row[c - 1]]);
+      if (c === 0) return [block[r - 1]];
+      return block[r - 1][c - 1];
+    },
+  },
+  CHOOSE: {
+    minArgs: 2,
+    args: ["scalar", "any"],
+    params: ["index_num", "value"],
+    description: "Picks a value from a list by position",
+    lazy: ([index, ...choices]) => {
+      const i = Math.trunc(toNumber(toScalar(index())));
+      if (i < 1 || i > choices.length) return formulaError("#VALUE!", `CHOOSE index ${i} is out of range`);
+      return choices[i - 1]();
+    },
+  },
+  ROW: {
+    minArgs: 0,
+    maxArgs: 1,
+    args: ["ref"],
+    params: ["reference"],
+    description: "Row number of a reference (or of this cell)",
+    fn: (args, ctx) => (args.length ? refArg("ROW", args, ctx, 0).top : ctx.row) + 1,
+  },
+  COLUMN: {
+    minArgs: 0,
+    maxArgs: 1,
+    args: ["ref"],
+    params: ["reference"],
+    description: "Column number of a reference (or of this cell)",
+    fn: (args, ctx) => (args.length ? refArg("COLUMN", args, ctx, 0).left : ctx.col) + 1,
+  },
+  ROWS: {
+    minArgs: 1,
+    maxArgs: 1,
+    args: ["range"],
+    params: ["array"],
+    description: "Number of rows in a range",
+    fn: ([array]) => asBlock(array).length,
+  },
+  COLUMNS: {
+    minArgs: 1,
+    maxArgs: 1,
+    args: ["range"],
+    params: ["array"],
+    description: "Number of columns in a range",
+    fn: ([array]) => asBlock(array)[0]?.length ?? 0,
+  },
+  OFFSET: {
+    minArgs: 3,
+    maxArgs: 5,
+    args: ["ref", "scalar"],
+    volatile: true,
+    params: ["reference", "rows", "cols", "height", "width"],
+    description: "Reference shifted by rows and columns from a starting reference",
+    reference: (args, ctx) => {
+      const base = refArg("OFFSET", args, ctx, 0);
+      const [, rows, cols, height, width] = args;
+      const top = base.top + Math.trunc(toNumber(toScalar(rows)));
+      const left = base.left + Math.trunc(toNumber(toScalar(cols)));
+      const h = height == null ? base.bottom - base.top + 1 : Math.trunc(toNumber(toScalar(height)));
+      const w = width == null ? base.right - base.left + 1 : Math.trunc(toNumber(toScalar(width)));
+      if (top < 0 || left < 0 || h < 1 || w < 1) throw formulaError("#REF!", "OFFSET points outside the sheet");
+      return { top, left, bottom: top + h - 1, right: left + w - 1, sheet: base.sheet };
+    },
+  },
+  INDIRECT: {
+    minArgs: 1,
+    maxArgs: 2,
+    volatile: true,
+    params: ["ref_text", "a1"],
+    description: "Reference given as text, e.g. \"B\" & 2",
+    reference: ([text, a1]) => {
+      const t = toText(toScalar(text));
+      const ref = parseReferenceText(t, a1 == null ? true : toBoolean(toScalar(a1)));
+      if (!ref) throw formulaError("#REF!", `"${t}" is not a valid reference`);
+      return ref;
+    },
+  },
+};
@@ -0,0 +1,206 @@
+// src/utils/functions/math.ts
+// Math, rounding and trigonometry functions. Rounding works on the 15 significant digits
+// Excel keeps, so ROUND(1.005, 2) is 1.01 despite 1.005 being stored as 1.00499999...
+
+import type { FunctionSpec } from "../functionRegistry";
+import { checkNumber, formulaError, toNumber, toScalar } from "../formulaValues";
+import type { Value } from "../formulaValues";
+
+const num = (v: Value | undefined, fallback = 0) => (v == null ? fallback : toNumber(toScalar(v)));
+
+/** Drop binary noise past 15 significant digits (0.1 * 3 -> 0.3) */
+function clean(x: number) {
+  return x === 0 || !Number.isFinite(x) ? x : Number(x.toPrecision(15));
+}
+
+type RoundMode = "nearest" | "up" | "down";
+
+/** Round to `digits` decimals (negative: to tens, hundreds...); "up"/"down" are away from/towards zero */
+function roundTo(x: number, digits: number, mode: RoundMode) {
+  const d = Math.trunc(digits);
+  const scale = Math.pow(10, Math.abs(d));
+  const abs = clean(d >= 0 ? Math.abs(x) * scale : Math.abs(x) / scale);
+  const r = mode === "up" ? Math.ceil(abs) : mode === "down" ? Math.floor(abs) : Math.round(abs);
+  return Math.sign(x) * (d >= 0 ? r / scale : r * scale);
+}
+
+/** n rounded to a multiple of `step` with the given rounding of the quotient */
+function toMultiple(n: number, step: number, round: (q: number) => number) {
+  return clean(round(clean(n / step)) * step);
+}
+
+/** Unary numeric function; NaN and infinities become #NUM! */
+const unary = (description: string, f: (x: number) => number): FunctionSpec => ({
+  minArgs: 1,
+  maxArgs: 1,
+  params: ["number"],
+  description,
+  fn: ([x]) => checkNumber(f(num(x))),
+});
+
+const rounding = (description: string, mode: RoundMode): FunctionSpec => ({
+  minArgs: 1,
+  maxArgs: 2,
+  params: ["number", "num_digits"],
+  description,
+  fn: ([x, digits]) => roundTo(num(x), num(digits), mode),
+});
+
+const CEILING: FunctionSpec = {
+  minArgs: 1,
+  maxArgs: 2,
+  params: ["number", "significance"],
+  description: "Number rounded up to a multiple of significance",
+  fn: ([x, significance]) => {
+    const n = num(x), s = num(significance, 1);
+    if (s === 0) return 0;
+    if (n > 0 && s < 0) return formulaError("#NUM!", "Significance must be positive for a positive number");
+    return toMultiple(n, s, Math.ceil);
+  },
+};
+
+const FLOOR: FunctionSpec = {
+  minArgs: 1,
+  maxArgs: 2,
+  params: ["number", "significance"],
+  description: "Number rounded down to a multiple of significance",
+  fn: ([x, significance]) => {
+    const n = num(x), s = num(significance, 1);
+    if (s === 0) return n === 0 ? 0 : formulaError("#DIV/0!", "Significance cannot be zero");
+    if (n > 0 && s < 0) return formulaError("#NUM!", "Significance must be positive for a positive number");
+    return toMultiple(n, s, Math.floor);
+  },
+};
+
+export const MATH_FUNCTIONS: Record<string, FunctionSpec> = {
+  ROUND: rounding("Number rounded to a number of digits (halves away from zero)", "nearest"),
+  ROUNDUP: rounding("Number rounded away from zero", "up"),
+  ROUNDDOWN: rounding("Number rounded towards zero", "down"),
+  TRUNC: rounding("Number truncated to a number of digits", "down"),
+  MROUND: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["number", "multiple"],
+    description: "Number rounded to the nearest multiple",
+    fn: ([x, multiple]) => {
+      const n = num(x), m = num(multiple);
+      if (m === 0) return 0;
+      if (n * m < 0) return formulaError("#NUM!", "Number and multiple must have the same sign");
+      // halves round away from zero
+      return toMultiple(n, m, q => Math.sign(q) * Math.round(Math.abs(q)));
+    },
+  },
+  INT: unary("Number rounded down to an integer", Math.floor),
+  MOD: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["number", "divisor"],
+    description: "Remainder of a division (takes the sign of the divisor)",
+    fn: ([x, divisor]) => {
+      const n = num(x), d = num(divisor);
+      if (d === 0) return formulaError("#DIV/0!", "Division by zero");
+      return clean(n - d * Math.floor(n / d));
+    },
+  },
+  ABS: unary("Absolute value", Math.abs),
+  SIGN: unary("Sign of a number (1, 0 or -1)", Math.sign),
+  POWER: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["number", "power"],
+    description: "Number raised to a power",
+    fn: ([x, power]) => {
+      const b = num(x), e = num(power);
+      if (b === 0 && e < 0) return formulaError("#DIV/0!", "Zero raised to a negative power");
+      if (b === 0 && e === 0) return formulaError("#NUM!", "Zero raised to the power zero");
+      return checkNumber(Math.pow(b, e));
+    },
+  },
+  SQRT: unary("Square root", Math.sqrt),
+  EXP: unary("e raised to a power", Math.exp),
+  LN: unary("Natural logarithm", x => (x > 0 ? Math.log(x) : NaN)),
+  LOG10: unary("Base-10 logarithm", x => (x > 0 ? Math.log10(x) : NaN)),
+  LOG: {
+    minArgs: 1,
+    maxArgs: 2,
+    params: ["number", "base"],
+    description: "Logarithm to a base (10 by default)",
+    fn: ([x, base]) => {
+      const n = num(x), b = num(base, 10);
+      if (n <= 0 || b <= 0) return formulaError("#NUM!", "Logarithm of a non-positive number");
+      if (b === 1) return formulaError("#DIV/0!", "Logarithm base cannot be 1");
+      return b === 10 ? Math.log10(n) : Math.log(n) / Math.log(b);
+    },
+  },
+  CEILING,
+  "CEILING.MATH": {
+    minArgs: 1,
+    maxArgs: 3,
+    params: ["number", "significance", "mode"],
+    description: "Number rounded up to a multiple; a non-zero mode rounds negatives away from zero",
+    fn: ([x, significance, mode]) => {
+      const n = num(x), s = Math.abs(num(significance, 1));
+      if (s === 0) return 0;
+      return toMultiple(n, s, n < 0 && num(mode) !== 0 ? Math.floor : Math.ceil);
+    },
+  },
+  FLOOR,
+  "FLOOR.MATH": {
+    minArgs: 1,
+    maxArgs: 3,
+    params: ["number", "significance", "mode"],
+    description: "Number rounded down to a multiple; a non-zero mode rounds negatives towards zero",
+    fn: ([x, significance, mode]) => {
+      const n = num(x), s = Math.abs(num(significance, 1));
+      if (s === 0) return 0;
+      return toMultiple(n, s, n < 0 && num(mode) !== 0 ? Math.ceil : Math.floor);
+    },
+  },
+  RAND: {
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    description: "Random number between 0 (inclusive) and 1 (exclusive)",
+    fn: (_args, ctx) => ctx.random(),
+  },
+  RANDBETWEEN: {
+    minArgs: 2,
+    maxArgs: 2,
+    volatile: true,
+    params: ["bottom", "top"],
+    description: "Random integer between two numbers (inclusive)",
+    fn: ([bottom, top], ctx) => {
+      const lo = Math.ceil(num(bottom)), hi = Math.floor(num(top));
+      if (lo > hi) return formulaError("#NUM!", "Bottom is greater than top");
+      return lo + Math.floor(ctx.random() * (hi - lo + 1));
+    },
+  },
+  PI: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: "The number π",
+    fn: () => Math.PI,
+  },
+  SIN: unary("Sine of an angle in radians", Math.sin),
+  COS: unary("Cosine of an angle in radians", Math.cos),
+  TAN: unary("Tangent of an angle in radians", Math.tan),
+  ASIN: unary("Arcsine, in radians", Math.asin),
+  ACOS: unary("Arccosine, in radians", Math.acos),
+  ATAN: unary("Arctangent, in radians", Math.atan),
+  ATAN2: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["x_num", "y_num"],
+    description: "Angle of the point (x, y) from the x-axis, in radians",
+    fn: ([x, y]) => {
+      const px = num(x), py = num(y);
+      if (px === 0 && py === 0) return formulaError("#DIV/0!", "ATAN2 of the origin");
+      return Math.atan2(py, px);
+    },
+  },
+  SINH: unary("Hyperbolic sine", Math.sinh),
+  COSH: unary("Hyperbolic cosine", Math.cosh),
+  TANH: unary("Hyperbolic tangent", Math.tanh),
+  DEGREES: unary("Radians converted to degrees", x => (x * 180) / Math.PI),
+  RADIANS: unary("Degrees converted to radians", x => (x * Math.PI) / 180),
+};
@@ -0,0 +1,67 @@
+// src/utils/functions/statistical.test.ts
+// Statistical functions against results Excel gives for the same inputs.
+
+import { describe, expect, it } from "vitest";
+import { evaluateAndUpdate } from "../formulaEngine";
+import type { CellValue } from "../formulaEngine";
+import { isFormulaError } from "../formulaValues";
+
+// A1:A8 is 2, 4, 4, 4, 5, 5, 7, 9; B1:B5 (x) is 1..5 and C1:C5 (y) is 2, 4, 5, 4, 5
+const DATA: Record<string, number> = {
+  A1: 2, A2: 4, A3: 4, A4: 4, A5: 5, A6: 5, A7: 7, A8: 9,
+  B1: 1, B2: 2, B3: 3, B4: 4, B5: 5,
+  C1: 2, C2: 4, C3: 5, C4: 4, C5: 5,
+};
+
+/** Value of `formula` in a cell next to the data */
+function evaluate(formula: string) {
+  const cells: Record<string, CellValue> = { E1: { raw: formula } };
+  for (const [id, n] of Object.entries(DATA)) cells[id] = { raw: String(n) };
+  evaluateAndUpdate(cells);
+  return cells.E1.value;
+}
+
+describe("statistical functions", () => {
+  it.each([
+    ["MEDIAN(A1:A8)", 4.5],
+    ["MEDIAN(3, 1, 2)", 2],
+    ["MODE(A1:A8)", 4],
+    ["MODE.SNGL(A1:A8)", 4],
+    ["STDEV(A1:A8)", 2.138089935],
+    ["STDEV.S(A1:A8)", 2.138089935],
+    ["STDEVP(A1:A8)", 2],
+    ["STDEV.P(A1:A8)", 2],
+    ["VAR(A1:A8)", 4.571428571],
+    ["VAR.S(A1:A8)", 4.571428571],
+    ["VAR.P(A1:A8)", 4],
+    ["PERCENTILE(A1:A8, 0.9)", 7.6],
+    ["PERCENTILE.INC(A1:A8, 0.25)", 4],
+    ["PERCENTILE.EXC(A1:A8, 0.25)", 4],
+    ["QUARTILE(A1:A8, 3)", 5.5],
+    ["QUARTILE.INC(A1:A8, 0)", 2],
+    ["QUARTILE.EXC(A1:A8, 3)", 6.5],
+    ["RANK(5, A1:A8)", 3],
+    ["RANK(5, A1:A8, 1)", 5],
+    ["RANK.EQ(4, A1:A8)", 5],
+    ["RANK.AVG(4, A1:A8)", 6],
+    ["LARGE(A1:A8, 2)", 7],
+    ["SMALL(A1:A8, 3)", 4],
+    ["CORREL(B1:B5, C1:C5)", 0.774596669],
+    ["FORECAST(6, C1:C5, B1:B5)", 5.8],
+    ["FORECAST.LINEAR(6, C1:C5, B1:B5)", 5.8],
+  ])("=%s is %s", (formula, expected) => {
+    expect(evaluate(`=${formula}`)).toBeCloseTo(expected, 8);
+  });
+
+  it.each([
+    ["STDEV.S(1)", "#DIV/0!"],
+    ["MODE(1, 2, 3)", "#N/A"],
+    ["PERCENTILE(A1:A8, 1.5)", "#NUM!"],
+    ["LARGE(A1:A8, 9)", "#NUM!"],
+    ["RANK(6, A1:A8)", "#N/A"],
+    ["CORREL(B1:B5, C1:C4)", "#N/A"],
+  ])("=%s is %s", (formula, code) => {
+    const value = evaluate(`=${formula}`);
+    expect(isFormulaError(value) && value.error).toBe(code);
+  });
+});
@@ -0,0 +1,248 @@
+// src/utils/functions/statistical.ts
+// Statistical functions. Inputs follow the aggregate rules in aggregate.ts (referenced text,
+// booleans and blanks are skipped); results match Excel's definitions, e.g. PERCENTILE.INC
+// interpolates between ranks and VAR.S divides by n - 1.
+
+import type { FunctionSpec } from "../functionRegistry";
+import { checkError, formulaError, toNumber, toScalar } from "../formulaValues";
+import type { Scalar, Value } from "../formulaValues";
+import { collectNumbers } from "./aggregate";
+
+const num = (v: Value | undefined) => toNumber(toScalar(v ?? null));
+
+function sorted(args: Value[]): number[] {
+  return collectNumbers(args).sort((a, b) => a - b);
+}
+
+function mean(xs: number[]) {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+/** Sum of squared deviations from the mean (two-pass, for accuracy) */
+function sumSquares(xs: number[]) {
+  const m = mean(xs);
+  return xs.reduce((acc, x) => acc + (x - m) * (x - m), 0);
+}
+
+/** Variance; `sample` divides by n - 1 */
+function variance(name: string, xs: number[], sample: boolean): number {
+  const d = sample ? xs.length - 1 : xs.length;
+  if (d <= 0) throw formulaError("#DIV/0!", `${name} needs at least ${sample ? 2 : 1} number(s)`);
+  return sumSquares(xs) / d;
+}
+
+/** Value at a 0-based fractional rank of sorted data, interpolating between neighbours */
+function atRank(xs: number[], rank: number) {
+  const lo = Math.floor(rank);
+  const frac = rank - lo;
+  return lo + 1 < xs.length ? xs[lo] + frac * (xs[lo + 1] - xs[lo]) : xs[lo];
+}
+
+function percentileInc(name: string, xs: number[], k: number) {
+  if (xs.length === 0 || k < 0 || k > 1) throw formulaError("#NUM!", `${name} needs numbers and a fraction between 0 and 1`);
+  return atRank(xs, k * (xs.length - 1));
+}
+
+function percentileExc(name: string, xs: number[], k: number) {
+  const rank = k * (xs.length + 1) - 1;
+  if (xs.length === 0 || rank < 0 || rank > xs.length - 1) throw formulaError("#NUM!", `${name} fraction is out of range for this data`);
+  return atRank(xs, rank);
+}
+
+/** Numbers of two equally sized ranges, keeping only positions where both are numbers */
+function pairs(name: string, a: Value, b: Value): Array<[number, number]> {
+  const xs = Array.isArray(a) ? a.flat() : [a];
+  const ys = Array.isArray(b) ? b.flat() : [b];
+  if (xs.length !== ys.length) throw formulaError("#N/A", `${name} ranges must be the same size`);
+  const out: Array<[number, number]> = [];
+  xs.forEach((x: Scalar, i) => {
+    const y = checkError(ys[i]);
+    checkError(x);
+    if (typeof x === "number" && typeof y === "number") out.push([x, y]);
+  });
+  return out;
+}
+
+function kth(name: string, args: Value[], fromTop: boolean): number {
+  const xs = sorted([args[0]]);
+  const k = Math.ceil(num(args[1]));
+  if (k < 1 || k > xs.length) throw formulaError("#NUM!", `${name} position ${k} is out of range`);
+  return fromTop ? xs[xs.length - k] : xs[k - 1];
+}
+
+/** Rank of a number within a list; `average` splits ties (RANK.AVG) */
+function rank(name: string, [value, ref, order]: Value[], average: boolean): number {
+  const x = num(value);
+  const xs = collectNumbers([ref]);
+  const ascending = order != null && num(order) !== 0;
+  const ties = xs.filter(v => v === x).length;
+  if (ties === 0) throw formulaError("#N/A", `${name}: the number is not in the list`);
+  const before = xs.filter(v => (ascending ? v < x : v > x)).length;
+  return average ? before + (ties + 1) / 2 : before + 1;
+}
+
+const stats = (description: string, fn: (xs: number[]) => number): FunctionSpec => ({
+  minArgs: 1,
+  args: ["range"],
+  params: ["number"],
+  description,
+  fn: (args) => fn(collectNumbers(args)),
+});
+
+const STDEV_S = stats("Sample standard deviation", xs => Math.sqrt(variance("STDEV.S", xs, true)));
+const STDEV_P = stats("Population standard deviation", xs => Math.sqrt(variance("STDEV.P", xs, false)));
+const VAR_S = stats("Sample variance", xs => variance("VAR.S", xs, true));
+const VAR_P = stats("Population variance", xs => variance("VAR.P", xs, false));
+
+const MODE_SNGL = stats("Most frequent value", (xs) => {
+  const counts = new Map<number, number>();
+  let top = 0;
+  for (const x of xs) {
+    const c = (counts.get(x) ?? 0) + 1;
+    counts.set(x, c);
+    top = Math.max(top, c);
+  }
+  if (top < 2) throw formulaError("#N/A", "No value occurs more than once");
+  // ties go to the value that appears first, as in Excel
+  return xs.find(x => counts.get(x) === top)!;
+});
+
+const PERCENTILE_INC: FunctionSpec = {
+  minArgs: 2,
+  maxArgs: 2,
+  args: ["range", "scalar"],
+  params: ["array", "k"],
+  description: "k-th percentile (0..1, inclusive)",
+  fn: ([array, k]) => percentileInc("PERCENTILE.INC", sorted([array]), num(k)),
+};
+
+const QUARTILE_INC: FunctionSpec = {
+  minArgs: 2,
+  maxArgs: 2,
+  args: ["range", "scalar"],
+  params: ["array", "quart"],
+  description: "Quartile (0-4, inclusive)",
+  fn: ([array, q]) => {
+    const quart = Math.trunc(num(q));
+    if (quart < 0 || quart > 4) return formulaError("#NUM!", "Quartile must be between 0 and 4");
+    return percentileInc("QUARTILE.INC", sorted([array]), quart / 4);
+  },
+};
+
+const RANK_EQ: FunctionSpec = {
+  minArgs: 2,
+  maxArgs: 3,
+  args: ["scalar", "range", "scalar"],
+  params: ["number", "ref", "order"],
+  description: "Rank of a number in a list (ties share the top rank)",
+  fn: (args) => rank("RANK.EQ", args, false),
+};
+
+const FORECAST_LINEAR: FunctionSpec = {
+  minArgs: 3,
+  maxArgs: 3,
+  args: ["scalar", "range", "range"],
+  params: ["x", "known_y's", "known_x's"],
+  description: "Value on the least-squares line through known x/y values",
+  fn: ([x, knownY, knownX]) => {
+    const target = num(x);
+    const ps = pairs("FORECAST.LINEAR", knownY, knownX);
+    if (ps.length === 0) return formulaError("#DIV/0!", "FORECAST.LINEAR has no data points");
+    const my = mean(ps.map(p => p[0])), mx = mean(ps.map(p => p[1]));
+    let sxy = 0, sxx = 0;
+    for (const [py, px] of ps) { sxy += (px - mx) * (py - my); sxx += (px - mx) * (px - mx); }
+    if (sxx === 0) return formulaError("#DIV/0!", "Known x values have no spread");
+    return my + (sxy / sxx) * (target - mx);
+  },
+};
+
+export const STATISTICAL_FUNCTIONS: Record<string, FunctionSpec> = {
+  MEDIAN: stats("Middle value", (xs) => {
+    if (xs.length === 0) throw formulaError("#NUM!", "MEDIAN of no numbers");
+    const s = [...xs].sort((a, b) => a - b);
+    const mid = s.length >> 1;
+    return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+  }),
+  MODE: MODE_SNGL,
+  "MODE.SNGL": MODE_SNGL,
+  STDEV: STDEV_S,
+  "STDEV.S": STDEV_S,
+  STDEVP: STDEV_P,
+  "STDEV.P": STDEV_P,
+  VAR: VAR_S,
+  "VAR.S": VAR_S,
+  VARP: VAR_P,
+  "VAR.P": VAR_P,
+  PERCENTILE: PERCENTILE_INC,
+  "PERCENTILE.INC": PERCENTILE_INC,
+  "PERCENTILE.EXC": {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["range", "scalar"],
+    params: ["array", "k"],
+    description: "k-th percentile (0..1, exclusive)",
+    fn: ([array, k]) => percentileExc("PERCENTILE.EXC", sorted([array]), num(k)),
+  },
+  QUARTILE: QUARTILE_INC,
+  "QUARTILE.INC": QUARTILE_INC,
+  "QUARTILE.EXC": {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["range", "scalar"],
+    params: ["array", "quart"],
+    description: "Quartile (1-3, exclusive)",
+    fn: ([array, q]) => {
+      const quart = Math.trunc(num(q));
+      if (quart < 1 || quart > 3) return formulaError("#NUM!", "Quartile must be between 1 and 3");
+      return percentileExc("QUARTILE.EXC", sorted([array]), quart / 4);
+    },
+  },
+  RANK: RANK_EQ,
+  "RANK.EQ": RANK_EQ,
+  "RANK.AVG": {
+    minArgs: 2,
+    maxArgs: 3,
+    args: ["scalar", "range", "scalar"],
+    params: ["number", "ref", "order"],
+    description: "Rank of a number in a list (ties share the average rank)",
+    fn: (args) => rank("RANK.AVG", args, true),
+  },
+  LARGE: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["range", "scalar"],
+    params: ["array", "k"],
+    description: "k-th largest value",
+    fn: (args) => kth("LARGE", args, true),
+  },
+  SMALL: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["range", "scalar"],
+    params: ["array", "k"],
+    description: "k-th smallest value",
+    fn: (args) => kth("SMALL", args, false),
+  },
+  CORREL: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["range", "range"],
+    params: ["array1", "array2"],
+    description: "Correlation coefficient of two data sets",
+    fn: ([a, b]) => {
+      const ps = pairs("CORREL", a, b);
+      if (ps.length < 2) return formulaError("#DIV/0!", "CORREL needs at least two pairs");
+      const mx = mean(ps.map(p => p[0])), my = mean(ps.map(p => p[1]));
+      let sxy = 0, sxx = 0, syy = 0;
+      for (const [x, y] of ps) {
+        sxy += (x - mx) * (y - my);
+        sxx += (x - mx) * (x - mx);
+        syy += (y - my) * (y - my);
+      }
+      if (sxx === 0 || syy === 0) return formulaError("#DIV/0!", "A data set has no spread");
+      return sxy / Math.sqrt(sxx * syy);
+    },
+  },
+  FORECAST: FORECAST_LINEAR,
+  "FORECAST.LINEAR": FORECAST_LINEAR,
+};
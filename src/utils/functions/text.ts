@@ -0,0 +1,277 @@
+// src/utils/functions/text.ts
+// Text functions. Positions are 1-based and counted in characters, as in Excel.
+
+import type { FunctionSpec } from "../functionRegistry";
+import { checkError, formulaError, toBoolean, toNumber, toScalar, toText } from "../formulaValues";
+import type { Scalar, Value } from "../formulaValues";
+import { parseDateText } from "../dateSerial";
+import { formatNumber, formatText } from "../numberFormat";
+import { wildcardToRegExp } from "./criteria";
+
+const text = (v: Value | undefined) => toText(toScalar(v ?? null));
+const num = (v: Value | undefined) => toNumber(toScalar(v ?? null));
+
+/** Every value of every argument as text, in reading order (errors propagate) */
+function allTexts(args: Value[]): string[] {
+  const out: string[] = [];
+  for (const a of args) {
+    if (Array.isArray(a)) for (const row of a) for (const v of row) out.push(toText(v));
+    else out.push(toText(a));
+  }
+  return out;
+}
+
+/** A character count argument: truncated, and #VALUE! when negative */
+function count(name: string, v: Value | undefined, fallback: number) {
+  const n = v == null ? fallback : Math.trunc(num(v));
+  if (n < 0) throw formulaError("#VALUE!", `${name} count cannot be negative`);
+  return n;
+}
+
+/** A 1-based start position argument */
+function start(name: string, v: Value | undefined) {
+  const n = v == null ? 1 : Math.trunc(num(v));
+  if (n < 1) throw formulaError("#VALUE!", `${name} start must be at least 1`);
+  return n;
+}
+
+/**
+ * Parse text the way VALUE does: thousands separators, a currency sign, a trailing %.
+ * `decimal` and `group` are the separators it is written with (a space group also takes
+ * no-break spaces); with `lakh` digits may also be grouped the Indian way, in twos above
+ * the last three (12,34,567).
+ */
+export function parseNumberText(s: string, decimal = ".", group = ",", lakh = false): number | null {
+  let t = s.trim();
+  if (t === "") return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(t)) { negative = true; t = t.slice(1, -1).trim(); }
+  if (/^[-+]/.test(t)) { negative = negative !== (t[0] === "-"); t = t.slice(1).trim(); }
+  t = t.replace(/^[$€£¥₹]\s*/, "").replace(/\s*[$€£¥₹]$/, ""); // "$5", or "5 €" as written in Europe
+  let scale = 1;
+  if (t.endsWith("%")) { scale = 0.01; t = t.slice(0, -1).trim(); }
+  const esc = (c: string) => c.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  const g = /^\s$/.test(group) ? "[ \u00a0\u202f]" : esc(group);
+  const indian = lakh ? `|\\d{1,2}(${g}\\d{2})*${g}\\d{3}` : "";
+  const shape = new RegExp(`^(\\d{1,3}(${g}\\d{3})+${indian}|\\d*)(${esc(decimal)}\\d*)?([eE][-+]?\\d+)?$`);
+  if (!shape.test(t) || !/\d/.test(t)) return null;
+  const n = Number(t.replace(new RegExp(g, "g"), "").replace(decimal, ".")) * scale;
+  return negative ? -n : n;
+}
+
+function split(s: string, delimiters: string[]): string[] {
+  const delims = delimiters.filter(d => d !== "");
+  if (delims.length === 0) return [s];
+  const re = new RegExp(delims.map(d => d.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")).join("|"));
+  return s.split(re);
+}
+
+/** Delimiter arguments may be a single text or a range of alternatives */
+function delimiterList(v: Value | undefined): string[] {
+  if (v == null) return [];
+  return Array.isArray(v) ? v.flat().map(toText) : [toText(v)];
+}
+
+export const TEXT_FUNCTIONS: Record<string, FunctionSpec> = {
+  CONCAT: {
+    minArgs: 1,
+    args: ["range"],
+    params: ["text"],
+    description: "Joins text from values and ranges",
+    fn: (args) => allTexts(args).join(""),
+  },
+  CONCATENATE: {
+    minArgs: 1,
+    params: ["text"],
+    description: "Joins text values",
+    fn: (args) => args.map(a => text(a)).join(""),
+  },
+  TEXTJOIN: {
+    minArgs: 3,
+    args: ["scalar", "scalar", "range"],
+    params: ["delimiter", "ignore_empty", "text"],
+    description: "Joins text with a delimiter, optionally skipping empty values",
+    fn: ([delimiter, ignoreEmpty, ...values]) => {
+      const skip = toBoolean(toScalar(ignoreEmpty));
+      const parts = allTexts(values).filter(s => !skip || s !== "");
+      return parts.join(text(delimiter));
+    },
+  },
+  LEFT: {
+    minArgs: 1,
+    maxArgs: 2,
+    params: ["text", "num_chars"],
+    description: "First characters of a text",
+    fn: ([s, n]) => [...text(s)].slice(0, count("LEFT", n, 1)).join(""),
+  },
+  RIGHT: {
+    minArgs: 1,
+    maxArgs: 2,
+    params: ["text", "num_chars"],
+    description: "Last characters of a text",
+    fn: ([s, n]) => {
+      const chars = [...text(s)];
+      const k = count("RIGHT", n, 1);
+      return k === 0 ? "" : chars.slice(-k).join("");
+    },
+  },
+  MID: {
+    minArgs: 3,
+    maxArgs: 3,
+    params: ["text", "start_num", "num_chars"],
+    description: "Characters from the middle of a text",
+    fn: ([s, from, n]) => {
+      const i = start("MID", from);
+      return [...text(s)].slice(i - 1, i - 1 + count("MID", n, 0)).join("");
+    },
+  },
+  LEN: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["text"],
+    description: "Number of characters in a text",
+    fn: ([s]) => [...text(s)].length,
+  },
+  FIND: {
+    minArgs: 2,
+    maxArgs: 3,
+    params: ["find_text", "within_text", "start_num"],
+    description: "Position of one text in another (case-sensitive)",
+    fn: ([needle, haystack, from]) => {
+      const i = text(haystack).indexOf(text(needle), start("FIND", from) - 1);
+      return i < 0 ? formulaError("#VALUE!", "FIND did not find the text") : i + 1;
+    },
+  },
+  SEARCH: {
+    minArgs: 2,
+    maxArgs: 3,
+    params: ["find_text", "within_text", "start_num"],
+    description: "Position of one text in another (case-insensitive, wildcards allowed)",
+    fn: ([needle, haystack, from]) => {
+      const h = text(haystack);
+      const offset = start("SEARCH", from) - 1;
+      const m = wildcardToRegExp(text(needle), false).exec(h.slice(offset));
+      return m ? offset + m.index + 1 : formulaError("#VALUE!", "SEARCH did not find the text");
+    },
+  },
+  SUBSTITUTE: {
+    minArgs: 3,
+    maxArgs: 4,
+    params: ["text", "old_text", "new_text", "instance_num"],
+    description: "Replaces occurrences of a text",
+    fn: ([s, oldText, newText, instance]) => {
+      const src = text(s), from = text(oldText), to = text(newText);
+      if (from === "") return src;
+      if (instance == null) return src.split(from).join(to);
+      const n = Math.trunc(num(instance));
+      if (n < 1) return formulaError("#VALUE!", "SUBSTITUTE instance must be at least 1");
+      let at = -1;
+      for (let k = 0; k < n; k++) {
+        at = src.indexOf(from, at + 1);
+        if (at < 0) return src;
+      }
+      return src.slice(0, at) + to + src.slice(at + from.length);
+    },
+  },
+  REPLACE: {
+    minArgs: 4,
+    maxArgs: 4,
+    params: ["old_text", "start_num", "num_chars", "new_text"],
+    description: "Replaces characters at a position",
+    fn: ([s, from, n, newText]) => {
+      const chars = [...text(s)];
+      const i = start("REPLACE", from);
+      chars.splice(i - 1, count("REPLACE", n, 0), text(newText));
+      return chars.join("");
+    },
+  },
+  TRIM: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["text"],
+    description: "Removes leading, trailing and repeated spaces",
+    fn: ([s]) => text(s).replace(/ +/g, " ").trim(),
+  },
+  UPPER: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["text"],
+    description: "Text in upper case",
+    fn: ([s]) => text(s).toUpperCase(),
+  },
+  LOWER: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["text"],
+    description: "Text in lower case",
+    fn: ([s]) => text(s).toLowerCase(),
+  },
+  PROPER: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["text"],
+    description: "Capitalizes the first letter of each word",
+    fn: ([s]) => text(s).toLowerCase().replace(/(^|[^\p{L}])(\p{L})/gu, (_, pre: string, ch: string) => pre + ch.toUpperCase()),
+  },
+  EXACT: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["text1", "text2"],
+    description: "TRUE if two texts are identical (case-sensitive)",
+    fn: ([a, b]) => text(a) === text(b),
+  },
+  REPT: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["text", "number_times"],
+    description: "Repeats a text",
+    fn: ([s, n]) => text(s).repeat(count("REPT", n, 0)),
+  },
+  TEXT: {
+    minArgs: 2,
+    maxArgs: 2,
+    params: ["value", "format_text"],
+    description: "Formats a number with a format code, e.g. \"#,##0.00\"",
+    fn: ([value, format]) => {
+      const v = checkError(toScalar(value));
+      const code = text(format);
+      let n: number | null = typeof v === "number" ? v : v === null ? 0 : null;
+      if (typeof v === "string") n = parseNumberText(v) ?? parseDateText(v)?.serial ?? null;
+      if (n === null) return formatText(toText(v), code);
+      try {
+        return formatNumber(n, code);
+      } catch {
+        return formulaError("#VALUE!", "TEXT cannot format a negative date");
+      }
+    },
+  },
+  VALUE: {
+    minArgs: 1,
+    maxArgs: 1,
+    params: ["text"],
+    description: "Converts text that looks like a number into a number",
+    fn: ([value]) => {
+      const v = checkError(toScalar(value));
+      if (typeof v === "number") return v;
+      const n = parseNumberText(toText(v)) ?? parseDateText(toText(v))?.serial ?? null;
+      return n === null ? formulaError("#VALUE!", `"${toText(v)}" is not a number`) : n;
+    },
+  },
+  TEXTSPLIT: {
+    minArgs: 2,
+    maxArgs: 4,
+    args: ["scalar", "any", "any", "scalar"],
+    params: ["text", "col_delimiter", "row_delimiter", "ignore_empty"],
+    description: "Splits text into columns (and rows) at delimiters",
+    fn: ([s, colDelims, rowDelims, ignoreEmpty]) => {
+      const skip = ignoreEmpty == null ? false : toBoolean(toScalar(ignoreEmpty));
+      const keep = (parts: string[]) => (skip ? parts.filter(p => p !== "") : parts);
+      const rows = keep(split(text(s), delimiterList(rowDelims)))
+        .map(line => keep(split(line, delimiterList(colDelims))));
+      // ragged rows are padded with #N/A, like Excel
+      const width = Math.max(1, ...rows.map(r => r.length));
+      const pad: Scalar = formulaError("#N/A", "No value at this position");
+      return rows.map(r => [...r, ...new Array<Scalar>(width - r.length).fill(pad)]);
+    },
+  },
+};
@@ -0,0 +1,57 @@
+// src/utils/functions/whatIf.test.ts
+// TABLE: data tables with one or two input cells, worked out without touching the inputs.
+
+import { describe, expect, it } from "vitest";
+import { createWorkbook, isFormulaError } from "../spreadsheet";
+import type { CellContent } from "../spreadsheet";
+
+const errorOf = (v: CellContent) => (isFormulaError(v) ? v.error : null);
+
+// the model: A1 (rate) is 2, B1 (quantity) is 10, C1 is =A1*B1 and C2 is =C1+1
+function sheet() {
+  const ws = createWorkbook().sheet("Sheet1")!;
+  ws.setRange("A1", [[2, 10, "=A1*B1"], [null, null, "=C1+1"]]);
+  return ws;
+}
+
+describe("TABLE", () => {
+  it("puts the values down the left into the column input, one formula per column", () => {
+    const ws = sheet();
+    ws.setRange("E1", [[null, "=C1", "=C2"], [1], [3], [5]]);
+    ws.set("F2", "=TABLE(,A1)");
+    expect(ws.getRange("F2:G4")).toEqual([[10, 11], [30, 31], [50, 51]]);
+    expect(ws.get("C1")).toBe(20);
+  });
+
+  it("puts the values across the top into the row input, one formula per row", () => {
+    const ws = sheet();
+    ws.setRange("E1", [[null, 5, 20], ["=C1"], ["=C2"]]);
+    ws.set("F2", "=TABLE(B1,)");
+    expect(ws.getRange("F2:G3")).toEqual([[10, 40], [11, 41]]);
+  });
+
+  it("works a two-input table out from the formula in its corner", () => {
+    const ws = sheet();
+    ws.setRange("E1", [["=C2", 1, 3], [10], [100]]);
+    ws.set("F2", "=TABLE(A1,B1)");
+    expect(ws.getRange("F2:G3")).toEqual([[11, 31], [101, 301]]);
+  });
+
+  it("follows the inputs when they change", () => {
+    const ws = sheet();
+    ws.setRange("E1", [[null, "=C1"], [1], [2]]);
+    ws.set("F2", "=TABLE(,A1)");
+    ws.set("B1", 3);
+    expect(ws.getRange("F2:F3")).toEqual([[3], [6]]);
+  });
+
+  it("rejects tables without inputs or without room for them", () => {
+    const ws = sheet();
+    ws.set("F2", "=TABLE(,)");
+    ws.set("A5", "=TABLE(,A1)");
+    ws.set("F5", "=TABLE(,A1:A2)");
+    expect(errorOf(ws.get("F2"))).toBe("#VALUE!");
+    expect(errorOf(ws.get("A5"))).toBe("#REF!");
+    expect(errorOf(ws.get("F5"))).toBe("#VALUE!");
+  });
+});
@@ -0,0 +1,80 @@
+// src/utils/functions/whatIf.ts
+// What-if analysis: TABLE, the formula of a data table. Its values are worked out by the
+// engine (ctx.whatIf) with the table's input values put into the input cells one by one.
+
+import type { FunctionContext, FunctionSpec } from "../functionRegistry";
+import { formulaError, toScalar } from "../formulaValues";
+import type { RangeRef, Scalar, Value } from "../formulaValues";
+
+/** Input values a data table reads before the first blank (a block as large as Excel allows) */
+const MAX_INPUTS = 10_000;
+
+/** The input cell given as TABLE's i-th argument, or null when it was left out */
+function inputCell(args: Value[], ctx: FunctionContext, i: number): RangeRef | null {
+  const ref = ctx.refs[i];
+  if (!ref) {
+    if (args[i] == null) return null;
+    throw formulaError("#VALUE!", "TABLE's input cells must be cell references");
+  }
+  if (ref.top !== ref.bottom || ref.left !== ref.right) throw formulaError("#VALUE!", "A TABLE input must be a single cell");
+  if (ref.sheet !== undefined) throw formulaError("#REF!", "TABLE's input cells must be on the table's sheet");
+  return ref;
+}
+
+/** Values of the cells from (row, col) on, stepping by (dr, dc), up to the first blank */
+function inputValues(ctx: FunctionContext, row: number, col: number, dr: number, dc: number): Scalar[] {
+  const out: Scalar[] = [];
+  for (let i = 0; i < MAX_INPUTS && row >= 0 && col >= 0; i++, row += dr, col += dc) {
+    const v = toScalar(ctx.whatIf(row, col));
+    if (v == null || v === "") break;
+    out.push(v);
+  }
+  return out;
+}
+
+/** One cell of a data table: a formula's what-if value, its top-left value when it is an array */
+const cellOf = (v: Value): Scalar => (Array.isArray(v) ? v[0]?.[0] ?? null : v);
+
+export const WHAT_IF_FUNCTIONS: Record<string, FunctionSpec> = {
+  TABLE: {
+    minArgs: 2,
+    maxArgs: 2,
+    args: ["any", "any"],
+    // it reads the cells around it and whatever its formulas read, which the formula doesn't show
+    volatile: true,
+    params: ["row_input_cell", "column_input_cell"],
+    description: "Data table: formula results for input values put into a row and/or column input cell",
+    fn: (args, ctx) => {
+      // written in the first cell of the table's body: input values run along the row above
+      // and the column left of it, the formulas sit where they cross, as in Excel
+      const rowInput = inputCell(args, ctx, 0);
+      const colInput = inputCell(args, ctx, 1);
+      const { row, col } = ctx;
+      if (!rowInput && !colInput) throw formulaError("#VALUE!", "TABLE needs a row input cell, a column input cell, or both");
+      if (row === 0 || col === 0) throw formulaError("#REF!", "A data table needs a row above and a column left of TABLE");
+      const set = (input: RangeRef, value: Scalar) => ({ row: input.top, col: input.left, value });
+
+      if (rowInput && colInput) {
+        // two inputs: one formula in the corner
+        const across = inputValues(ctx, row - 1, col, 0, 1);
+        const down = inputValues(ctx, row, col - 1, 1, 0);
+        if (!across.length || !down.length) throw formulaError("#VALUE!", "The data table has no input values");
+        return down.map(d => across.map(a => cellOf(ctx.whatIf(row - 1, col - 1, [set(rowInput, a), set(colInput, d)]))));
+      }
+      if (rowInput) {
+        // input values across the top, one formula per row down the left
+        const across = inputValues(ctx, row - 1, col, 0, 1);
+        const formulas = inputValues(ctx, row, col - 1, 1, 0).length;
+        if (!across.length || !formulas) throw formulaError("#VALUE!", "The data table has no input values or no formulas");
+        return Array.from({ length: formulas }, (_, i) =>
+          across.map(a => cellOf(ctx.whatIf(row + i, col - 1, [set(rowInput, a)]))));
+      }
+      // input values down the left, one formula per column across the top
+      const down = inputValues(ctx, row, col - 1, 1, 0);
+      const formulas = inputValues(ctx, row - 1, col, 0, 1).length;
+      if (!down.length || !formulas) throw formulaError("#VALUE!", "The data table has no input values or no formulas");
+      return down.map(d =>
+        Array.from({ length: formulas }, (_, j) => cellOf(ctx.whatIf(row - 1, col + j, [set(colInput!, d)]))));
+    },
+  },
+};
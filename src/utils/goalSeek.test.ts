@@ -0,0 +1,70 @@
+// src/utils/goalSeek.test.ts
+// Goal Seek: the input value that brings a formula to a target, by Newton steps or, for
+// formulas with jumps, by bisection.
+
+import { describe, expect, it } from "vitest";
+import { evaluateAndUpdate } from "./formulaEngine";
+import type { CellValue } from "./formulaEngine";
+import { goalSeek } from "./goalSeek";
+import { workbookContext } from "./workbook";
+
+/** A calculated sheet from raw texts by cell id */
+function sheetOf(raws: Record<string, string>) {
+  const cells: Record<string, CellValue> = {};
+  for (const [id, raw] of Object.entries(raws)) cells[id] = { raw };
+  evaluateAndUpdate(cells);
+  return cells;
+}
+
+describe("goalSeek", () => {
+  it("finds the input of a linear formula", () => {
+    const cells = sheetOf({ A1: "1", B1: "=A1*3+1" });
+    expect(goalSeek(cells, "B1", 10, "A1")).toEqual({ found: true, input: 3, value: 10 });
+    expect(cells.A1.raw).toBe("1");
+  });
+
+  it("follows the formula through other cells", () => {
+    const cells = sheetOf({ A1: "1", A2: "=A1^2", B1: "=A2+1" });
+    const result = goalSeek(cells, "B1", 3, "A1");
+    expect(result.found).toBe(true);
+    expect(result.input).toBeCloseTo(Math.SQRT2, 6);
+  });
+
+  it("solves a loan for its term", () => {
+    const cells = sheetOf({ A1: "12", B1: "=PMT(0.06/12,A1,-10000)" });
+    const result = goalSeek(cells, "B1", 193.33, "A1");
+    expect(result.found).toBe(true);
+    expect(result.input).toBeCloseTo(60, 2);
+  });
+
+  it("crosses flat parts and jumps by bisection", () => {
+    const cells = sheetOf({ A1: "0", B1: "=ROUND(A1,0)*2" });
+    const result = goalSeek(cells, "B1", 14, "A1");
+    expect(result).toMatchObject({ found: true, value: 14 });
+    expect(Math.round(result.input)).toBe(7);
+  });
+
+  it("reports a target the formula can't reach, with the closest value tried", () => {
+    const cells = sheetOf({ A1: "3", B1: "=A1^2+1" });
+    const result = goalSeek(cells, "B1", -5, "A1");
+    expect(result.found).toBe(false);
+    expect(result.value).toBeCloseTo(result.input ** 2 + 1);
+    expect(result.value as number).toBeLessThan(2);
+  });
+
+  it("reads other sheets of the workbook", () => {
+    const here = sheetOf({ A1: "1", B1: "=A1*Rates!A1" });
+    const workbook = workbookContext(
+      [{ name: "Sheet1", cells: here }, { name: "Rates", cells: sheetOf({ A1: "4" }) }],
+      "Sheet1"
+    );
+    expect(goalSeek(here, "B1", 10, "A1", undefined, workbook)).toMatchObject({ found: true, input: 2.5 });
+  });
+
+  it("throws for cells of the wrong kind", () => {
+    const cells = sheetOf({ A1: "1", B1: "=A1*2" });
+    expect(() => goalSeek(cells, "A1", 5, "B1")).toThrow("A1 must contain a formula");
+    expect(() => goalSeek(cells, "B1", 5, "B1")).toThrow("B1 must contain a value, not a formula");
+    expect(() => goalSeek(cells, "B1", 5, "nope")).toThrow('"nope" is not a cell reference');
+  });
+});
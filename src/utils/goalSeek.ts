@@ -0,0 +1,96 @@
+// src/utils/goalSeek.ts
+// Goal Seek: the value of an input cell that makes a formula cell reach a target, found by
+// working the formula out again (evaluateWhatIf) for trial values of the input.
+
+import { evaluateWhatIf } from "./formulaEngine";
+import type { CalcOptions, CellValue, WorkbookContext } from "./formulaEngine";
+import { parseId } from "./formulaParser";
+import { isFormulaError } from "./formulaValues";
+import type { Scalar } from "./formulaValues";
+import { solveNewton } from "./functions/financial";
+
+/** Outcome of a Goal Seek; `input` is what the changing cell should be set to */
+export type GoalSeekResult = {
+  /** The formula reaches the target (within a relative 1e-7) at `input` */
+  found: boolean;
+  input: number;
+  /** Value the formula cell shows with `input` in the changing cell */
+  value: Scalar;
+};
+
+/** Doublings of the search step while looking for values on both sides of the target */
+const MAX_EXPANSIONS = 60;
+const MAX_BISECTIONS = 200;
+
+/**
+ * goalSeek(cells, setCell, target, changingCell, options?, workbook?)
+ * - the number to type into `changingCell` so the formula in `setCell` comes out as `target`:
+ *   Newton iteration from the cell's current value, then (for formulas with jumps or flat
+ *   parts) a search for values either side of the target, narrowed down by bisection
+ * - found is false when neither gets there; input is then the closest value tried
+ * - throws when `setCell` holds no formula or `changingCell` holds one
+ */
+export function goalSeek(
+  cells: Record<string, CellValue>,
+  setCell: string,
+  target: number,
+  changingCell: string,
+  options?: CalcOptions,
+  workbook?: WorkbookContext
+): GoalSeekResult {
+  if (!parseId(setCell) || cells[setCell]?.raw?.[0] !== "=") throw new Error(`${setCell} must contain a formula`);
+  if (!parseId(changingCell)) throw new Error(`"${changingCell}" is not a cell reference`);
+  if (cells[changingCell]?.raw?.[0] === "=") throw new Error(`${changingCell} must contain a value, not a formula`);
+
+  const valueAt = (x: number): Scalar => {
+    const v = evaluateWhatIf(cells, setCell, { [changingCell]: x }, options, workbook);
+    return Array.isArray(v) ? v[0]?.[0] ?? null : v; // an array formula shows its top-left value
+  };
+  const miss = (x: number) => {
+    const v = valueAt(x);
+    return typeof v === "number" ? v - target : NaN;
+  };
+  const tolerance = 1e-7 * Math.max(1, Math.abs(target));
+  const result = (x: number): GoalSeekResult => {
+    const value = valueAt(x);
+    return { found: typeof value === "number" && Math.abs(value - target) <= tolerance, input: x, value };
+  };
+
+  const current = cells[changingCell]?.value;
+  const start = typeof current === "number" && !isFormulaError(current) ? current : 0;
+  try {
+    const solved = result(solveNewton(miss, start));
+    if (solved.found) return solved;
+  } catch {
+    // didn't converge: search for a sign change instead
+  }
+
+  let best = start;
+  let bestMiss = Math.abs(miss(start));
+  const consider = (x: number, m: number) => {
+    if (Math.abs(m) < bestMiss) { best = x; bestMiss = Math.abs(m); }
+  };
+  const m0 = miss(start);
+  let step = Math.max(1, Math.abs(start)) * 0.01;
+  for (let i = 0; i < MAX_EXPANSIONS && Number.isFinite(m0); i++, step *= 2) {
+    for (const x of [start + step, start - step]) {
+      const m = miss(x);
+      if (!Number.isFinite(m)) continue;
+      consider(x, m);
+      if (Math.sign(m) === Math.sign(m0) && m !== 0) continue;
+      // the target lies between start and x
+      let lo = start, hi = x, mlo = m0;
+      for (let j = 0; j < MAX_BISECTIONS; j++) {
+        const mid = (lo + hi) / 2;
+        if (mid === lo || mid === hi) break; // as close as numbers get
+        const mm = miss(mid);
+        if (!Number.isFinite(mm)) break;
+        consider(mid, mm);
+        if (Math.abs(mm) <= tolerance) return result(mid);
+        if (Math.sign(mm) === Math.sign(mlo)) { lo = mid; mlo = mm; } else hi = mid;
+      }
+      return result(best);
+    }
+  }
+  return result(best);
+}
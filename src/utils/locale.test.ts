@@ -0,0 +1,97 @@
+// src/utils/locale.test.ts
+// Workbook locale: formulas and numbers translated between the locale's syntax, used while
+// editing, and the canonical form cells store.
+
+import { describe, expect, it } from "vitest";
+import { dateToSerial, parseDateText } from "./dateSerial";
+import {
+  canonicalFormula,
+  canonicalFunctionName,
+  fromEditText,
+  getLocale,
+  localizeFormula,
+  numberSymbols,
+  toEditText,
+} from "./locale";
+import { formatNumber } from "./numberFormat";
+
+const german = { locale: "de-DE" };
+const germanNames = { locale: "de-DE", localizeFunctions: true };
+const french = { locale: "fr-FR", localizeFunctions: true };
+
+describe("formulas", () => {
+  it("writes separators and decimals the locale's way", () => {
+    expect(localizeFormula("=SUM(A1,2.5)", german)).toBe("=SUM(A1;2,5)");
+    expect(canonicalFormula("=SUM(A1;2,5)", german)).toBe("=SUM(A1,2.5)");
+    expect(localizeFormula("=ROUND(A1,2)", { locale: "en-US" })).toBe("=ROUND(A1,2)");
+  });
+
+  it("localises function names only when asked to", () => {
+    expect(localizeFormula("=SUM(A1,2.5)", germanNames)).toBe("=SUMME(A1;2,5)");
+    expect(canonicalFormula("=SUMME(A1;2,5)", germanNames)).toBe("=SUM(A1,2.5)");
+    expect(localizeFormula("=IF(A1>0.5,VLOOKUP(A1,B:C,2),0)", french)).toBe("=SI(A1>0,5;RECHERCHEV(A1;B:C;2);0)");
+    expect(canonicalFormula("=wenn(a1>1;1;0)", germanNames)).toBe("=IF(a1>1,1,0)");
+  });
+
+  it("leaves strings, sheet names, errors and names that aren't called alone", () => {
+    const formula = '=IF(\'Q1, 2.5\'!A1="a,b",#N/A,Sum+1.5)';
+    const local = localizeFormula(formula, germanNames);
+    expect(local).toBe('=WENN(\'Q1, 2.5\'!A1="a,b";#N/A;Sum+1,5)');
+    expect(canonicalFormula(local, germanNames)).toBe(formula);
+  });
+
+  it("keeps functions without a localised name as they are", () => {
+    expect(localizeFormula("=XIRR(A1:A3,B1:B3)", germanNames)).toBe("=XIRR(A1:A3;B1:B3)");
+    expect(canonicalFunctionName("summe", germanNames)).toBe("SUM");
+    expect(canonicalFunctionName("summe", german)).toBe("SUMME");
+    expect(canonicalFunctionName("xirr", germanNames)).toBe("XIRR");
+  });
+});
+
+describe("editing", () => {
+  it("starts an edit from the locale's text", () => {
+    expect(toEditText("1234.5", german)).toBe("1234,5");
+    expect(toEditText("=A1*0.5", german)).toBe("=A1*0,5");
+    expect(toEditText("1.5 kg", german)).toBe("1.5 kg");
+    expect(toEditText("1234.5", { locale: "en-GB" })).toBe("1234.5");
+  });
+
+  it("stores typed numbers and formulas in canonical form", () => {
+    expect(fromEditText("1.234,56", german)).toBe("1234.56");
+    expect(fromEditText("1 234,5", french)).toBe("1234.5");
+    expect(fromEditText("1,234.56", { locale: "en-US" })).toBe("1234.56");
+    expect(fromEditText("=SUMME(A1;2,5)", germanNames)).toBe("=SUM(A1,2.5)");
+    expect(fromEditText("12,5 %", german)).toBe("12,5 %");
+    expect(fromEditText("Straße", german)).toBe("Straße");
+  });
+
+  it("keeps numbers typed in canonical form as typed", () => {
+    expect(fromEditText("00123", { locale: "en-US" })).toBe("00123");
+    expect(fromEditText("1e3", { locale: "en-US" })).toBe("1e3");
+    expect(fromEditText("1234.50", { locale: "en-GB" })).toBe("1234.50");
+    expect(fromEditText("00123", german)).toBe("00123");
+    expect(fromEditText("1.234", german)).toBe("1234");
+    expect(fromEditText("1,5", german)).toBe("1.5");
+  });
+
+  it("reads Indian digit grouping in en-IN only", () => {
+    const india = { locale: "en-IN" };
+    expect(fromEditText("12,34,567", india)).toBe("1234567");
+    expect(fromEditText("1,23,45,678.5", india)).toBe("12345678.5");
+    expect(fromEditText("1,234,567", india)).toBe("1234567");
+    expect(fromEditText("123,45,678", india)).toBe("123,45,678");
+    expect(fromEditText("12,34,567", { locale: "en-US" })).toBe("12,34,567");
+  });
+});
+
+describe("getLocale", () => {
+  it("shows numbers and reads dates the locale's way", () => {
+    expect(formatNumber(1234.56, "#,##0.00", numberSymbols(getLocale(german)))).toBe("1.234,56");
+    expect(parseDateText("03/04/2024", getLocale({ locale: "en-US" }).monthFirst)?.serial).toBe(dateToSerial(2024, 3, 4));
+    expect(parseDateText("03/04/2024", getLocale(german).monthFirst)?.serial).toBe(dateToSerial(2024, 4, 3));
+  });
+
+  it("falls back to the first locale for an unknown id", () => {
+    expect(getLocale({ locale: "xx-XX" }).id).toBe("en-IN");
+  });
+});
@@ -0,0 +1,201 @@
+// src/utils/locale.ts
+// Workbook locale: how numbers are typed and shown (1.234,56 or 1,234.56), the argument
+// separator of formulas (; or ,), numeric date order, the default currency and, optionally,
+// localised function names. Cells always store the canonical form (1234.56, =SUM(A1,2.5)):
+// text is translated when an edit starts and when it is committed.
+
+import { numberToText } from "./formulaValues";
+import { parseNumberText } from "./functions/text";
+import type { NumberSymbols } from "./numberFormat";
+
+export type Locale = {
+  id: string;
+  label: string;
+  decimal: string;
+  group: string;
+  /** Between function arguments: "," where the decimal separator is ".", else ";" */
+  separator: string;
+  /** Symbol of the currency number format when a cell doesn't pick one */
+  currency: string;
+  /** Numeric dates are typed month first (01/15/2024) */
+  monthFirst: boolean;
+  /** Numbers may also be typed with Indian digit grouping: 12,34,567 (shown 1,234,567) */
+  lakh?: boolean;
+  /** Localised function names by canonical (English) name */
+  functions?: Record<string, string>;
+};
+
+/** The workbook's locale setting */
+export type LocaleSettings = {
+  locale: string;
+  /** Show and accept the locale's function names (SUMME for SUM) */
+  localizeFunctions?: boolean;
+};
+
+const GERMAN_FUNCTIONS: Record<string, string> = {
+  ABS: "ABS", AND: "UND", AVERAGE: "MITTELWERT", AVERAGEIF: "MITTELWERTWENN", CONCAT: "TEXTKETTE",
+  CONCATENATE: "VERKETTEN", COLUMN: "SPALTE", COLUMNS: "SPALTEN", COUNT: "ANZAHL", COUNTA: "ANZAHL2",
+  COUNTIF: "ZÄHLENWENN", COUNTIFS: "ZÄHLENWENNS", DATE: "DATUM", DAY: "TAG", FILTER: "FILTER",
+  FV: "ZW", HLOOKUP: "WVERWEIS", IF: "WENN", IFERROR: "WENNFEHLER", IFS: "WENNS", INDEX: "INDEX",
+  INDIRECT: "INDIREKT", INT: "GANZZAHL", IRR: "IKV", LEFT: "LINKS", LEN: "LÄNGE", LOWER: "KLEIN",
+  MATCH: "VERGLEICH", MAX: "MAX", MEDIAN: "MEDIAN", MID: "TEIL", MIN: "MIN", MOD: "REST",
+  MONTH: "MONAT", NOT: "NICHT", NOW: "JETZT", NPV: "NBW", OFFSET: "BEREICH.VERSCHIEBEN", OR: "ODER",
+  PMT: "RMZ", POWER: "POTENZ", PV: "BW", RAND: "ZUFALLSZAHL", RANDBETWEEN: "ZUFALLSBEREICH",
+  RATE: "ZINS", RIGHT: "RECHTS", ROUND: "RUNDEN", ROUNDDOWN: "ABRUNDEN", ROUNDUP: "AUFRUNDEN",
+  ROW: "ZEILE", ROWS: "ZEILEN", SEQUENCE: "SEQUENZ", SORT: "SORTIEREN", SQRT: "WURZEL",
+  STDEV: "STABW", SUM: "SUMME", SUMIF: "SUMMEWENN", SUMIFS: "SUMMEWENNS", SUMPRODUCT: "SUMMENPRODUKT",
+  TEXT: "TEXT", TODAY: "HEUTE", TRIM: "GLÄTTEN", UNIQUE: "EINDEUTIG", UPPER: "GROSS", VALUE: "WERT",
+  VLOOKUP: "SVERWEIS", XLOOKUP: "XVERWEIS", YEAR: "JAHR",
+};
+
+const FRENCH_FUNCTIONS: Record<string, string> = {
+  ABS: "ABS", AND: "ET", AVERAGE: "MOYENNE", AVERAGEIF: "MOYENNE.SI", CONCAT: "CONCAT",
+  CONCATENATE: "CONCATENER", COLUMN: "COLONNE", COLUMNS: "COLONNES", COUNT: "NB", COUNTA: "NBVAL",
+  COUNTIF: "NB.SI", COUNTIFS: "NB.SI.ENS", DATE: "DATE", DAY: "JOUR", FILTER: "FILTRE", FV: "VC",
+  HLOOKUP: "RECHERCHEH", IF: "SI", IFERROR: "SIERREUR", IFS: "SI.CONDITIONS", INDEX: "INDEX",
+  INDIRECT: "INDIRECT", INT: "ENT", IRR: "TRI", LEFT: "GAUCHE", LEN: "NBCAR", LOWER: "MINUSCULE",
+  MATCH: "EQUIV", MAX: "MAX", MEDIAN: "MEDIANE", MID: "STXT", MIN: "MIN", MOD: "MOD", MONTH: "MOIS",
+  NOT: "NON", NOW: "MAINTENANT", NPV: "VAN", OFFSET: "DECALER", OR: "OU", PMT: "VPM",
+  POWER: "PUISSANCE", PV: "VA", RAND: "ALEA", RANDBETWEEN: "ALEA.ENTRE.BORNES", RATE: "TAUX",
+  RIGHT: "DROITE", ROUND: "ARRONDI", ROUNDDOWN: "ARRONDI.INF", ROUNDUP: "ARRONDI.SUP", ROW: "LIGNE",
+  ROWS: "LIGNES", SEQUENCE: "SEQUENCE", SORT: "TRIER", SQRT: "RACINE", STDEV: "ECARTYPE",
+  SUM: "SOMME", SUMIF: "SOMME.SI", SUMIFS: "SOMME.SI.ENS", SUMPRODUCT: "SOMMEPROD", TEXT: "TEXTE",
+  TODAY: "AUJOURDHUI", TRIM: "SUPPRESPACE", UNIQUE: "UNIQUE", UPPER: "MAJUSCULE", VALUE: "CNUM",
+  VLOOKUP: "RECHERCHEV", XLOOKUP: "RECHERCHEX", YEAR: "ANNEE",
+};
+
+export const LOCALES: Locale[] = [
+  { id: "en-IN", label: "English (India)", decimal: ".", group: ",", separator: ",", currency: "₹", monthFirst: false, lakh: true },
+  { id: "en-US", label: "English (United States)", decimal: ".", group: ",", separator: ",", currency: "$", monthFirst: true },
+  { id: "en-GB", label: "English (United Kingdom)", decimal: ".", group: ",", separator: ",", currency: "£", monthFirst: false },
+  { id: "de-DE", label: "Deutsch (Deutschland)", decimal: ",", group: ".", separator: ";", currency: "€", monthFirst: false, functions: GERMAN_FUNCTIONS },
+  { id: "fr-FR", label: "Français (France)", decimal: ",", group: " ", separator: ";", currency: "€", monthFirst: false, functions: FRENCH_FUNCTIONS },
+];
+
+/** What the sheet did before there was a setting: 1,234.56 and ₹ */
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = { locale: "en-IN", localizeFunctions: false };
+
+export function getLocale(settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS): Locale {
+  return LOCALES.find(l => l.id === settings.locale) ?? LOCALES[0];
+}
+
+/** The separators the locale shows numbers with, for formatNumber */
+export function numberSymbols(locale: Locale): NumberSymbols {
+  return { decimal: locale.decimal, group: locale.group };
+}
+
+/** Function names to show instead of the canonical ones, or null when they aren't localised */
+export function localFunctionNames(settings: LocaleSettings): Record<string, string> | null {
+  return settings.localizeFunctions ? getLocale(settings).functions ?? null : null;
+}
+
+/** The canonical name of a function name as typed (localised or not) */
+export function canonicalFunctionName(name: string, settings: LocaleSettings): string {
+  const names = localFunctionNames(settings);
+  const upper = name.toUpperCase();
+  if (!names) return upper;
+  return Object.keys(names).find(canonical => names[canonical] === upper) ?? upper;
+}
+
+/** How a formula is written: decimal point, argument separator, function names */
+type Syntax = { decimal: string; separator: string; names: Record<string, string> | null };
+
+const CANONICAL: Syntax = { decimal: ".", separator: ",", names: null };
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+/**
+ * Rewrite formula text from one syntax to another: numbers, argument separators and the
+ * names of called functions; strings, quoted sheet names and error literals pass through
+ */
+function translate(text: string, from: Syntax, to: Syntax): string {
+  const d = escape(from.decimal);
+  const number = new RegExp(`^(\\d+(?:${d}\\d*)?|${d}\\d+)(?:[eE][+-]?\\d+)?`);
+  const word = /^[\p{L}_$][\p{L}\p{N}_.$]*/u;
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+    if (ch === '"' || ch === "'") {
+      // a string, or a quoted sheet name: doubled quotes stay inside
+      let j = i + 1;
+      while (j < text.length && !(text[j] === ch && text[j + 1] !== ch)) j += text[j] === ch ? 2 : 1;
+      out += text.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+    if (ch === "#") {
+      const m = rest.match(/^#[A-Za-z0-9/]*[!?]?/)!;
+      out += m[0];
+      i += m[0].length;
+      continue;
+    }
+    const w = rest.match(word);
+    if (w) {
+      const called = /^\s*\(/.test(text.slice(i + w[0].length));
+      let name = w[0];
+      if (called) {
+        const upper = name.toUpperCase();
+        const canonical = from.names ? Object.keys(from.names).find(k => from.names![k] === upper) ?? upper : upper;
+        const shown = to.names?.[canonical] ?? canonical;
+        if (shown !== upper) name = shown;
+      }
+      out += name;
+      i += w[0].length;
+      continue;
+    }
+    const n = rest.match(number);
+    if (n) {
+      out += n[0].replace(from.decimal, to.decimal);
+      i += n[0].length;
+      continue;
+    }
+    out += ch === from.separator ? to.separator : ch;
+    i++;
+  }
+  return out;
+}
+
+function syntaxOf(settings: LocaleSettings): Syntax {
+  const locale = getLocale(settings);
+  return { decimal: locale.decimal, separator: locale.separator, names: localFunctionNames(settings) };
+}
+
+/** A canonical formula as the locale writes it: =SUM(A1,2.5) is =SUMME(A1;2,5) in German */
+export function localizeFormula(formula: string, settings: LocaleSettings): string {
+  return translate(formula, CANONICAL, syntaxOf(settings));
+}
+
+/** A formula typed in the locale, in canonical form: =SUMME(A1;2,5) is =SUM(A1,2.5) */
+export function canonicalFormula(formula: string, settings: LocaleSettings): string {
+  return translate(formula, syntaxOf(settings), CANONICAL);
+}
+
+/** A number written the way cells store it: 1234.5, -0.5, 00123, 1e3 */
+const CANONICAL_NUMBER = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * The text an edit of a cell starts from: its formula in the locale's syntax, or its number
+ * with the locale's decimal separator; other text as stored
+ */
+export function toEditText(raw: string, settings: LocaleSettings): string {
+  if (raw.startsWith("=")) return localizeFormula(raw, settings);
+  if (CANONICAL_NUMBER.test(raw.trim())) return raw.replace(".", getLocale(settings).decimal);
+  return raw;
+}
+
+/**
+ * What typed text is stored as: formulas in canonical form, numbers typed the locale's way
+ * (1.234,56, 1,234.56 or 12,34,567.8) as plain numbers; numbers already in canonical form (00123, 1e3)
+ * and anything else, currency and percentages included, as typed
+ */
+export function fromEditText(text: string, settings: LocaleSettings): string {
+  if (text.startsWith("=")) return canonicalFormula(text, settings);
+  if (/[%$€£¥₹]/.test(text)) return text;
+  const locale = getLocale(settings);
+  const n = parseNumberText(text, locale.decimal, locale.group, locale.lakh);
+  // "1.234" is 1234 in German: canonical text is kept only when it means the same number
+  if (n === null || (CANONICAL_NUMBER.test(text) && Number(text) === n)) return text;
+  return numberToText(n);
+}
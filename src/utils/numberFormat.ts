@@ -0,0 +1,398 @@
+// src/utils/numberFormat.ts
+// Excel number format codes ("#,##0.00", "0%", "\"₹\"#,##0", "0.00E+00", "yyyy-mm-dd hh:mm",
+// "pos;neg;zero;text"), shared by the TEXT() function and the grid's cell number formats.
+
+import { DAY_NAMES, MONTH_NAMES, serialToParts } from "./dateSerial";
+import { numberToText } from "./formulaValues";
+
+type Token =
+  | { kind: "literal"; text: string }
+  | { kind: "digit"; ch: "0" | "#" | "?" }
+  | { kind: "point" }
+  | { kind: "percent" }
+  | { kind: "exp"; sign: "+" | "-" }
+  | { kind: "text" } // @ — the value as text
+  // date/time parts of a serial; "n" is minutes (an "m" next to hours or seconds)
+  | { kind: "date"; part: "y" | "m" | "d" | "h" | "n" | "s"; len: number }
+  | { kind: "elapsed"; part: "h" | "m" | "s"; len: number } // [h]:mm — total hours etc.
+  | { kind: "ampm"; text: string }; // AM/PM or A/P, as written
+
+type Section = {
+  tokens: Token[];
+  /** Fraction layout ("# ?/?", "?/8"), when the section is one */
+  fraction?: Fraction;
+  /** Thousands separators between integer placeholders */
+  grouping: boolean;
+  /** Number of trailing commas (each divides by 1000) */
+  scale: number;
+};
+
+/** Split a format code into its ;-separated sections, ignoring ; inside quotes or after \ */
+function splitSections(code: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  for (let i = 0; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === '"') {
+      const end = code.indexOf('"', i + 1);
+      const stop = end < 0 ? code.length : end + 1;
+      cur += code.slice(i, stop);
+      i = stop - 1;
+    } else if (ch === "\\" && i + 1 < code.length) {
+      cur += ch + code[++i];
+    } else if (ch === ";") {
+      out.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur);
+  return out;
+}
+
+type Fraction = {
+  prefix: string;
+  /** Whole-number placeholders, or "" when the whole value goes in the numerator */
+  whole: string;
+  numerator: string;
+  /** Placeholder string ("??") or a fixed denominator ("8") */
+  denominator: string;
+  suffix: string;
+};
+
+const FRACTION_RE = /^([^#0?]*?)(?:([#0?]+)\s+)?([#0?]+)\/([#0?]+|[1-9][0-9]*)([^#0?]*)$/;
+
+/** Closest fraction to x (0 <= x < 1) whose denominator fits the layout */
+function nearestFraction(x: number, denominator: string): [number, number] {
+  if (/^[1-9]/.test(denominator)) {
+    const d = Number(denominator);
+    return [Math.round(x * d), d];
+  }
+  const maxDen = Math.pow(10, denominator.length) - 1;
+  let best: [number, number] = [0, 1];
+  let bestErr = Infinity;
+  for (let d = 1; d <= maxDen; d++) {
+    const num = Math.round(x * d);
+    const err = Math.abs(x - num / d);
+    if (err < bestErr - 1e-12) { best = [num, d]; bestErr = err; }
+  }
+  return best;
+}
+
+function applyFraction(f: Fraction, value: number): string {
+  const pad = (text: string, ph: string, left: boolean) => {
+    const width = ph.replace(/#/g, "").length;
+    if (text.length >= width) return text;
+    const fill = (ph.includes("0") ? "0" : " ").repeat(width - text.length);
+    return left ? fill + text : text + fill;
+  };
+  let whole = f.whole ? Math.floor(value) : 0;
+  const [fracNum, den] = nearestFraction(value - whole, f.denominator);
+  let num = fracNum;
+  if (!f.whole) num += Math.floor(value) * den;
+  if (f.whole && num === den) { whole++; num = 0; }
+  const wholeText = f.whole ? (whole === 0 && num !== 0 ? "" : String(whole)) : "";
+  let out = f.prefix;
+  if (f.whole) out += pad(wholeText, f.whole, true) + " ";
+  if (f.whole && num === 0) {
+    out += " ".repeat(f.numerator.length + 1 + Math.max(f.denominator.length, String(den).length));
+  } else {
+    out += pad(String(num), f.numerator, true) + "/" + pad(String(den), f.denominator, false);
+  }
+  return out + f.suffix;
+}
+
+function parseSection(src: string): Section {
+  const fm = src.match(FRACTION_RE);
+  if (fm) {
+    const unquote = (t: string) => t.replace(/"([^"]*)"/g, "$1").replace(/\\(.)/g, "$1");
+    return {
+      tokens: [],
+      grouping: false,
+      scale: 0,
+      fraction: { prefix: unquote(fm[1]), whole: fm[2] ?? "", numerator: fm[3], denominator: fm[4], suffix: unquote(fm[5]) },
+    };
+  }
+  const tokens: Token[] = [];
+  const literal = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === "literal") last.text += text;
+    else tokens.push({ kind: "literal", text });
+  };
+  let grouping = false;
+  let scale = 0;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"') {
+      const end = src.indexOf('"', i + 1);
+      literal(src.slice(i + 1, end < 0 ? src.length : end));
+      i = end < 0 ? src.length : end;
+    } else if (ch === "\\") {
+      if (i + 1 < src.length) literal(src[++i]);
+    } else if (ch === "_") {
+      i++; // "_)" pads with the width of a character
+      literal(" ");
+    } else if (ch === "*") {
+      i++; // repeat-to-fill has no meaning in a fixed-width cell
+    } else if (ch === "[") {
+      const end = src.indexOf("]", i);
+      const inner = src.slice(i + 1, end < 0 ? src.length : end);
+      // [$₹-4009] carries a currency symbol; [h] [mm] [ss] are elapsed time; colours and conditions are ignored
+      const m = inner.match(/^\$([^-]*)/);
+      if (m) literal(m[1]);
+      else if (/^(h+|m+|s+)$/i.test(inner)) {
+        tokens.push({ kind: "elapsed", part: inner[0].toLowerCase() as "h" | "m" | "s", len: inner.length });
+      }
+      i = end < 0 ? src.length : end;
+    } else if (/^(AM\/PM|A\/P)/i.test(src.slice(i))) {
+      const text = src.slice(i).match(/^(AM\/PM|A\/P)/i)![0];
+      tokens.push({ kind: "ampm", text });
+      i += text.length - 1;
+    } else if (/[ymdhs]/i.test(ch)) {
+      let len = 1;
+      while (src[i + len]?.toLowerCase() === ch.toLowerCase()) len++;
+      tokens.push({ kind: "date", part: ch.toLowerCase() as "y" | "m" | "d" | "h" | "s", len });
+      i += len - 1;
+    } else if (ch === "0" || ch === "#" || ch === "?") {
+      tokens.push({ kind: "digit", ch });
+    } else if (ch === ".") {
+      tokens.push({ kind: "point" });
+    } else if (ch === ",") {
+      // a comma between placeholders groups thousands; trailing commas scale by 1000
+      const rest = src.slice(i + 1);
+      const digitFollows = /^[0#?]/.test(rest);
+      const lastIsDigit = tokens[tokens.length - 1]?.kind === "digit";
+      if (digitFollows && lastIsDigit) grouping = true;
+      else if (lastIsDigit || tokens[tokens.length - 1]?.kind === "point") scale++;
+      else literal(",");
+    } else if (ch === "%") {
+      tokens.push({ kind: "percent" });
+    } else if ((ch === "E" || ch === "e") && (src[i + 1] === "+" || src[i + 1] === "-")) {
+      tokens.push({ kind: "exp", sign: src[i + 1] as "+" | "-" });
+      i++;
+    } else if (ch === "@") {
+      tokens.push({ kind: "text" });
+    } else {
+      literal(ch);
+    }
+  }
+  markMinutes(tokens);
+  return { tokens, grouping, scale };
+}
+
+/** "m" means minutes when it follows an hour or precedes a second, as in Excel */
+function markMinutes(tokens: Token[]) {
+  const parts = tokens.filter(t => t.kind === "date" || t.kind === "elapsed");
+  parts.forEach((t, i) => {
+    if (t.kind !== "date" || t.part !== "m" || t.len > 2) return;
+    const prev = parts[i - 1], next = parts[i + 1];
+    if ((prev && prev.part === "h") || (next && next.part === "s")) t.part = "n";
+  });
+}
+
+const pad2 = (n: number, len: number) => String(n).padStart(Math.min(len, 2), "0");
+
+/** Format a date serial with a section made of date/time tokens */
+function applyDate(section: Section, serial: number, decimal = "."): string {
+  if (serial < 0) throw new RangeError("Dates before 1900 cannot be formatted");
+  // round to the shown precision, so 12:29:59.997 displays as 12:30:00
+  const fracDigits = section.tokens.filter(t => t.kind === "digit").length;
+  const steps = 86400 * Math.pow(10, Math.min(fracDigits, 3));
+  const p = serialToParts(Math.round(serial * steps) / steps);
+  const twelveHour = section.tokens.some(t => t.kind === "ampm");
+  const hasFraction = (i: number) => section.tokens[i]?.kind === "point" && section.tokens[i + 1]?.kind === "digit";
+  let out = "";
+  const tokens = section.tokens;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    switch (t.kind) {
+      case "literal": out += t.text; break;
+      case "date":
+        switch (t.part) {
+          case "y": out += t.len <= 2 ? String(p.year % 100).padStart(2, "0") : String(p.year); break;
+          case "m":
+            if (t.len <= 2) out += pad2(p.month, t.len);
+            else if (t.len === 3) out += MONTH_NAMES[p.month - 1].slice(0, 3);
+            else if (t.len === 4) out += MONTH_NAMES[p.month - 1];
+            else out += MONTH_NAMES[p.month - 1][0];
+            break;
+          case "d":
+            if (t.len <= 2) out += pad2(p.day, t.len);
+            else out += t.len === 3 ? DAY_NAMES[p.weekday].slice(0, 3) : DAY_NAMES[p.weekday];
+            break;
+          case "h": out += pad2(twelveHour ? (p.hours % 12 || 12) : p.hours, t.len); break;
+          case "n": out += pad2(p.minutes, t.len); break;
+          case "s":
+            out += pad2(p.seconds, t.len);
+            // "ss.00": fractional seconds
+            if (hasFraction(i + 1)) {
+              let digits = 0;
+              for (let j = i + 2; tokens[j]?.kind === "digit"; j++) digits++;
+              out += decimal + String(p.ms).padStart(3, "0").slice(0, digits).padEnd(digits, "0");
+              i += 1 + digits;
+            }
+            break;
+        }
+        break;
+      case "elapsed": {
+        const total = t.part === "h" ? serial * 24 : t.part === "m" ? serial * 1440 : serial * 86400;
+        out += String(Math.floor(total + 1e-9)).padStart(t.len, "0");
+        break;
+      }
+      case "ampm": {
+        const pm = p.hours >= 12;
+        const word = t.text.length === 3 ? (pm ? "P" : "A") : pm ? "PM" : "AM";
+        out += t.text[0] === t.text[0].toLowerCase() ? word.toLowerCase() : word;
+        break;
+      }
+      case "point": out += decimal; break;
+      case "percent": out += "%"; break;
+      default: break;
+    }
+  }
+  return out;
+}
+
+/** Emit `digits` into integer placeholders, right-aligned, with optional grouping */
+function fillInteger(placeholders: Array<"0" | "#" | "?">, digits: string, grouping: boolean, group = ","): string[] {
+  // digits == "0" means no significant integer digits: only "0" placeholders show a zero
+  const sig = digits === "0" ? "" : digits;
+  const k = placeholders.length;
+  const out: string[] = new Array(k).fill("");
+  const withGroup = (d: string, pos: number) => (grouping && pos > 0 && pos % 3 === 0 && d.trim() !== "" ? d + group : d);
+  for (let i = 0; i < k; i++) {
+    const pos = k - 1 - i; // digit position counted from the right
+    let text: string;
+    if (pos < sig.length) text = sig[sig.length - 1 - pos];
+    else text = placeholders[i] === "0" ? "0" : placeholders[i] === "?" ? " " : "";
+    out[i] = withGroup(text, pos);
+  }
+  // digits that don't fit go in front of the first placeholder
+  if (sig.length > k) {
+    let extra = "";
+    for (let pos = sig.length - 1; pos >= k; pos--) extra += withGroup(sig[sig.length - 1 - pos], pos);
+    out[0] = extra + out[0];
+  }
+  return out;
+}
+
+function applySection(section: Section, n: number, symbols: NumberSymbols): string {
+  if (section.fraction) return applyFraction(section.fraction, Math.abs(n));
+  if (section.tokens.some(t => t.kind === "date" || t.kind === "elapsed" || t.kind === "ampm")) return applyDate(section, n, symbols.decimal);
+  const { tokens, grouping, scale } = section;
+  const digitTokens = tokens.filter(t => t.kind === "digit");
+  if (digitTokens.length === 0 && !tokens.some(t => t.kind === "point")) {
+    // no placeholders: the section is pure text (e.g. "-" for zero)
+    return tokens.map(t => (t.kind === "literal" ? t.text : t.kind === "percent" ? "%" : "")).join("");
+  }
+
+  const pointAt = tokens.findIndex(t => t.kind === "point");
+  const expAt = tokens.findIndex(t => t.kind === "exp");
+  const intEnd = pointAt >= 0 ? pointAt : expAt >= 0 ? expAt : tokens.length;
+  const fracEnd = expAt >= 0 ? expAt : tokens.length;
+  const intPh: Array<"0" | "#" | "?"> = [];
+  const fracPh: Array<"0" | "#" | "?"> = [];
+  const expPh: Array<"0" | "#" | "?"> = [];
+  tokens.forEach((t, i) => {
+    if (t.kind !== "digit") return;
+    if (i < intEnd) intPh.push(t.ch);
+    else if (i < fracEnd) fracPh.push(t.ch);
+    else expPh.push(t.ch);
+  });
+
+  let value = Math.abs(n) / Math.pow(1000, scale);
+  if (tokens.some(t => t.kind === "percent")) value *= 100;
+
+  let exponent = 0;
+  if (expAt >= 0 && value !== 0) {
+    const intDigits = Math.max(1, intPh.length);
+    exponent = Math.floor(Math.log10(value)) - (intDigits - 1);
+    value /= Math.pow(10, exponent);
+    // rounding can push the mantissa up a digit (9.99 -> 10.0)
+    if (Number(value.toFixed(fracPh.length)) >= Math.pow(10, intDigits)) {
+      value /= 10;
+      exponent++;
+    }
+  }
+
+  const fixed = value.toFixed(fracPh.length);
+  const [intDigits, fracDigits = ""] = fixed.split(".");
+  const intOut = fillInteger(intPh, intDigits.replace(/^0+(?=\d)/, ""), grouping, symbols.group);
+
+  // optional fraction digits: # drops trailing zeros, ? turns them into spaces
+  const frac = fracDigits.split("");
+  for (let i = frac.length - 1; i >= 0 && frac[i] === "0" && fracPh[i] !== "0"; i--) {
+    frac[i] = fracPh[i] === "?" ? " " : "";
+  }
+
+  const expDigits = String(Math.abs(exponent)).padStart(expPh.filter(p => p === "0").length, "0");
+
+  let out = "";
+  let ii = 0, fi = 0;
+  tokens.forEach((t, i) => {
+    switch (t.kind) {
+      case "literal": out += t.text; break;
+      case "percent": out += "%"; break;
+      case "text": break;
+      case "point": out += symbols.decimal; break;
+      case "exp":
+        out += (t.sign === "+" || exponent < 0 ? "E" + (exponent < 0 ? "-" : "+") : "E") + expDigits;
+        break;
+      case "digit":
+        if (i < intEnd) out += intOut[ii++];
+        else if (i < fracEnd) out += frac[fi++];
+        // exponent placeholders were emitted with the E
+        break;
+    }
+  });
+  return out;
+}
+
+/** Characters written for a format's decimal point and thousands separator */
+export type NumberSymbols = { decimal: string; group: string };
+
+const DEFAULT_SYMBOLS: NumberSymbols = { decimal: ".", group: "," };
+
+const sectionCache = new Map<string, Section[]>();
+
+function sectionsOf(code: string): Section[] {
+  let hit = sectionCache.get(code);
+  if (!hit) {
+    hit = splitSections(code).map(parseSection);
+    if (sectionCache.size > 500) sectionCache.clear();
+    sectionCache.set(code, hit);
+  }
+  return hit;
+}
+
+/**
+ * formatNumber(n, code, symbols?)
+ * - formats a number with an Excel format code; "General" (or "") gives the plain 15-digit form
+ * - the code is always written with "." and "," (as stored); `symbols` are what the result
+ *   shows for them, for the workbook locale (default "." and ",")
+ * - sections: positive;negative;zero;text — a negative number in the first section gets a "-"
+ * - date/time codes treat the number as a date serial (see dateSerial.ts); throws RangeError
+ *   for negative serials, which have no date
+ */
+export function formatNumber(n: number, code: string, symbols: NumberSymbols = DEFAULT_SYMBOLS): string {
+  if (code.trim() === "" || /^general$/i.test(code.trim())) return numberToText(n).replace(".", symbols.decimal);
+  const sections = sectionsOf(code);
+  if (n < 0 && sections.length >= 2 && (sections[1].tokens.length || sections[1].fraction)) {
+    return applySection(sections[1], n, symbols);
+  }
+  if (n === 0 && sections.length >= 3) return applySection(sections[2], n, symbols);
+  const text = applySection(sections[0], n, symbols);
+  if (sections[0].tokens.some(t => t.kind === "date" || t.kind === "elapsed")) return text;
+  return n < 0 && /[1-9]/.test(text) ? "-" + text : text;
+}
+
+/**
+ * formatText(s, code)
+ * - text through a format code: the 4th section (or a section using @) wraps it, otherwise unchanged
+ */
+export function formatText(s: string, code: string): string {
+  const sections = sectionsOf(code);
+  const section = sections.length >= 4 ? sections[3] : sections.find(sec => sec.tokens.some(t => t.kind === "text"));
+  if (!section) return s;
+  return section.tokens.map(t => (t.kind === "text" ? s : t.kind === "literal" ? t.text : "")).join("");
+}
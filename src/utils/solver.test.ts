@@ -0,0 +1,104 @@
+// src/utils/solver.test.ts
+// Solver: linear models by simplex, others by Nelder-Mead, models without a solution, and
+// the run as the Sheet starts it (solverClient.ts).
+
+import { describe, expect, it } from "vitest";
+import { evaluateAndUpdate } from "./formulaEngine";
+import type { CellValue } from "./formulaEngine";
+import { changingCells, solve } from "./solver";
+import type { SolverModel } from "./solver";
+import { runSolve, startSolve } from "./solverClient";
+import type { SolveResponse } from "./solverClient";
+
+/** A calculated sheet from raw texts by cell id */
+function sheetOf(raws: Record<string, string>) {
+  const cells: Record<string, CellValue> = {};
+  for (const [id, raw] of Object.entries(raws)) cells[id] = { raw };
+  evaluateAndUpdate(cells);
+  return cells;
+}
+
+/** Products A and B (quantities B1, B2) earning 3 and 5, sharing 4 and 12 hours of two machines */
+const plan = sheetOf({ B1: "0", B2: "0", B4: "=3*B1+5*B2", B5: "=B1", B6: "=2*B2", B7: "=3*B1+2*B2" });
+const planModel: SolverModel = {
+  objective: "B4",
+  goal: "max",
+  changing: "B1:B2",
+  constraints: [
+    { left: "B5", op: "<=", right: "4" },
+    { left: "B6", op: "<=", right: "12" },
+    { left: "B7", op: "<=", right: "18" },
+  ],
+};
+
+describe("changingCells", () => {
+  it("lists the cells of ranges and single cells once each", () => {
+    expect(changingCells("B2:C3, $D$1, b2")).toEqual(["B2", "C2", "B3", "C3", "D1"]);
+    expect(() => changingCells("B2:")).toThrow('"B2:" is not a cell or range');
+  });
+});
+
+describe("solve", () => {
+  it("solves a linear model exactly by simplex", () => {
+    const result = solve(plan, planModel);
+    expect(result).toMatchObject({ status: "optimal", method: "simplex", objective: 36 });
+    expect(result.values.B1).toBeCloseTo(2);
+    expect(result.values.B2).toBeCloseTo(6);
+  });
+
+  it("finds a nonlinear minimum by Nelder-Mead", () => {
+    const cells = sheetOf({ A1: "0", A2: "0", B1: "=(A1-3)^2+(A2-1)^2+2" });
+    const result = solve(cells, { objective: "B1", goal: "min", changing: "A1:A2", constraints: [] });
+    expect(result).toMatchObject({ status: "converged", method: "nelder-mead" });
+    expect(result.objective as number).toBeCloseTo(2, 4);
+    expect(result.values.A1).toBeCloseTo(3, 2);
+    expect(result.values.A2).toBeCloseTo(1, 2);
+  });
+
+  it("hits a target value", () => {
+    const cells = sheetOf({ A1: "1", B1: "=A1*A1" });
+    const result = solve(cells, { objective: "B1", goal: "value", target: 49, changing: "A1", constraints: [] });
+    expect(result.values.A1).toBeCloseTo(7, 3);
+  });
+
+  it("reports models without a solution", () => {
+    const infeasible = { ...planModel, constraints: [...planModel.constraints, { left: "B1", op: ">=" as const, right: "5" }] };
+    expect(solve(plan, infeasible).status).toBe("infeasible");
+    expect(solve(plan, { ...planModel, constraints: [] }).status).toBe("unbounded");
+  });
+
+  it("throws for a model that is wrong", () => {
+    expect(() => solve(plan, { ...planModel, objective: "B1" })).toThrow("The objective must be a cell with a formula");
+    expect(() => solve(plan, { ...planModel, changing: "" })).toThrow("Enter the changing cells");
+    expect(() => solve(plan, { ...planModel, changing: "B1, B4" })).toThrow("Changing cell B4 holds a formula");
+  });
+});
+
+describe("solverClient", () => {
+  const book = [{ name: "Sheet1", cells: plan, names: [] }];
+
+  it("answers with the result, or the error of a wrong model", () => {
+    expect(runSolve({ book, model: planModel, options: {} })).toMatchObject({ result: { status: "optimal" } });
+    expect(runSolve({ book, model: { ...planModel, changing: "" }, options: {} })).toEqual({ error: "Enter the changing cells" });
+  });
+
+  it("reads other sheets of the workbook", () => {
+    const here = sheetOf({ A1: "0", B1: "=A1*Rates!A1" });
+    const rates = sheetOf({ A1: "2" });
+    const res = runSolve({
+      book: [{ name: "Sheet1", cells: here, names: [] }, { name: "Rates", cells: rates, names: [] }],
+      model: { objective: "B1", goal: "max", changing: "A1", constraints: [{ left: "A1", op: "<=", right: "10" }] },
+      options: {},
+    });
+    expect(res).toMatchObject({ result: { status: "optimal", objective: 20 } });
+  });
+
+  it("delivers a run once, and nothing after it was stopped", async () => {
+    const delivered: SolveResponse[] = [];
+    startSolve(book, planModel, {}, res => delivered.push(res));
+    startSolve(book, planModel, {}, res => delivered.push(res)).stop();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(delivered).toHaveLength(1);
+    expect(delivered[0]).toMatchObject({ result: { status: "optimal" } });
+  });
+});
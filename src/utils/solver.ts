@@ -0,0 +1,346 @@
+// src/utils/solver.ts
+// Solver: values for several input cells that minimise, maximise or hit a target with an
+// objective cell, subject to constraints. Every trial is worked out by the formula engine
+// (evaluateWhatIf); models that turn out linear are solved by the simplex method, anything
+// else by Nelder-Mead on a penalised objective.
+
+import { evaluateWhatIf } from "./formulaEngine";
+import type { CalcOptions, CellValue, WorkbookContext } from "./formulaEngine";
+import { cellId, parseId } from "./formulaParser";
+import { flatten } from "./formulaValues";
+import type { Scalar, Value } from "./formulaValues";
+
+export type SolverOp = "<=" | ">=" | "=";
+
+/**
+ * A constraint as typed into the Solver: each side is a reference, a number or any formula
+ * (without "="), e.g. `B2:B10 >= 0` or `SUM(B2:B10) = 100`. A block on one side holds
+ * cell by cell against a block of the same size, or a single value, on the other.
+ */
+export type SolverConstraint = { left: string; op: SolverOp; right: string };
+
+export type SolverModel = {
+  /** The objective cell; it must hold a formula */
+  objective: string;
+  /** Make the objective as large or as small as possible, or equal to `target` */
+  goal: "max" | "min" | "value";
+  target?: number;
+  /** The changing cells: cells and ranges separated by commas ("B2:B10, D1") */
+  changing: string;
+  constraints: SolverConstraint[];
+  /** Keep every changing cell >= 0 (Excel's "Make Unconstrained Variables Non-Negative"); default true */
+  nonNegative?: boolean;
+};
+
+export type SolverResult = {
+  /**
+   * optimal: the simplex method solved the (linear) model; converged: Nelder-Mead settled on
+   * a point meeting every constraint, which may be a local optimum only; infeasible: no values
+   * meeting every constraint were found; unbounded: the objective improves without limit
+   */
+  status: "optimal" | "converged" | "infeasible" | "unbounded";
+  method: "simplex" | "nelder-mead";
+  /** Values for the changing cells, by id (their current values when there is no solution) */
+  values: Record<string, number>;
+  /** What the objective cell shows with those values */
+  objective: Scalar;
+  message: string;
+};
+
+/** Excel's Solver takes at most this many changing cells */
+const MAX_VARIABLES = 200;
+const EPS = 1e-9;
+/** Relative tolerance for constraints and for telling a model is linear */
+const TOLERANCE = 1e-6;
+const MAX_PIVOTS = 5000;
+/** Cap on formula evaluations spent by Nelder-Mead */
+const MAX_EVALUATIONS = 20_000;
+
+/** The cells of a Solver "changing cells" text, in order, without repeats */
+export function changingCells(text: string): string[] {
+  const out = new Set<string>();
+  for (const part of text.split(",").map(p => p.trim().toUpperCase().replace(/\$/g, "")).filter(Boolean)) {
+    const [a, b = a, extra] = part.split(":");
+    const p = parseId(a), q = parseId(b);
+    if (!p || !q || extra !== undefined) throw new Error(`"${part}" is not a cell or range`);
+    for (let r = Math.min(p.row, q.row); r <= Math.max(p.row, q.row); r++) {
+      for (let c = Math.min(p.col, q.col); c <= Math.max(p.col, q.col); c++) out.add(cellId(r, c));
+    }
+  }
+  return [...out];
+}
+
+/** A formula result as numbers (blank is 0, anything else not a number is NaN) */
+function numbers(v: Value): number[] {
+  return flatten(v).map(s => (typeof s === "number" ? s : s == null ? 0 : NaN));
+}
+
+/** A linear constraint a·x (op) b over the LP's variables */
+type LinearRow = { a: number[]; op: SolverOp; b: number };
+
+const flip = (op: SolverOp): SolverOp => (op === "<=" ? ">=" : op === ">=" ? "<=" : "=");
+
+/**
+ * simplex(c, rows)
+ * - minimises c·x over x >= 0 subject to `rows`: two-phase tableau simplex, Bland's rule
+ *   against cycling
+ */
+function simplex(c: number[], rows: LinearRow[]): { status: "optimal" | "infeasible" | "unbounded"; x: number[] } {
+  const n = c.length;
+  const norm = rows.map(r => (r.b < 0 ? { a: r.a.map(v => -v), op: flip(r.op), b: -r.b } : r));
+  // columns: the variables, a slack or surplus per inequality, an artificial per >= and = row
+  const slacks = norm.filter(r => r.op !== "=").length;
+  const width = n + slacks + norm.filter(r => r.op !== "<=").length;
+  const T: number[][] = [];
+  const basis: number[] = [];
+  let s = n, art = n + slacks;
+  for (const r of norm) {
+    const row = new Array<number>(width + 1).fill(0);
+    r.a.forEach((v, j) => { row[j] = v; });
+    row[width] = r.b;
+    if (r.op === "<=") { row[s] = 1; basis.push(s++); }
+    else {
+      if (r.op === ">=") row[s++] = -1;
+      row[art] = 1;
+      basis.push(art++);
+    }
+    T.push(row);
+  }
+
+  const pivot = (i: number, j: number) => {
+    const p = T[i][j];
+    for (let k = 0; k <= width; k++) T[i][k] /= p;
+    for (let r = 0; r < T.length; r++) {
+      const f = T[r][j];
+      if (r === i || f === 0) continue;
+      for (let k = 0; k <= width; k++) T[r][k] -= f * T[i][k];
+    }
+    basis[i] = j;
+  };
+  const run = (cost: number[], columns: number): "optimal" | "unbounded" => {
+    for (let iter = 0; iter < MAX_PIVOTS; iter++) {
+      let enter = -1;
+      for (let j = 0; j < columns && enter < 0; j++) {
+        let reduced = cost[j];
+        for (let i = 0; i < T.length; i++) reduced -= cost[basis[i]] * T[i][j];
+        if (reduced < -EPS) enter = j;
+      }
+      if (enter < 0) return "optimal";
+      let leave = -1;
+      let best = Infinity;
+      for (let i = 0; i < T.length; i++) {
+        if (T[i][enter] <= EPS) continue;
+        const ratio = T[i][width] / T[i][enter];
+        if (ratio < best - EPS || (ratio <= best + EPS && basis[i] < basis[leave])) { best = ratio; leave = i; }
+      }
+      if (leave < 0) return "unbounded";
+      pivot(leave, enter);
+    }
+    return "optimal";
+  };
+
+  // phase 1: drive the artificials to zero
+  const phase1 = Array.from({ length: width }, (_, j) => (j >= n + slacks ? 1 : 0));
+  run(phase1, width);
+  const infeasibility = T.reduce((sum, row, i) => sum + (basis[i] >= n + slacks ? row[width] : 0), 0);
+  if (infeasibility > TOLERANCE * (1 + Math.max(0, ...norm.map(r => r.b)))) return { status: "infeasible", x: [] };
+  // artificials still basic (at zero) leave the basis where they can; otherwise their row is redundant
+  T.forEach((row, i) => {
+    if (basis[i] < n + slacks) return;
+    const j = row.findIndex((v, k) => k < n + slacks && Math.abs(v) > EPS);
+    if (j >= 0) pivot(i, j);
+  });
+
+  // phase 2: the real objective, artificials kept out
+  const status = run([...c, ...new Array<number>(width - n).fill(0)], n + slacks);
+  if (status === "unbounded") return { status, x: [] };
+  const x = new Array<number>(n).fill(0);
+  basis.forEach((j, i) => { if (j < n) x[j] = T[i][width]; });
+  return { status: "optimal", x };
+}
+
+/**
+ * nelderMead(f, start)
+ * - a minimum of f near `start` by the Nelder-Mead simplex search; stops when the points
+ *   and their values agree to 1e-10, or after `budget` evaluations
+ */
+function nelderMead(f: (x: number[]) => number, start: number[], budget: number): number[] {
+  const n = start.length;
+  const points = [start, ...start.map((v, i) => start.map((w, k) => (k === i ? w + (v !== 0 ? 0.1 * Math.abs(v) : 1) : w)))];
+  let values = points.map(f);
+  let evaluations = points.length;
+  const add = (a: number[], b: number[], t: number) => a.map((v, i) => v + t * (b[i] - v));
+
+  while (evaluations < budget) {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    const sorted = order.map(i => points[i]);
+    values = order.map(i => values[i]);
+    points.splice(0, points.length, ...sorted);
+    const spread = Math.max(...points.slice(1).flatMap(p => p.map((v, i) => Math.abs(v - points[0][i]))));
+    if (Math.abs(values[n] - values[0]) <= 1e-10 * (1 + Math.abs(values[0])) && spread <= 1e-10 * (1 + Math.max(...points[0].map(Math.abs)))) break;
+
+    const centroid = points[0].map((_, i) => points.slice(0, n).reduce((sum, p) => sum + p[i], 0) / n);
+    const worst = points[n];
+    const reflected = add(centroid, worst, -1);
+    const fr = f(reflected);
+    evaluations++;
+    if (fr < values[0]) {
+      const expanded = add(centroid, worst, -2);
+      const fe = f(expanded);
+      evaluations++;
+      [points[n], values[n]] = fe < fr ? [expanded, fe] : [reflected, fr];
+    } else if (fr < values[n - 1]) {
+      [points[n], values[n]] = [reflected, fr];
+    } else {
+      const contracted = fr < values[n] ? add(centroid, reflected, 0.5) : add(centroid, worst, 0.5);
+      const fc = f(contracted);
+      evaluations++;
+      if (fc < Math.min(fr, values[n])) [points[n], values[n]] = [contracted, fc];
+      else {
+        // shrink towards the best point
+        for (let i = 1; i <= n; i++) {
+          points[i] = add(points[0], points[i], 0.5);
+          values[i] = f(points[i]);
+        }
+        evaluations += n;
+      }
+    }
+  }
+  return points[values.indexOf(Math.min(...values))];
+}
+
+/** Numbers a hair away from an integer (simplex round-off) become that integer */
+const tidy = (v: number) => (Math.abs(v - Math.round(v)) < EPS * Math.max(1, Math.abs(v)) ? Math.round(v) : v);
+
+/**
+ * solve(cells, model, options?, workbook?)
+ * - the Solver: values for the changing cells of `model` that best meet its goal while
+ *   keeping its constraints; nothing is written to the sheet
+ * - the model is taken as linear when the objective and every constraint move exactly in
+ *   proportion to each changing cell (checked at probe points), and then solved by simplex;
+ *   otherwise by Nelder-Mead with the constraints as growing penalties
+ * - throws when the model itself is wrong (objective without a formula, a changing cell
+ *   holding one, constraint sides of different sizes...)
+ */
+export function solve(
+  cells: Record<string, CellValue>,
+  model: SolverModel,
+  options?: CalcOptions,
+  workbook?: WorkbookContext
+): SolverResult {
+  const objective = model.objective.trim().toUpperCase().replace(/\$/g, "");
+  if (!parseId(objective) || cells[objective]?.raw?.[0] !== "=") throw new Error("The objective must be a cell with a formula");
+  if (model.goal === "value" && !Number.isFinite(model.target)) throw new Error("Enter the value the objective should reach");
+  const vars = changingCells(model.changing);
+  if (!vars.length) throw new Error("Enter the changing cells");
+  if (vars.length > MAX_VARIABLES) throw new Error(`The Solver takes at most ${MAX_VARIABLES} changing cells`);
+  const formulaCell = vars.find(id => cells[id]?.raw?.[0] === "=");
+  if (formulaCell) throw new Error(`Changing cell ${formulaCell} holds a formula; it must hold a value`);
+
+  const at = (x: number[]) => Object.fromEntries(vars.map((id, i) => [id, x[i]]));
+  const valueOf = (target: string, x: number[]) => evaluateWhatIf(cells, target, at(x), options, workbook);
+  const sides = (text: string) => {
+    const t = text.trim();
+    if (!t) throw new Error("A constraint side is empty");
+    return `=${t.replace(/^=/, "")}`;
+  };
+  const constraints = model.constraints.map(c => ({ ...c, left: sides(c.left), right: sides(c.right) }));
+
+  const x0 = vars.map(id => {
+    const v = cells[id]?.value;
+    return typeof v === "number" ? v : 0;
+  });
+  // sizes of each constraint's sides, fixed by the model
+  const sizes = constraints.map(c => {
+    const l = numbers(valueOf(c.left, x0)).length, r = numbers(valueOf(c.right, x0)).length;
+    if (l !== r && l !== 1 && r !== 1) throw new Error(`The two sides of ${c.left.slice(1)} ${c.op} ${c.right.slice(1)} differ in size`);
+    return Math.max(l, r);
+  });
+  const ops: SolverOp[] = constraints.flatMap((c, k) => new Array<SolverOp>(sizes[k]).fill(c.op));
+  if (model.goal === "value") ops.push("=");
+
+  /** The objective to minimise, and left - right of every single constraint, at x */
+  const measure = (x: number[]) => {
+    const g: number[] = [];
+    constraints.forEach((c, k) => {
+      const l = numbers(valueOf(c.left, x)), r = numbers(valueOf(c.right, x));
+      for (let i = 0; i < sizes[k]; i++) g.push((l.length === 1 ? l[0] : l[i] ?? NaN) - (r.length === 1 ? r[0] : r[i] ?? NaN));
+    });
+    const o = numbers(valueOf(objective, x))[0] ?? NaN;
+    if (model.goal === "value") {
+      g.push(o - model.target!);
+      return { f: 0, g };
+    }
+    return { f: model.goal === "max" ? -o : o, g };
+  };
+
+  const nonNegative = model.nonNegative ?? true;
+  const finish = (status: SolverResult["status"], method: SolverResult["method"], x: number[], message: string): SolverResult => {
+    const solved = status === "optimal" || status === "converged";
+    const values = at(solved ? x.map(tidy) : x0);
+    return { status, method, values, objective: solved ? toCell(valueOf(objective, x.map(tidy))) : toCell(valueOf(objective, x0)), message };
+  };
+
+  // linear? the change per unit of each variable, checked at two probe points
+  const base = measure(x0);
+  const unit = vars.map((_, i) => measure(x0.map((v, k) => (k === i ? v + 1 : v))));
+  const slope = (pick: (m: { f: number; g: number[] }) => number) => unit.map(m => pick(m) - pick(base));
+  const fSlope = slope(m => m.f);
+  const gSlopes = base.g.map((_, k) => slope(m => m.g[k]));
+  const close = (a: number, b: number) => Math.abs(a - b) <= TOLERANCE * (1 + Math.abs(a) + Math.abs(b));
+  const linear = [x0.map((v, i) => v + 0.5 + (i % 3)), x0.map((v, i) => 2 * v - 3.25 + i)].every(p => {
+    const m = measure(p);
+    const predict = (b: number, s: number[]) => b + s.reduce((sum, si, i) => sum + si * (p[i] - x0[i]), 0);
+    return [base.f, ...base.g].every(Number.isFinite)
+      && close(m.f, predict(base.f, fSlope))
+      && m.g.every((v, k) => close(v, predict(base.g[k], gSlopes[k])));
+  });
+
+  if (linear) {
+    // g_k(x) = g_k(x0) + a_k·(x - x0), so g_k(x) op 0 is a_k·x op a_k·x0 - g_k(x0)
+    const rows: LinearRow[] = gSlopes.map((a, k) => ({
+      a,
+      op: ops[k],
+      b: a.reduce((sum, ai, i) => sum + ai * x0[i], 0) - base.g[k],
+    }));
+    // free variables are split into x = p - q, both >= 0
+    const lp = nonNegative
+      ? simplex(fSlope, rows)
+      : simplex([...fSlope, ...fSlope.map(v => -v)], rows.map(r => ({ ...r, a: [...r.a, ...r.a.map(v => -v)] })));
+    const x = nonNegative ? lp.x : vars.map((_, i) => lp.x[i] - lp.x[i + vars.length]);
+    if (lp.status === "infeasible") return finish("infeasible", "simplex", x0, "Solver could not find values meeting every constraint.");
+    if (lp.status === "unbounded") return finish("unbounded", "simplex", x0, "The objective can improve without limit; add constraints to bound it.");
+    return finish("optimal", "simplex", x, "Solver found a solution. All constraints and optimality conditions are met.");
+  }
+
+  // nonlinear: penalties for broken constraints, stiffened round by round
+  const violation = (x: number[], g: number[]) => {
+    let v = 0;
+    g.forEach((gk, k) => {
+      const miss = ops[k] === "<=" ? Math.max(0, gk) : ops[k] === ">=" ? Math.max(0, -gk) : gk;
+      v += Number.isFinite(miss) ? miss * miss : Infinity;
+    });
+    if (nonNegative) for (const xi of x) v += xi < 0 ? xi * xi : 0;
+    return v;
+  };
+  let x = x0;
+  const rounds = 8;
+  for (let round = 0, weight = 10; round < rounds; round++, weight *= 10) {
+    x = nelderMead(p => {
+      const m = measure(p);
+      const value = m.f + weight * violation(p, m.g);
+      return Number.isFinite(value) ? value : Infinity;
+    }, x, MAX_EVALUATIONS / rounds / (1 + constraints.length));
+  }
+  const end = measure(x);
+  const scale = 1 + Math.max(...end.g.map(Math.abs).filter(Number.isFinite), 0);
+  if (!Number.isFinite(end.f) || violation(x, end.g) > (TOLERANCE * scale) ** 2) {
+    return finish("infeasible", "nelder-mead", x0, "Solver could not find values meeting every constraint.");
+  }
+  return finish("converged", "nelder-mead", x, "Solver converged to a solution meeting every constraint (the model is not linear, so it may be a local optimum).");
+}
+
+/** What a cell shows for a formula result: its top-left value */
+function toCell(v: Value): Scalar {
+  return Array.isArray(v) ? v[0]?.[0] ?? null : v;
+}
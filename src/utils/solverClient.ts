@@ -0,0 +1,86 @@
+// src/utils/solverClient.ts
+// The Solver off the main thread: a model can take tens of thousands of trial
+// recalculations, so it runs in a Web Worker (solverWorker.ts) and can be stopped.
+
+import type { CalcOptions } from "./formulaEngine";
+import { solve } from "./solver";
+import type { SolverModel, SolverResult } from "./solver";
+import { workbookContext } from "./workbook";
+import type { WorkbookSheet } from "./workbook";
+
+/** Solve `model` on book[0], the other sheets being the rest of the workbook */
+export type SolveRequest = { book: WorkbookSheet[]; model: SolverModel; options: CalcOptions };
+
+/** What solve() found, or the message of the error it threw (a model that is wrong) */
+export type SolveResponse = { result: SolverResult } | { error: string };
+
+/** A Solver run under way */
+export type SolverRun = {
+  /** Abandon the run; onDone is not called */
+  stop: () => void;
+};
+
+/** The work of one request, wherever it runs */
+export function runSolve({ book, model, options }: SolveRequest): SolveResponse {
+  try {
+    return { result: solve(book[0].cells, model, options, workbookContext(book, book[0].name)) };
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+}
+
+/**
+ * startSolve(book, model, options, onDone)
+ * - solves in a fresh worker, ended once it answers or the run is stopped
+ * - onDone(response): called once, unless the run was stopped first
+ * - without Web Workers (tests, old browsers) it runs on the main thread after the caller
+ *   has had a chance to render, and can then only be stopped before it starts
+ */
+export function startSolve(
+  book: WorkbookSheet[],
+  model: SolverModel,
+  options: CalcOptions,
+  onDone: (res: SolveResponse) => void
+): SolverRun {
+  const req: SolveRequest = { book, model, options };
+  let worker: Worker | null = null;
+  let over = false;
+  const finish = (res: SolveResponse) => {
+    if (over) return;
+    over = true;
+    worker?.terminate();
+    worker = null;
+    onDone(res);
+  };
+  const runHere = () => {
+    setTimeout(() => {
+      if (!over) finish(runSolve(req));
+    }, 0);
+  };
+
+  if (typeof Worker !== "undefined") {
+    try {
+      worker = new Worker(new URL("./solverWorker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = (e: MessageEvent<SolveResponse>) => finish(e.data);
+      worker.onerror = (e) => {
+        // the worker couldn't load or crashed: solve here instead
+        console.warn("Solver worker failed, solving on the main thread:", e.message);
+        worker?.terminate();
+        worker = null;
+        runHere();
+      };
+      worker.postMessage(req);
+    } catch {
+      worker = null;
+    }
+  }
+  if (!worker) runHere();
+
+  return {
+    stop() {
+      over = true;
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
@@ -0,0 +1,10 @@
+// src/utils/solverWorker.ts
+// Web Worker side of solverClient.ts: solves the model it is sent and posts the outcome
+// back. One worker per run, so stopping a run is ending its worker.
+
+import { runSolve } from "./solverClient";
+import type { SolveRequest } from "./solverClient";
+
+self.onmessage = (e: MessageEvent<SolveRequest>) => {
+  self.postMessage(runSolve(e.data));
+};
@@ -0,0 +1,227 @@
+// src/utils/spreadsheet.test.ts
+// The headless workbook API, driven the way a script would use it.
+
+import { describe, expect, it } from "vitest";
+import { createWorkbook, isFormulaError } from "./spreadsheet";
+import type { CellContent, WorkbookEvent } from "./spreadsheet";
+
+const errorOf = (v: CellContent) => (isFormulaError(v) ? v.error : null);
+
+describe("cells", () => {
+  it("gets what was set and recalculates dependents", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    ws.set("A1", 2);
+    ws.set("A2", "=A1*10");
+    ws.set("a3", "=A2+1"); // ids are case-insensitive
+    expect(ws.get("A3")).toBe(21);
+    ws.set("$A$1", 5);
+    expect(ws.get("A2")).toBe(50);
+    expect(ws.get("A3")).toBe(51);
+    expect(ws.getRaw("A2")).toBe("=A1*10");
+    expect(ws.get("Z9")).toBeNull();
+  });
+
+  it("stores text and clears cells", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    ws.set("A1", "hello");
+    ws.set("B1", "=LEN(A1)");
+    expect(ws.get("B1")).toBe(5);
+    ws.set("A1", null);
+    expect(ws.get("A1")).toBeNull();
+    expect(ws.get("B1")).toBe(0);
+    expect(ws.ids()).toEqual(["B1"]);
+  });
+
+  it("round-trips booleans", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    ws.set("A1", true);
+    ws.set("A2", false);
+    ws.set("B1", "=A1=TRUE");
+    ws.set("B2", "=NOT(A2)");
+    expect(ws.getRaw("A1")).toBe("TRUE");
+    expect(ws.get("A1")).toBe(true);
+    expect(ws.get("A2")).toBe(false);
+    expect(ws.get("B1")).toBe(true);
+    expect(ws.get("B2")).toBe(true);
+  });
+
+  it("keeps formula problems as error values", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    ws.set("A1", "=1/0");
+    ws.set("A2", "=A3");
+    ws.set("A3", "=A2");
+    expect(errorOf(ws.get("A1"))).toBe("#DIV/0!");
+    expect(errorOf(ws.get("A2"))).toBe("#CIRC!");
+  });
+
+  it("throws on a bad cell id", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    expect(() => ws.set("nope", 1)).toThrow(/not a cell reference/);
+  });
+
+  it("evaluates a formula without storing it", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    ws.setRange("A1", [[1], [2], [3]]);
+    expect(ws.evaluate("=SUM(A1:A3)")).toBe(6);
+    expect(ws.evaluate("=SEQUENCE(2)")).toEqual([[1], [2]]);
+    expect(ws.ids()).toHaveLength(3);
+  });
+});
+
+describe("ranges", () => {
+  it("writes and reads blocks", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    ws.setRange("B2", [[1, 2], [3, "=B2+C2"]]);
+    expect(ws.getRange("B2:C3")).toEqual([[1, 2], [3, 3]]);
+    expect(ws.getRange("A1")).toEqual([[null]]);
+    expect(() => ws.getRange("Other!A1")).toThrow();
+  });
+
+  it("shows spilled arrays", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    ws.set("A1", "=SEQUENCE(3)");
+    expect(ws.getRange("A1:A3")).toEqual([[1], [2], [3]]);
+    expect(ws.ids()).toEqual(["A1", "A2", "A3"]);
+  });
+});
+
+describe("names", () => {
+  it("defines, uses, redefines and removes names", () => {
+    const wb = createWorkbook();
+    const ws = wb.sheet("Sheet1")!;
+    ws.setRange("A1", [[1], [2], [3]]);
+    ws.defineName("Data", "$A$1:$A$3");
+    ws.set("B1", "=SUM(Data)");
+    expect(ws.get("B1")).toBe(6);
+
+    ws.defineName("Data", "$A$1:$A$2");
+    expect(ws.get("B1")).toBe(3);
+
+    ws.defineName("Twice", "LAMBDA(x, x * 2)");
+    ws.set("B2", "=Twice(4)");
+    expect(ws.get("B2")).toBe(8);
+    expect(ws.names().map(n => n.name)).toEqual(["Data", "Twice"]);
+
+    expect(ws.removeName("Data")).toBe(true);
+    expect(ws.removeName("Data")).toBe(false);
+    expect(errorOf(ws.get("B1"))).toBe("#NAME?");
+  });
+
+  it("makes workbook names visible from other sheets", () => {
+    const wb = createWorkbook();
+    wb.sheet("Sheet1")!.set("A1", 7);
+    wb.sheet("Sheet1")!.defineName("Rate", "$A$1");
+    const other = wb.addSheet("Other");
+    other.set("A1", "=Rate*2");
+    expect(other.get("A1")).toBe(14);
+  });
+
+  it("rejects invalid names and targets", () => {
+    const ws = createWorkbook().sheet("Sheet1")!;
+    expect(() => ws.defineName("A1", "$B$1")).toThrow();
+    expect(() => ws.defineName("Ok", "1 +")).toThrow();
+  });
+});
+
+describe("sheets", () => {
+  it("adds sheets with the next free name", () => {
+    const wb = createWorkbook();
+    expect(wb.addSheet().name).toBe("Sheet2");
+    wb.removeSheet("Sheet1");
+    expect(wb.addSheet().name).toBe("Sheet3");
+    expect(wb.sheets().map(s => s.name)).toEqual(["Sheet2", "Sheet3"]);
+    expect(() => wb.addSheet("sheet2")).toThrow(/already/);
+  });
+
+  it("reads other sheets and follows renames", () => {
+    const wb = createWorkbook();
+    const data = wb.addSheet("Data");
+    data.set("A1", 4);
+    const ws = wb.sheet("Sheet1")!;
+    ws.set("A1", "=Data!A1*2");
+    expect(ws.get("A1")).toBe(8);
+
+    wb.renameSheet("Data", "My Data");
+    expect(ws.getRaw("A1")).toBe("='My Data'!A1*2");
+    wb.sheet("my data")!.set("A1", 5);
+    expect(ws.get("A1")).toBe(10);
+  });
+
+  it("turns references to a removed sheet into #REF!", () => {
+    const wb = createWorkbook();
+    wb.addSheet("Data").set("A1", 4);
+    const ws = wb.sheet("Sheet1")!;
+    ws.set("A1", "=Data!A1");
+    const removed = wb.sheet("Data")!;
+    wb.removeSheet("Data");
+    expect(errorOf(ws.get("A1"))).toBe("#REF!");
+    expect(() => removed.get("A1")).toThrow(/removed/);
+    expect(() => wb.removeSheet("Sheet1")).toThrow(/at least one/);
+  });
+});
+
+describe("toJSON", () => {
+  it("round-trips sheets, values, names and options", () => {
+    const wb = createWorkbook();
+    const ws = wb.sheet("Sheet1")!;
+    ws.setRange("A1", [[1, "=A1+1"], ["text", true]]);
+    ws.defineName("First", "$A$1");
+    wb.addSheet("Two").set("A1", "=Sheet1!B1*First");
+    wb.setOptions({ iterative: true, maxIterations: 10 });
+
+    const copy = createWorkbook(JSON.parse(JSON.stringify(wb.toJSON())));
+    expect(copy.sheets().map(s => s.name)).toEqual(["Sheet1", "Two"]);
+    expect(copy.sheet("Sheet1")!.getRange("A1:B2")).toEqual([[1, 2], ["text", true]]);
+    expect(copy.sheet("Two")!.get("A1")).toBe(2);
+    expect(copy.sheet("Sheet1")!.names()).toEqual(ws.names());
+    expect(copy.getOptions()).toMatchObject({ iterative: true, maxIterations: 10 });
+  });
+
+  it("is a copy, not a live view", () => {
+    const wb = createWorkbook();
+    const saved = wb.toJSON();
+    wb.sheet("Sheet1")!.set("A1", 1);
+    expect(saved.sheets[0].cells).toEqual({});
+  });
+});
+
+describe("events", () => {
+  it("reports edits after recalculating them", () => {
+    const wb = createWorkbook();
+    const ws = wb.sheet("Sheet1")!;
+    ws.set("A2", "=A1+1");
+    const seen: Array<WorkbookEvent & { a2?: CellContent }> = [];
+    const stop = wb.on(event => seen.push({ ...event, a2: ws.get("A2") }));
+    ws.set("A1", 1);
+    expect(seen).toEqual([
+      { type: "cells", sheet: "Sheet1", ids: ["A1"], a2: 2 },
+      { type: "calculated", sheets: ["Sheet1"], a2: 2 },
+    ]);
+    stop();
+    ws.set("A1", 2);
+    expect(seen).toHaveLength(2);
+  });
+
+  it("batches edits into one recalculation", () => {
+    const wb = createWorkbook();
+    const ws = wb.sheet("Sheet1")!;
+    const types: string[] = [];
+    wb.on(event => types.push(event.type));
+    wb.batch(() => {
+      ws.set("A1", 1);
+      ws.set("A2", "=A1*3");
+      expect(types).toEqual([]);
+    });
+    expect(types).toEqual(["cells", "cells", "calculated"]);
+    expect(ws.get("A2")).toBe(3);
+  });
+
+  it("reports sheet and name changes", () => {
+    const wb = createWorkbook();
+    const types: string[] = [];
+    wb.on(event => types.push(event.type));
+    wb.addSheet("Two");
+    wb.sheet("Two")!.defineName("X", "$A$1");
+    expect(types).toEqual(["sheets", "calculated", "names", "calculated"]);
+  });
+});
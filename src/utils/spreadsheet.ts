@@ -0,0 +1,320 @@
+// src/utils/spreadsheet.ts
+// Headless workbook API over the formula engine: sheets, cells, formulas, ranges, names,
+// serialization and change events. No React or browser APIs, so it runs as is in Node.
+
+import { buildDependencyGraph, evaluateAndUpdate, evaluateFormula, setCellRaw } from "./formulaEngine";
+import type { CalcOptions, DependencyGraph } from "./formulaEngine";
+import { cellId, parseRefWord, renameSheetReferences, sameSheet } from "./formulaParser";
+import { findName, isValidName, isValidNameFormula, parseNameRef, rewriteNames } from "./definedNames";
+import type { DefinedName, NameScope } from "./definedNames";
+import { recalcWorkbook, rewriteFormulas, workbookContext } from "./workbook";
+import type { WorkbookSheet } from "./workbook";
+import type { FormulaError, Value } from "./formulaValues";
+
+export type { CalcOptions, CellValue } from "./formulaEngine";
+export type { DefinedName, NameScope } from "./definedNames";
+export type { ErrorCode, FormulaError, Scalar, Value } from "./formulaValues";
+export { isFormulaError, valueToText } from "./formulaValues";
+
+/** What a cell shows: its computed value, null when blank */
+export type CellContent = string | number | boolean | FormulaError | null;
+
+/** What can be written into a cell: a formula ("=A1*2"), a literal, or null/"" to clear it */
+export type CellInput = string | number | boolean | null;
+
+/** A workbook as saved: every sheet's cells (with computed values) and names, and the calc settings */
+export type WorkbookData = { sheets: WorkbookSheet[]; options?: CalcOptions };
+
+/**
+ * What listeners hear about, always after the affected values were recalculated:
+ * - cells: cells of a sheet were set (ids as written)
+ * - calculated: these sheets have new values
+ * - sheets: a sheet was added, removed or renamed
+ * - names: a sheet's defined names changed
+ */
+export type WorkbookEvent =
+  | { type: "cells"; sheet: string; ids: string[] }
+  | { type: "calculated"; sheets: string[] }
+  | { type: "sheets" }
+  | { type: "names"; sheet: string };
+
+export type Worksheet = {
+  readonly name: string;
+  /** Computed value of a cell ("B2") */
+  get: (id: string) => CellContent;
+  /** What was typed into a cell: a formula, a literal, or "" */
+  getRaw: (id: string) => string;
+  /** Write a cell; booleans are written as TRUE/FALSE and read back as booleans */
+  set: (id: string, input: CellInput) => void;
+  /** Values of a cell or range ("A1:C3"), row by row */
+  getRange: (range: string) => CellContent[][];
+  /** Write a block of cells whose top-left corner is `topLeft` */
+  setRange: (topLeft: string, rows: CellInput[][]) => void;
+  /** Ids of the cells holding something (typed or spilled) */
+  ids: () => string[];
+  /** Value of a formula evaluated on this sheet without storing it; arrays come back whole */
+  evaluate: (formula: string) => Value;
+  /** Names saved with this sheet */
+  names: () => DefinedName[];
+  /** Define (or redefine) a name for cells of this sheet ("$B$2:$B$10") or for a formula ("LAMBDA(x, x * 2)") */
+  defineName: (name: string, ref: string, scope?: NameScope) => void;
+  /** Remove one of this sheet's names; false when there is none */
+  removeName: (name: string) => boolean;
+};
+
+export type Workbook = {
+  sheets: () => Worksheet[];
+  /** A sheet by name (case-insensitive) */
+  sheet: (name: string) => Worksheet | undefined;
+  /** Add an empty sheet (named Sheet2, Sheet3... when no name is given) */
+  addSheet: (name?: string) => Worksheet;
+  /** Remove a sheet; references to it become #REF! */
+  removeSheet: (name: string) => void;
+  /** Rename a sheet; references to it follow */
+  renameSheet: (from: string, to: string) => void;
+  /** Run several edits, recalculating (and notifying) once at the end */
+  batch: (edit: () => void) => void;
+  /** Recalculate every formula of every sheet */
+  recalculate: () => void;
+  getOptions: () => CalcOptions;
+  /** Change calculation settings (iterative calculation, RAND seed...); recalculates */
+  setOptions: (options: CalcOptions) => void;
+  /** The workbook as saved (see createWorkbook) */
+  toJSON: () => WorkbookData;
+  /** Listen for changes; returns the function that stops listening */
+  on: (listener: (event: WorkbookEvent) => void) => () => void;
+};
+
+/** Key of a cell id as written ("b2", "$B$2" -> "B2"); throws when it isn't one */
+function cellKey(id: string) {
+  const ref = parseRefWord(id.trim());
+  if (!ref) throw new Error(`"${id}" is not a cell reference`);
+  return cellId(ref.row, ref.col);
+}
+
+function rawOf(input: CellInput) {
+  if (input == null) return "";
+  if (typeof input === "boolean") return input ? "TRUE" : "FALSE";
+  return String(input);
+}
+
+/**
+ * createWorkbook(data?)
+ * - a workbook with the sheets of `data` (or one empty Sheet1), recalculated at once
+ * - every edit recalculates what it affects before returning (see batch to group edits):
+ *   the edited sheet incrementally, then the sheets reading it
+ * - misuse (unknown sheet, bad cell id, invalid name...) throws an Error; formula problems
+ *   are error values (#DIV/0!, #REF!...) in the cells, as in the app
+ */
+export function createWorkbook(data?: WorkbookData): Workbook {
+  let options: CalcOptions = { ...data?.options };
+  const book: WorkbookSheet[] = (data?.sheets?.length ? data.sheets : [{ name: "Sheet1", cells: {} }])
+    .map(s => ({ name: s.name, cells: { ...s.cells }, names: [...(s.names ?? [])] }));
+  const graphs = new Map<WorkbookSheet, DependencyGraph>();
+  const views = new Map<WorkbookSheet, Worksheet>();
+  const listeners = new Set<(event: WorkbookEvent) => void>();
+
+  // edits waiting for the end of a batch
+  let batching = 0;
+  const edited = new Map<WorkbookSheet, Set<string>>();
+  let everything = false;
+  const events: WorkbookEvent[] = [];
+
+  const emit = (event: WorkbookEvent) => { for (const l of [...listeners]) l(event); };
+
+  const find = (name: string) => book.find(s => sameSheet(s.name, name));
+  const mustFind = (name: string) => {
+    const sheet = find(name);
+    if (!sheet) throw new Error(`There is no sheet "${name}"`);
+    return sheet;
+  };
+  const live = (sheet: WorkbookSheet) => {
+    if (!book.includes(sheet)) throw new Error(`Sheet "${sheet.name}" was removed from the workbook`);
+    return sheet;
+  };
+
+  /** Recalculate what the pending edits affect, then tell listeners */
+  const flush = () => {
+    if (batching) return;
+    const calculated = new Set<WorkbookSheet>();
+    if (everything) {
+      for (const sheet of recalcWorkbook(book, options)) calculated.add(sheet);
+      graphs.clear();
+    } else {
+      for (const [sheet, ids] of edited) {
+        let graph = graphs.get(sheet);
+        if (!graph) {
+          graph = buildDependencyGraph(sheet.cells);
+          graphs.set(sheet, graph);
+        }
+        evaluateAndUpdate(sheet.cells, [...ids], graph, options, workbookContext(book, sheet.name));
+        calculated.add(sheet);
+        // other sheets are recalculated whole, which leaves their graphs behind
+        for (const other of recalcWorkbook(book, options, sheet.name)) {
+          calculated.add(other);
+          graphs.delete(other);
+        }
+      }
+    }
+    everything = false;
+    edited.clear();
+    const pending = events.splice(0);
+    for (const event of pending) emit(event);
+    if (calculated.size) emit({ type: "calculated", sheets: [...calculated].map(s => s.name) });
+  };
+
+  const change = (event: WorkbookEvent, recalcAll: boolean) => {
+    events.push(event);
+    if (recalcAll) everything = true;
+    flush();
+  };
+
+  /** Apply a formula rewrite to every sheet's formulas and names */
+  const rewriteAll = (rewrite: (raw: string) => string) => {
+    for (const sheet of book) {
+      rewriteFormulas(sheet, rewrite);
+      sheet.names = rewriteNames(sheet.names ?? [], rewrite);
+    }
+  };
+
+  const view = (sheet: WorkbookSheet): Worksheet => {
+    const existing = views.get(sheet);
+    if (existing) return existing;
+    const get = (id: string): CellContent => {
+      const cell = live(sheet).cells[cellKey(id)];
+      if (!cell || cell.raw === "") return null;
+      return cell.value ?? null;
+    };
+    const write = (id: string, input: CellInput) => {
+      const key = cellKey(id);
+      setCellRaw(sheet.cells, key, rawOf(input));
+      let ids = edited.get(sheet);
+      if (!ids) { ids = new Set(); edited.set(sheet, ids); }
+      ids.add(key);
+      return key;
+    };
+    const ws: Worksheet = {
+      get name() { return sheet.name; },
+      get,
+      getRaw: id => live(sheet).cells[cellKey(id)]?.raw ?? "",
+      set: (id, input) => {
+        live(sheet);
+        const key = write(id, input);
+        change({ type: "cells", sheet: sheet.name, ids: [key] }, false);
+      },
+      getRange: range => {
+        live(sheet);
+        const ref = parseNameRef(range.trim());
+        if (!ref) throw new Error(`"${range}" is not a cell or range of this sheet`);
+        const rows: CellContent[][] = [];
+        for (let r = ref.top; r <= ref.bottom; r++) {
+          const row: CellContent[] = [];
+          for (let c = ref.left; c <= ref.right; c++) row.push(get(cellId(r, c)));
+          rows.push(row);
+        }
+        return rows;
+      },
+      setRange: (topLeft, rows) => {
+        live(sheet);
+        const start = parseRefWord(topLeft.trim());
+        if (!start) throw new Error(`"${topLeft}" is not a cell reference`);
+        const ids = rows.flatMap((row, r) => row.map((input, c) => write(cellId(start.row + r, start.col + c), input)));
+        change({ type: "cells", sheet: sheet.name, ids }, false);
+      },
+      ids: () => Object.keys(live(sheet).cells).filter(id => sheet.cells[id]?.raw || sheet.cells[id]?.spillFrom !== undefined),
+      evaluate: formula => evaluateFormula(live(sheet).cells, formula, options, workbookContext(book, sheet.name)),
+      names: () => [...(live(sheet).names ?? [])],
+      defineName: (name, ref, scope = "workbook") => {
+        live(sheet);
+        const text = ref.trim().replace(/^=/, "");
+        if (!isValidName(name)) throw new Error(`"${name}" can't be a name: use letters, digits, _ and . and don't make it look like a cell`);
+        if (!text || (!parseNameRef(text) && !isValidNameFormula(text))) throw new Error(`"${ref}" is neither a cell range nor a formula`);
+        const existing = findName(sheet.names, name);
+        sheet.names = [...(sheet.names ?? []).filter(n => n !== existing), { name, ref: text, scope }]
+          .sort((a, b) => a.name.localeCompare(b.name));
+        change({ type: "names", sheet: sheet.name }, true);
+      },
+      removeName: name => {
+        const existing = findName(live(sheet).names, name);
+        if (!existing) return false;
+        sheet.names = sheet.names!.filter(n => n !== existing);
+        change({ type: "names", sheet: sheet.name }, true);
+        return true;
+      },
+    };
+    views.set(sheet, ws);
+    return ws;
+  };
+
+  const checkNewName = (name: string) => {
+    if (!name.trim()) throw new Error("A sheet needs a name");
+    if (find(name)) throw new Error(`There already is a sheet "${name}"`);
+  };
+
+  recalcWorkbook(book, options); // saved values may be stale
+
+  return {
+    sheets: () => book.map(view),
+    sheet: name => {
+      const sheet = find(name);
+      return sheet && view(sheet);
+    },
+    addSheet: name => {
+      let n = book.length + 1;
+      while (!name && find(`Sheet${n}`)) n++;
+      const sheetName = name ?? `Sheet${n}`;
+      checkNewName(sheetName);
+      const sheet: WorkbookSheet = { name: sheetName, cells: {}, names: [] };
+      book.push(sheet);
+      // formulas that read the missing sheet (#REF!) now find it
+      change({ type: "sheets" }, true);
+      return view(sheet);
+    },
+    removeSheet: name => {
+      const sheet = mustFind(name);
+      if (book.length === 1) throw new Error("A workbook keeps at least one sheet");
+      book.splice(book.indexOf(sheet), 1);
+      graphs.delete(sheet);
+      rewriteAll(raw => renameSheetReferences(raw, sheet.name, null));
+      change({ type: "sheets" }, true);
+    },
+    renameSheet: (from, to) => {
+      const sheet = mustFind(from);
+      if (sameSheet(from, to)) {
+        sheet.name = to;
+      } else {
+        checkNewName(to);
+        rewriteAll(raw => renameSheetReferences(raw, sheet.name, to));
+        sheet.name = to;
+      }
+      change({ type: "sheets" }, true);
+    },
+    batch: edit => {
+      batching++;
+      try {
+        edit();
+      } finally {
+        batching--;
+        flush();
+      }
+    },
+    recalculate: () => {
+      everything = true;
+      flush();
+    },
+    getOptions: () => ({ ...options }),
+    setOptions: next => {
+      options = { ...options, ...next };
+      everything = true;
+      flush();
+    },
+    toJSON: () => ({
+      sheets: book.map(s => ({ name: s.name, cells: { ...s.cells }, names: [...(s.names ?? [])] })),
+      options: { ...options },
+    }),
+    on: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
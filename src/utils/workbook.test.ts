@@ -0,0 +1,123 @@
+// src/utils/workbook.test.ts
+// Calculation across sheets: dependency order, the sheets an edit recalculates, circular
+// references through several sheets, and undoing a rewrite of other sheets' formulas.
+
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CALC_OPTIONS } from "./formulaEngine";
+import type { CellValue } from "./formulaEngine";
+import { isFormulaError } from "./formulaValues";
+import { sameSheet, spliceReferences } from "./formulaParser";
+import { crossSheetCycles, recalcSheet, recalcWorkbook, rewriteSheets } from "./workbook";
+import type { WorkbookSheet } from "./workbook";
+
+const errorOf = (cell: CellValue | undefined) => (isFormulaError(cell?.value) ? cell.value.error : null);
+
+/** Sheet1!A1 and B!A1 add one to each other */
+function circularBook(): WorkbookSheet[] {
+  return [
+    { name: "Sheet1", cells: { A1: { raw: "=B!A1+1" } } },
+    { name: "B", cells: { A1: { raw: "=Sheet1!A1+1" } } },
+  ];
+}
+
+describe("cross-sheet circular references", () => {
+  it("finds cycles through several sheets only", () => {
+    const book: WorkbookSheet[] = [
+      { name: "Sheet1", cells: { A1: { raw: "=B!A1+1" }, A2: { raw: "=A3" }, A3: { raw: "=A2" }, C1: { raw: "=B!C1" } } },
+      { name: "B", cells: { A1: { raw: "=SUM(Sheet1!A1:A1)" }, C1: { raw: "=5" } } },
+    ];
+    expect(crossSheetCycles(book)).toEqual([[{ sheet: "Sheet1", id: "A1" }, { sheet: "B", id: "A1" }]]);
+    expect(crossSheetCycles([book[0]])).toEqual([]);
+  });
+
+  it("flags the cells with #CIRC! and keeps them from drifting", () => {
+    const book = circularBook();
+    for (let i = 0; i < 3; i++) {
+      recalcWorkbook(book);
+      expect(errorOf(book[0].cells.A1)).toBe("#CIRC!");
+      expect(errorOf(book[1].cells.A1)).toBe("#CIRC!");
+    }
+    const a1 = book[0].cells.A1.value;
+    expect(isFormulaError(a1) && a1.message).toBe("Circular reference: Sheet1!A1 → B!A1");
+  });
+
+  it("passes the error on to the cells reading the cycle", () => {
+    const book = circularBook();
+    book[1].cells.B1 = { raw: "=Sheet1!A1*2" };
+    recalcWorkbook(book);
+    expect(errorOf(book[1].cells.B1)).toBe("#CIRC!");
+  });
+
+  it("calculates again once the cycle is broken", () => {
+    const book = circularBook();
+    recalcWorkbook(book);
+    book[0].cells = { A1: { raw: "5" } };
+    recalcWorkbook(book);
+    expect(book[1].cells.A1.value).toBe(6);
+  });
+
+  it("iterates the sheets when iterative calculation is on", () => {
+    const book: WorkbookSheet[] = [
+      { name: "Sheet1", cells: { A1: { raw: "10" }, A2: { raw: "=A1+B!A1/2" } } },
+      { name: "B", cells: { A1: { raw: "=Sheet1!A2/2" } } },
+    ];
+    recalcWorkbook(book);
+    expect(errorOf(book[0].cells.A2)).toBe("#CIRC!");
+
+    recalcWorkbook(book, { iterative: true, maxIterations: 100, maxChange: 0.000001 });
+    // x = 10 + x / 4 settles at 13.333...
+    expect(book[0].cells.A2.value).toBeCloseTo(40 / 3, 4);
+    expect(book[1].cells.A1.value).toBeCloseTo(20 / 3, 4);
+  });
+});
+
+describe("recalcWorkbook", () => {
+  it("recalculates the sheets reading a changed sheet, in dependency order", () => {
+    const book: WorkbookSheet[] = [
+      { name: "C", cells: { A1: { raw: "=B!A1+1" } } },
+      { name: "B", cells: { A1: { raw: "=A!A1+1" } } },
+      { name: "A", cells: { A1: { raw: "1" } } },
+    ];
+    expect(recalcWorkbook(book, undefined, "A").map(s => s.name)).toEqual(["B", "C"]);
+    expect(book[0].cells.A1.value).toBe(3);
+  });
+});
+
+describe("recalcSheet", () => {
+  it("recalculates the sheets reading the open one and leaves the book alone", () => {
+    const book: WorkbookSheet[] = [
+      { name: "A", cells: { A1: { raw: "2" }, A2: { raw: "=A1*10" } } },
+      { name: "B", cells: { A1: { raw: "=A!A2+1", value: 0 } } },
+      { name: "C", cells: { A1: { raw: "7" } } },
+    ];
+    const out = recalcSheet(book, DEFAULT_CALC_OPTIONS, null);
+    expect(out.cells.A2.value).toBe(20);
+    expect(out.others.map(s => [s.name, s.cells.A1.value])).toEqual([["B", 21]]);
+    expect(book[1].cells.A1.value).toBe(0);
+    expect(out.volatile).toBe(false);
+    expect(recalcSheet([{ name: "A", cells: { A1: { raw: "=TODAY()" } } }], DEFAULT_CALC_OPTIONS, null).volatile).toBe(true);
+  });
+});
+
+describe("rewriteSheets", () => {
+  it("returns the cells it replaced, so undoing a row delete restores other sheets' references", () => {
+    const book: WorkbookSheet[] = [
+      { name: "A", cells: { A2: { raw: "1" }, A3: { raw: "5" } } },
+      { name: "B", cells: { A1: { raw: "=A!A3*2" }, A2: { raw: "=A!A2" } } },
+      { name: "C", cells: { A1: { raw: "=1" } } },
+    ];
+    recalcWorkbook(book);
+    // row 2 of A deleted: what the open sheet asks of the others
+    const before = rewriteSheets(book.slice(1), raw => spliceReferences(raw, "row", 1, -1, s => s !== undefined && sameSheet(s, "A")));
+    expect(book[1].cells.A1.raw).toBe("=A!A2*2");
+    expect(book[1].cells.A2.raw).toBe("=#REF!");
+    expect(before.map(s => s.name)).toEqual(["B"]);
+
+    // undo
+    book[0].cells = { A2: { raw: "1" }, A3: { raw: "5" } };
+    book[1].cells = before[0].cells;
+    recalcWorkbook(book);
+    expect(book[1].cells.A1).toMatchObject({ raw: "=A!A3*2", value: 10 });
+    expect(book[1].cells.A2).toMatchObject({ raw: "=A!A2", value: 1 });
+  });
+});
@@ -0,0 +1,304 @@
+// src/utils/workbook.ts
+// Workbook-level calculation for cross-sheet references (Sheet2!A1). Within a sheet the
+// cell-level DependencyGraph decides what to recalc; across sheets the graph is between
+// whole sheets: a sheet depends on every sheet its formulas name, directly or through a
+// defined name. Circular references running through several sheets are found on a
+// cell-level graph of the sheets that read each other in a circle.
+
+import { CIRCULAR_ERROR, DEFAULT_CALC_OPTIONS, createDependencyGraph, evaluateAndUpdate } from "./formulaEngine";
+import type { CalcOptions, CellValue, DependencyGraph, WorkbookContext } from "./formulaEngine";
+import { cycleGroups, isCycle } from "./dependencyGraph";
+import { collectNames, collectSheetNames, formatSheetName, getFormulaAst, parseId, sameSheet } from "./formulaParser";
+import { precedentRanges } from "./formulaAudit";
+import { resolveName } from "./definedNames";
+import type { DefinedName } from "./definedNames";
+import { isFormulaError } from "./formulaValues";
+import type { RangeRef } from "./formulaValues";
+
+export type WorkbookSheet = { name: string; cells: Record<string, CellValue>; names?: DefinedName[] };
+
+/**
+ * How an open sheet reaches the rest of its workbook:
+ * - others: every other sheet's saved cells and names, for cross-sheet references and
+ *   workbook-scoped names
+ * - calculated: saves the other sheets a recalculation of the open one recalculated (the
+ *   sheets reading it, see recalcSheet)
+ * - rewriteOthers: applies a formula rewrite to every other sheet (e.g. after rows were
+ *   inserted, so their references to this sheet follow the cells); returns the sheets it
+ *   changed as they were before (see rewriteSheets), for undo
+ * - restoreOthers: saves those cells back (undo and redo of such a rewrite)
+ * - goTo: opens another sheet with `range` selected (Go To a name defined there); false
+ *   when the workbook has no such sheet
+ */
+export type WorkbookLink = {
+  others: () => WorkbookSheet[];
+  calculated: (sheets: WorkbookSheet[]) => void;
+  rewriteOthers: (rewrite: (raw: string) => string) => WorkbookSheet[];
+  restoreOthers: (sheets: WorkbookSheet[]) => void;
+  goTo: (sheet: string, range: RangeRef) => boolean;
+};
+
+/** Names of the sheets a sheet's formulas refer to; `names` tells what a defined name stands for */
+export function referencedSheets(
+  cells: Record<string, CellValue>,
+  names?: WorkbookContext["names"]
+): string[] {
+  const out = new Set<string>();
+  for (const cell of Object.values(cells)) {
+    const raw = cell?.raw;
+    if (!raw || raw[0] !== "=") continue;
+    try {
+      const ast = getFormulaAst(raw);
+      for (const name of collectSheetNames(ast)) out.add(name);
+      for (const name of collectNames(ast)) {
+        const target = names?.(name);
+        if (!target) continue;
+        if ("ref" in target) {
+          if (target.ref.sheet !== undefined) out.add(target.ref.sheet);
+        } else {
+          for (const sheet of collectSheetNames(getFormulaAst(`=${target.formula}`))) out.add(sheet);
+        }
+      }
+    } catch {
+      // unparsable formulas and deleted names refer to nothing
+    }
+  }
+  return [...out];
+}
+
+/** A cell of one of the workbook's sheets */
+export type SheetCell = { sheet: string; id: string };
+
+/**
+ * workbookContext(book, sheet, cycles?)
+ * - context for calculating `sheet` with every other sheet of `book`, and their names,
+ *   readable
+ * - its cells on a circular reference through other sheets are looked up (once) with
+ *   crossSheetCycles, or `cycles` when the caller found them already
+ */
+export function workbookContext(book: WorkbookSheet[], sheet: string, cycles?: () => SheetCell[][]): WorkbookContext {
+  let circular: Map<string, string> | undefined;
+  return {
+    sheet,
+    resolve: name => book.find(s => sameSheet(s.name, name))?.cells ?? null,
+    names: name => resolveName(book, sheet, name),
+    circular: () => (circular ??= circularCells(cycles ? cycles() : crossSheetCycles(book), sheet)),
+  };
+}
+
+/** The other sheets each sheet of the book reads */
+function sheetReads<T extends WorkbookSheet>(book: T[]): Map<T, T[]> {
+  return new Map(book.map(s => [
+    s,
+    referencedSheets(s.cells, workbookContext(book, s.name).names)
+      .map(name => book.find(o => sameSheet(o.name, name)))
+      .filter((o): o is T => !!o && o !== s),
+  ]));
+}
+
+/** Record in `graph` that `from` reads `to` */
+function link(graph: DependencyGraph, from: string, to: string) {
+  if (!graph.precedents.has(from)) graph.precedents.set(from, new Set());
+  graph.precedents.get(from)!.add(to);
+  if (!graph.dependents.has(to)) graph.dependents.set(to, new Set());
+  graph.dependents.get(to)!.add(from);
+}
+
+/** True for cells that read other cells: formulas, and the values spilled from one */
+function readsCells(cell: CellValue | undefined) {
+  return !!cell && (cell.raw?.[0] === "=" || (cell.spillFrom !== undefined && cell.raw == null));
+}
+
+/**
+ * crossSheetCycles(book)
+ * - circular references running through more than one sheet (Sheet1!A1 reads Sheet2!A1,
+ *   which reads Sheet1!A1), each as the cells on it
+ * - only the sheets reading each other in a circle get a cell-level graph; cycles within
+ *   one sheet are left to that sheet's own recalculation
+ */
+export function crossSheetCycles(book: WorkbookSheet[]): SheetCell[][] {
+  const reads = sheetReads(book);
+  const sheets = createDependencyGraph();
+  book.forEach((s, i) => { for (const o of reads.get(s)!) link(sheets, String(i), String(book.indexOf(o))); });
+  const circle = cycleGroups(sheets, book.map((_, i) => String(i)))
+    .filter(group => group.length > 1)
+    .flat()
+    .map(Number);
+  if (circle.length === 0) return [];
+
+  // cells that read others, by sheet, with their positions
+  const readers = new Map(circle.map(i => [
+    i,
+    Object.keys(book[i].cells)
+      .filter(id => readsCells(book[i].cells[id]))
+      .map(id => ({ id, pos: parseId(id)! }))
+      .filter(c => c.pos),
+  ]));
+  const key = (i: number, id: string) => `${i}!${id}`;
+  const cells = createDependencyGraph();
+  for (const i of circle) {
+    const context = workbookContext(book, book[i].name);
+    for (const { id } of readers.get(i)!) {
+      for (const range of precedentRanges(book[i].cells, id, context)) {
+        const j = range.sheet === undefined ? i : book.findIndex(s => sameSheet(s.name, range.sheet!));
+        for (const other of readers.get(j) ?? []) {
+          const { row, col } = other.pos;
+          if (row >= range.top && row <= range.bottom && col >= range.left && col <= range.right) link(cells, key(i, id), key(j, other.id));
+        }
+      }
+    }
+  }
+
+  const at = (k: string) => {
+    const bang = k.indexOf("!");
+    return { sheet: book[Number(k.slice(0, bang))].name, id: k.slice(bang + 1) };
+  };
+  return cycleGroups(cells, circle.flatMap(i => readers.get(i)!.map(c => key(i, c.id))))
+    .filter(group => isCycle(cells, group) && new Set(group.map(k => k.slice(0, k.indexOf("!")))).size > 1)
+    .map(group => group.map(at));
+}
+
+/** Cells of `sheet` on the given cycles, with the message their #CIRC! shows */
+function circularCells(cycles: SheetCell[][], sheet: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const cycle of cycles) {
+    const message = `Circular reference: ${cycle.map(c => `${formatSheetName(c.sheet)}!${c.id}`).join(" → ")}`;
+    for (const c of cycle) if (sameSheet(c.sheet, sheet)) out.set(c.id, message);
+  }
+  return out;
+}
+
+/**
+ * Sheets to recalculate, each after the sheets it reads: all of them, or with `changed`
+ * only those reading it directly or through other sheets (`changed` itself excluded, so a
+ * cycle between sheets stops there). Sheets on a cycle keep workbook order; the cells of
+ * the cycle show #CIRC! (see crossSheetCycles) or are iterated.
+ */
+function recalcOrder<T extends WorkbookSheet>(book: T[], changed?: string): T[] {
+  const reads = sheetReads(book);
+
+  let pending: T[];
+  if (changed === undefined) pending = [...book];
+  else {
+    const source = book.find(s => sameSheet(s.name, changed));
+    const found = new Set<T>();
+    const queue = source ? [source] : [];
+    while (queue.length) {
+      const cur = queue.shift()!;
+      for (const s of book) {
+        if (s !== source && !found.has(s) && reads.get(s)!.includes(cur)) { found.add(s); queue.push(s); }
+      }
+    }
+    pending = book.filter(s => found.has(s));
+  }
+
+  const order: T[] = [];
+  while (pending.length) {
+    const ready = pending.find(s => !reads.get(s)!.some(o => pending.includes(o))) ?? pending[0];
+    order.push(ready);
+    pending = pending.filter(s => s !== ready);
+  }
+  return order;
+}
+
+/**
+ * recalcWorkbook(book, options?, changed?)
+ * - recalculates, in place, every sheet of the book, or with `changed` only the sheets that
+ *   read it (directly or through others), in dependency order
+ * - cells on a circular reference through several sheets show #CIRC!, or with
+ *   options.iterative their sheets are recalculated in turn until the values settle
+ * - returns the recalculated sheets
+ */
+export function recalcWorkbook<T extends WorkbookSheet>(book: T[], options?: CalcOptions, changed?: string): T[] {
+  const order = recalcOrder(book, changed);
+  let cycles: SheetCell[][] | undefined;
+  const found = () => (cycles ??= crossSheetCycles(book));
+  const recalc = (sheet: T) => {
+    sheet.cells = { ...sheet.cells };
+    evaluateAndUpdate(sheet.cells, undefined, undefined, options, workbookContext(book, sheet.name, found));
+  };
+  if (!options?.iterative) {
+    for (const sheet of order) recalc(sheet);
+    return order;
+  }
+
+  const members = found().flat().map(c => ({ sheet: book.find(s => sameSheet(s.name, c.sheet))!, id: c.id }));
+  const cycling = order.filter(sheet => members.some(m => m.sheet === sheet));
+  // cells flagged while iterative calculation was off start again from zero
+  for (const { sheet, id } of members) {
+    const v = sheet.cells[id]?.value;
+    if (cycling.includes(sheet) && isFormulaError(v) && v.error === CIRCULAR_ERROR) {
+      sheet.cells = { ...sheet.cells, [id]: { ...sheet.cells[id], value: 0 } };
+    }
+  }
+  for (const sheet of order) recalc(sheet);
+  if (cycling.length === 0) return order;
+
+  // like iterateCycle within a sheet: until no value on a cycle moves by more than maxChange
+  const opts = { ...DEFAULT_CALC_OPTIONS, ...options };
+  for (let iter = 1; iter < opts.maxIterations; iter++) {
+    const before = members.map(m => m.sheet.cells[m.id]?.value);
+    for (const sheet of cycling) recalc(sheet);
+    const delta = members.reduce((d, m, i) => {
+      const prev = before[i], next = m.sheet.cells[m.id]?.value;
+      if (typeof prev === "number" && typeof next === "number") return Math.max(d, Math.abs(next - prev));
+      return prev === next ? d : Infinity;
+    }, 0);
+    if (delta <= opts.maxChange) break;
+  }
+  // and the other sheets read the settled values
+  for (const sheet of order) if (!cycling.includes(sheet)) recalc(sheet);
+  return order;
+}
+
+/**
+ * recalcSheet(book, options, graph, changed?)
+ * - recalculates the first sheet of `book`, reading the others; its cells come back as a
+ *   new map (book[0].cells is left alone)
+ * - `graph` is the sheet's graph from the previous call, kept up to date here; with none
+ *   (or no `changed`) every formula is recalculated
+ * - then the other sheets reading it (see recalcWorkbook), which come back in `others`
+ *   (the sheets of `book` are left alone); `volatile` tells whether the first sheet has
+ *   formulas to recalculate on every recalc (TODAY, OFFSET...)
+ */
+export function recalcSheet(
+  book: WorkbookSheet[],
+  options: CalcOptions,
+  graph: DependencyGraph | null,
+  changed?: string[]
+): { cells: Record<string, CellValue>; graph: DependencyGraph; others: WorkbookSheet[]; volatile: boolean } {
+  const [sheet, ...rest] = book;
+  const cells = { ...sheet.cells };
+  const g = graph ?? createDependencyGraph();
+  evaluateAndUpdate(cells, graph ? changed : undefined, g, options, workbookContext(book, sheet.name));
+  const after = [{ ...sheet, cells }, ...rest.map(s => ({ ...s }))];
+  const others = recalcWorkbook(after, options, sheet.name).map(s => ({ name: s.name, cells: s.cells }));
+  return { cells, graph: g, others, volatile: g.volatile.size > 0 };
+}
+
+/** Apply `rewrite` to every formula of a sheet; true when any formula changed */
+export function rewriteFormulas(sheet: WorkbookSheet, rewrite: (raw: string) => string): boolean {
+  let changed = false;
+  const next: Record<string, CellValue> = {};
+  for (const [id, cell] of Object.entries(sheet.cells)) {
+    const raw = cell?.raw;
+    const updated = raw && raw[0] === "=" ? rewrite(raw) : raw;
+    if (updated !== raw) changed = true;
+    next[id] = updated === raw ? cell : { ...cell, raw: updated };
+  }
+  if (changed) sheet.cells = next;
+  return changed;
+}
+
+/**
+ * rewriteSheets(book, rewrite)
+ * - rewriteFormulas on every sheet of `book`
+ * - returns the sheets it changed with the cells they had before: what undoing the rewrite
+ *   puts back
+ */
+export function rewriteSheets(book: WorkbookSheet[], rewrite: (raw: string) => string): WorkbookSheet[] {
+  return book.flatMap(sheet => {
+    const before = { name: sheet.name, cells: sheet.cells };
+    return rewriteFormulas(sheet, rewrite) ? [before] : [];
+  });
+}